@@ -0,0 +1,118 @@
+import { MAX_STAMINA, today } from "../src/lib/petRules";
+
+// ==================
+// Mock backend: in-memory state
+// ==================
+// Mirrors the payloads in src/lib/schemas.ts closely enough for the app to run
+// without the real backend. The rules come from src/lib/rewardRules.ts and
+// src/lib/petRules.ts, the same ones the guest store runs.
+
+export interface MockPet {
+    id: number;
+    owner_id: string;
+    name: string;
+    strength: number;
+    stamina: number;
+    mood: number;
+    level: number;
+    stage: number;
+    breakthrough_completed: boolean;
+    updated_at: string;
+    last_daily_check: string | null;
+    daily_steps: number;
+    daily_exercise_seconds: number;
+    daily_quest_1_completed: boolean;
+    daily_quest_2_completed: boolean;
+    daily_quest_3_completed: boolean;
+}
+
+export interface MockExerciseLog {
+    id: number;
+    exercise_type: string;
+    duration_seconds: number;
+    volume: number;
+    activity_breakdown: Record<string, number> | null;
+    distance_meters: number | null;
+    elevation_gain_meters: number | null;
+    route_polyline: string | null;
+    program_id: string | null;
+    program_completed: boolean | null;
+    program_compliance: number | null;
+    started_at: string;
+    raining: boolean | null;
+    excluded_segments: Array<{ start_sec: number; end_sec: number; steps: number; reason: string }> | null;
+    created_at: string;
+    user_id: string;
+    pet_id: number;
+}
+
+export interface MockCheckin {
+    id: number;
+    user_id: string;
+    quest_id: string;
+    completed_at: string;
+    lat: number;
+    lng: number;
+}
+
+export interface MockUser {
+    id: string;
+    created_at: string;
+    pet: MockPet;
+    exercise_logs: MockExerciseLog[];
+    checkins: MockCheckin[];
+    /** Date (YYYY-MM-DD) the daily counters were last reset */
+    last_reset_date: string | null;
+    /** Exercise seconds of the day before the last reset, judged by the daily check */
+    previous_day_exercise_seconds: number;
+}
+
+export class MockDb {
+    users = new Map<string, MockUser>();
+    /** Responses already sent for an Idempotency-Key, replayed for duplicates */
+    idempotent = new Map<string, { status: number; body: unknown }>();
+    private nextId = 1;
+
+    reset() {
+        this.users.clear();
+        this.idempotent.clear();
+        this.nextId = 1;
+    }
+
+    id(): number {
+        return this.nextId++;
+    }
+
+    createUser(petName: string, userId?: string): MockUser {
+        const id = userId ?? String(this.id());
+        const now = new Date().toISOString();
+        const user: MockUser = {
+            id,
+            created_at: now,
+            exercise_logs: [],
+            checkins: [],
+            last_reset_date: today(),
+            previous_day_exercise_seconds: 0,
+            pet: {
+                id: this.id(),
+                owner_id: id,
+                name: petName,
+                strength: 0,
+                stamina: MAX_STAMINA,
+                mood: 70,
+                level: 1,
+                stage: 1,
+                breakthrough_completed: false,
+                updated_at: now,
+                last_daily_check: null,
+                daily_steps: 0,
+                daily_exercise_seconds: 0,
+                daily_quest_1_completed: false,
+                daily_quest_2_completed: false,
+                daily_quest_3_completed: false,
+            },
+        };
+        this.users.set(id, user);
+        return user;
+    }
+}
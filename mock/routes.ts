@@ -0,0 +1,406 @@
+import { MockDb, MockExerciseLog, MockUser } from "./db";
+// Shared with the app: the rules have no app imports, so the mock can run the real thing
+import {
+    CHECKIN_REWARD,
+    DAILY_CHECK_PENALTY,
+    DAILY_QUEST_RULES,
+    DailyQuestRuleId,
+    clampStats,
+    dailyCheckPassed,
+    grantStats,
+    isBreakthroughPending,
+    questClaimable,
+    questClaimed,
+    rollDailyCounters,
+    today,
+} from "../src/lib/petRules";
+import { computeRewards, creditedSeconds, sessionFromLog } from "../src/lib/rewardRules";
+
+// ==================
+// Mock backend: endpoints
+// ==================
+// One handler per function in src/lib/api.ts, same paths and payloads.
+
+/** Sent back as a FastAPI-style `{ detail }` body */
+export class MockHttpError extends Error {
+    constructor(readonly status: number, message: string) {
+        super(message);
+        this.name = "MockHttpError";
+    }
+}
+
+/** Push events to send after a handler succeeds, keyed like PUSH_EVENT_SCHEMAS */
+export type MockPushEvent =
+    | { type: "pet"; userId: string }
+    | { type: "quests"; userId: string }
+    | { type: "checkin"; userId: string; checkin: MockUser["checkins"][number] };
+
+export interface MockRequest {
+    params: string[];
+    query: URLSearchParams;
+    body: Record<string, unknown>;
+}
+
+export interface MockResult {
+    status?: number;
+    body: unknown;
+    events?: MockPushEvent[];
+}
+
+interface Route {
+    method: string;
+    pattern: RegExp;
+    handle: (db: MockDb, req: MockRequest) => MockResult;
+}
+
+function getUser(db: MockDb, userId: string): MockUser {
+    const user = db.users.get(decodeURIComponent(userId));
+    if (!user) throw new MockHttpError(404, "User not found");
+    rollDailyCounters(user);
+    return user;
+}
+
+function serializeUser(user: MockUser) {
+    const { checkins, last_reset_date, previous_day_exercise_seconds, ...rest } = user;
+    return rest;
+}
+
+export function dailyQuestStatus(user: MockUser) {
+    const { pet } = user;
+    const status: Record<string, unknown> = {
+        daily_exercise_seconds: pet.daily_exercise_seconds,
+        daily_steps: pet.daily_steps,
+    };
+    for (const id of [1, 2, 3] as DailyQuestRuleId[]) {
+        status[`quest_${id}_claimed`] = questClaimed(pet, id);
+        status[`quest_${id}_claimable`] = questClaimable(pet, id);
+    }
+    return status;
+}
+
+function requireNumber(body: Record<string, unknown>, field: string): number {
+    const value = body[field];
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+        throw new MockHttpError(422, `${field}: Input should be a valid number`);
+    }
+    return value;
+}
+
+function optionalNumber(body: Record<string, unknown>, field: string): number | null {
+    return body[field] === undefined || body[field] === null ? null : requireNumber(body, field);
+}
+
+/** Optional `activity_breakdown`: seconds per activity name */
+function readBreakdown(body: Record<string, unknown>): Record<string, number> | null {
+    const value = body.activity_breakdown;
+    if (value === undefined || value === null) return null;
+    const valid = typeof value === "object"
+        && !Array.isArray(value)
+        && Object.values(value).every((n) => typeof n === "number" && Number.isFinite(n) && n >= 0);
+    if (!valid) throw new MockHttpError(422, "activity_breakdown: Input should be a map of non-negative numbers");
+    return value as Record<string, number>;
+}
+
+type ExcludedSegment = NonNullable<MockExerciseLog["excluded_segments"]>[number];
+
+/** Optional `excluded_segments`: stretches the client flagged as implausible */
+function readExcludedSegments(body: Record<string, unknown>): ExcludedSegment[] | null {
+    const value = body.excluded_segments;
+    if (value === undefined || value === null) return null;
+    const isNumber = (n: unknown) => typeof n === "number" && Number.isFinite(n) && n >= 0;
+    const valid = Array.isArray(value) && value.every((segment) =>
+        typeof segment === "object" && segment !== null
+        && isNumber(segment.start_sec) && isNumber(segment.end_sec) && isNumber(segment.steps)
+        && segment.end_sec >= segment.start_sec
+        && typeof segment.reason === "string");
+    if (!valid) throw new MockHttpError(422, "excluded_segments: Input should be a list of { start_sec, end_sec, steps, reason }");
+    return value as ExcludedSegment[];
+}
+
+const ATTRACTIONS = [
+    { id: 1, name: "臺北101", description: "台北地標", latitude: 25.0339, longitude: 121.5645, image_url: null },
+    { id: 2, name: "大安森林公園", description: "都市之肺", latitude: 25.0300, longitude: 121.5357, image_url: null },
+    { id: 3, name: "臺北小巨蛋", description: "運動場館", latitude: 25.0513, longitude: 121.5498, image_url: null },
+];
+
+const routes: Route[] = [
+    {
+        method: "POST",
+        pattern: /^\/users\/?$/,
+        handle: (db, { body }) => {
+            const petName = String(body.pet_name ?? "").trim();
+            if (!petName) throw new MockHttpError(422, "pet_name: Field required");
+            const userId = typeof body.user_id === "string" ? body.user_id : undefined;
+            if (userId && db.users.has(userId)) throw new MockHttpError(400, "User already exists");
+            return { body: serializeUser(db.createUser(petName, userId)) };
+        },
+    },
+    {
+        method: "GET",
+        pattern: /^\/users\/([^/]+)$/,
+        handle: (db, { params }) => ({ body: serializeUser(getUser(db, params[0])) }),
+    },
+    {
+        method: "GET",
+        pattern: /^\/users\/([^/]+)\/pet$/,
+        handle: (db, { params }) => ({ body: getUser(db, params[0]).pet }),
+    },
+    {
+        method: "PATCH",
+        pattern: /^\/users\/([^/]+)\/pet$/,
+        handle: (db, { params, body }) => {
+            const user = getUser(db, params[0]);
+            // Only the name: stats change through the endpoints that earn them
+            const statFields = ["strength", "stamina", "mood", "level", "stage", "breakthrough_completed"];
+            if (statFields.some((field) => body[field] !== undefined)) {
+                throw new MockHttpError(400, "Pet stats cannot be set directly");
+            }
+            if (body.name !== undefined) {
+                if (typeof body.name !== "string") throw new MockHttpError(400, "name must be a string");
+                user.pet.name = body.name;
+            }
+            user.pet.updated_at = new Date().toISOString();
+            return { body: user.pet, events: [{ type: "pet", userId: user.id }] };
+        },
+    },
+    {
+        method: "GET",
+        pattern: /^\/users\/([^/]+)\/daily-stats$/,
+        handle: (db, { params }) => {
+            const user = getUser(db, params[0]);
+            return {
+                body: {
+                    daily_exercise_seconds: user.pet.daily_exercise_seconds,
+                    daily_steps: user.pet.daily_steps,
+                    last_reset_date: user.last_reset_date,
+                },
+            };
+        },
+    },
+    {
+        method: "POST",
+        pattern: /^\/users\/([^/]+)\/exercise$/,
+        handle: (db, { params, body }) => {
+            const user = getUser(db, params[0]);
+            const duration = requireNumber(body, "duration_seconds");
+            const steps = requireNumber(body, "steps");
+            if (duration < 0 || steps < 0) throw new MockHttpError(400, "Duration and steps must not be negative");
+            const activityBreakdown = readBreakdown(body);
+            const distanceMeters = optionalNumber(body, "distance_meters");
+            const elevationGainMeters = optionalNumber(body, "elevation_gain_meters");
+            const programId = typeof body.program_id === "string" ? body.program_id : null;
+            const programCompleted = body.program_completed === true;
+            const programCompliance = optionalNumber(body, "program_compliance");
+            const startedAt = typeof body.started_at === "string" ? body.started_at : null;
+            const raining = typeof body.raining === "boolean" ? body.raining : null;
+            const excludedSegments = readExcludedSegments(body);
+
+            const session = sessionFromLog({
+                duration_seconds: duration,
+                steps,
+                activity_breakdown: activityBreakdown,
+                started_at: startedAt,
+                raining,
+                program_id: programId,
+                program_completed: programCompleted,
+                program_compliance: programCompliance,
+                excluded_segments: excludedSegments,
+            });
+            const rewards = computeRewards(session);
+
+            const { pet } = user;
+            // Replayed guest history earns its rewards but isn't today's exercise
+            if (body.migrated_from_guest !== true) {
+                pet.daily_exercise_seconds += creditedSeconds(session);
+                pet.daily_steps += session.steps;
+            }
+            const breakthroughRequired = grantStats(pet, rewards.deltas);
+
+            user.exercise_logs.push({
+                id: db.id(),
+                exercise_type: String(body.exercise_type ?? "unknown"),
+                duration_seconds: duration,
+                volume: steps,
+                activity_breakdown: activityBreakdown,
+                distance_meters: distanceMeters,
+                elevation_gain_meters: elevationGainMeters,
+                route_polyline: typeof body.route_polyline === "string" ? body.route_polyline : null,
+                program_id: programId,
+                program_completed: programId ? programCompleted : null,
+                program_compliance: programCompliance,
+                started_at: new Date(session.startedAt).toISOString(),
+                raining,
+                excluded_segments: excludedSegments,
+                created_at: new Date().toISOString(),
+                user_id: user.id,
+                pet_id: pet.id,
+            });
+            return {
+                body: {
+                    pet,
+                    breakthrough_required: breakthroughRequired,
+                    message: breakthroughRequired ? "Breakthrough required" : null,
+                    rewards,
+                },
+                events: [{ type: "pet", userId: user.id }, { type: "quests", userId: user.id }],
+            };
+        },
+    },
+    {
+        // Legacy quest list; the app uses /daily-quests instead
+        method: "GET",
+        pattern: /^\/users\/([^/]+)\/quests$/,
+        handle: (db, { params }) => {
+            getUser(db, params[0]);
+            return { body: [] };
+        },
+    },
+    {
+        method: "POST",
+        pattern: /^\/users\/([^/]+)\/quests\/([^/]+)\/complete$/,
+        handle: () => {
+            throw new MockHttpError(404, "Quest not found");
+        },
+    },
+    {
+        method: "POST",
+        pattern: /^\/users\/([^/]+)\/daily-check$/,
+        handle: (db, { params }) => {
+            const user = getUser(db, params[0]);
+            const { pet } = user;
+            if (pet.last_daily_check?.startsWith(today())) {
+                return { body: { pet, exercised_enough: true, message: "今日已檢查" } };
+            }
+            const exercisedEnough = dailyCheckPassed(user.previous_day_exercise_seconds);
+            if (!exercisedEnough) {
+                pet.stamina -= DAILY_CHECK_PENALTY;
+                clampStats(pet);
+            }
+            pet.last_daily_check = new Date().toISOString();
+            return {
+                body: {
+                    pet,
+                    exercised_enough: exercisedEnough,
+                    message: exercisedEnough ? "做得好！" : `運動量不足，體力 -${DAILY_CHECK_PENALTY}`,
+                },
+                events: [{ type: "pet", userId: user.id }],
+            };
+        },
+    },
+    {
+        method: "GET",
+        pattern: /^\/travel\/attractions$/,
+        handle: () => ({ body: ATTRACTIONS }),
+    },
+    {
+        method: "POST",
+        pattern: /^\/users\/([^/]+)\/travel\/start$/,
+        handle: (db, { params }) => {
+            getUser(db, params[0]);
+            return { body: ATTRACTIONS[0] };
+        },
+    },
+    {
+        method: "POST",
+        pattern: /^\/users\/([^/]+)\/travel\/breakthrough$/,
+        handle: (db, { params }) => {
+            const user = getUser(db, params[0]);
+            if (!isBreakthroughPending(user.pet)) {
+                return { body: { success: false, pet: user.pet, message: "No breakthrough pending" } };
+            }
+            user.pet.breakthrough_completed = true;
+            user.pet.updated_at = new Date().toISOString();
+            return {
+                body: { success: true, pet: user.pet, message: "突破成功！" },
+                events: [{ type: "pet", userId: user.id }],
+            };
+        },
+    },
+    {
+        method: "GET",
+        pattern: /^\/users\/([^/]+)\/travel\/checkins$/,
+        handle: (db, { params }) => ({ body: getUser(db, params[0]).checkins }),
+    },
+    {
+        method: "POST",
+        pattern: /^\/users\/([^/]+)\/travel\/checkins$/,
+        handle: (db, { params, body }) => {
+            const user = getUser(db, params[0]);
+            const questId = String(body.quest_id ?? "");
+            if (!questId) throw new MockHttpError(422, "quest_id: Field required");
+            if (user.checkins.some((c) => c.quest_id === questId)) {
+                throw new MockHttpError(400, "Quest already checked in");
+            }
+
+            const checkin = {
+                id: db.id(),
+                user_id: user.id,
+                quest_id: questId,
+                completed_at: new Date().toISOString(),
+                lat: requireNumber(body, "lat"),
+                lng: requireNumber(body, "lng"),
+            };
+            user.checkins.push(checkin);
+            grantStats(user.pet, CHECKIN_REWARD);
+            return {
+                body: { pet: user.pet, checkin },
+                events: [{ type: "pet", userId: user.id }, { type: "checkin", userId: user.id, checkin }],
+            };
+        },
+    },
+    {
+        method: "GET",
+        pattern: /^\/leaderboard\/level$/,
+        handle: (db, { query }) => {
+            const limit = Number(query.get("limit") ?? 10);
+            const entries = Array.from(db.users.values())
+                .map((u) => ({ username: u.pet.name, value: u.pet.level }))
+                .sort((a, b) => b.value - a.value)
+                .slice(0, limit);
+            return { body: entries };
+        },
+    },
+    {
+        method: "GET",
+        pattern: /^\/users\/([^/]+)\/daily-quests$/,
+        handle: (db, { params }) => ({ body: dailyQuestStatus(getUser(db, params[0])) }),
+    },
+    {
+        method: "POST",
+        pattern: /^\/users\/([^/]+)\/daily-quests\/([^/]+)\/claim$/,
+        handle: (db, { params }) => {
+            const user = getUser(db, params[0]);
+            const questId = Number(params[1]) as DailyQuestRuleId;
+            const rules = DAILY_QUEST_RULES[questId];
+            if (!rules) throw new MockHttpError(404, "Quest not found");
+            if (questClaimed(user.pet, questId)) throw new MockHttpError(400, "Quest already claimed today");
+            if (!questClaimable(user.pet, questId)) throw new MockHttpError(400, "任務尚未完成");
+
+            const { pet } = user;
+            pet[`daily_quest_${questId}_completed`] = true;
+            grantStats(pet, rules);
+            return {
+                body: {
+                    success: true,
+                    message: "領取成功",
+                    pet,
+                    rewards: { strength: rules.strength, stamina: rules.stamina, mood: rules.mood },
+                },
+                events: [{ type: "pet", userId: user.id }, { type: "quests", userId: user.id }],
+            };
+        },
+    },
+];
+
+/** Run the matching handler. Throws MockHttpError for 4xx responses. */
+export function handleRequest(db: MockDb, method: string, path: string, req: Omit<MockRequest, "params">): MockResult {
+    let pathMatched = false;
+    for (const route of routes) {
+        const match = route.pattern.exec(path);
+        if (!match) continue;
+        pathMatched = true;
+        if (route.method !== method) continue;
+        return route.handle(db, { ...req, params: match.slice(1) });
+    }
+    throw pathMatched ? new MockHttpError(405, "Method Not Allowed") : new MockHttpError(404, "Not Found");
+}
@@ -0,0 +1,94 @@
+import { MockDb } from "./db";
+import { DAILY_QUEST_RULES, addStrength, stageForLevel, today } from "../src/lib/petRules";
+import { STRENGTH_PER_LEVEL } from "../src/lib/rewardRules";
+
+// ==================
+// Mock backend: seed scenarios
+// ==================
+// Selected with `?mockScenario=<name>` (see src/lib/mockScenario.ts). Each one
+// resets the whole in-memory state and signs in as MOCK_USER_ID.
+
+export const MOCK_USER_ID = "mock-user";
+
+export interface MockScenario {
+    description: string;
+    seed: (db: MockDb) => void;
+}
+
+// A few other players so the leaderboard isn't empty
+function seedRivals(db: MockDb) {
+    const rivals: Array<[string, number]> = [
+        ["小黃", 2 * STRENGTH_PER_LEVEL + 30],
+        ["阿肥", 7 * STRENGTH_PER_LEVEL + 10],
+        ["跑跑", 12 * STRENGTH_PER_LEVEL],
+    ];
+    rivals.forEach(([name, strength], i) => {
+        const { pet } = db.createUser(name, `mock-rival-${i + 1}`);
+        // Set directly: addStrength would stop them at the first breakthrough
+        pet.strength = strength;
+        pet.level = Math.floor(strength / STRENGTH_PER_LEVEL) + 1;
+        pet.stage = stageForLevel(pet.level);
+        pet.breakthrough_completed = true;
+    });
+}
+
+function seedPlayer(db: MockDb) {
+    const user = db.createUser("小雞", MOCK_USER_ID);
+    // Daily check already done today, so the home page doesn't run it on load
+    user.pet.last_daily_check = new Date().toISOString();
+    user.last_reset_date = today();
+    return user;
+}
+
+export const MOCK_SCENARIOS: Record<string, MockScenario> = {
+    default: {
+        description: "Lv.2 寵物，體力充足，今日尚未運動",
+        seed: (db) => {
+            seedRivals(db);
+            const { pet } = seedPlayer(db);
+            addStrength(pet, STRENGTH_PER_LEVEL + 40);
+        },
+    },
+    "breakthrough-pending": {
+        description: "Lv.5 等待突破任務",
+        seed: (db) => {
+            seedRivals(db);
+            const { pet } = seedPlayer(db);
+            addStrength(pet, 4 * STRENGTH_PER_LEVEL + 10);
+        },
+    },
+    "stamina-0": {
+        description: "體力 0，無法開始運動",
+        seed: (db) => {
+            seedRivals(db);
+            const { pet } = seedPlayer(db);
+            addStrength(pet, STRENGTH_PER_LEVEL + 40);
+            pet.stamina = 0;
+        },
+    },
+    "quests-claimable": {
+        description: "三個每日任務都可以領取",
+        seed: (db) => {
+            seedRivals(db);
+            const { pet } = seedPlayer(db);
+            addStrength(pet, STRENGTH_PER_LEVEL + 40);
+            pet.daily_exercise_seconds = DAILY_QUEST_RULES[2].minSeconds + 60;
+            pet.daily_steps = DAILY_QUEST_RULES[3].minSteps + 250;
+        },
+    },
+    "new-user": {
+        description: "沒有帳號，從歡迎頁開始",
+        seed: (db) => {
+            seedRivals(db);
+        },
+    },
+};
+
+/** Reset state to a scenario. Returns the user to sign in as, or null for none. */
+export function applyScenario(db: MockDb, name: string): string | null {
+    const scenario = MOCK_SCENARIOS[name];
+    if (!scenario) throw new Error(`Unknown mock scenario: ${name}`);
+    db.reset();
+    scenario.seed(db);
+    return db.users.has(MOCK_USER_ID) ? MOCK_USER_ID : null;
+}
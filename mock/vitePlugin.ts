@@ -0,0 +1,163 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { Plugin } from "vite";
+import { MockDb } from "./db";
+import { MockHttpError, MockPushEvent, dailyQuestStatus, handleRequest } from "./routes";
+import { MOCK_SCENARIOS, applyScenario } from "./scenarios";
+
+// ==================
+// Mock backend: Vite dev middleware
+// ==================
+// Serves every endpoint in src/lib/api.ts under /mock-api with in-memory
+// state, for offline design work and deterministic UI tests. Select it with
+// the "mock" API profile (`?apiProfile=mock` or VITE_API_PROFILE=mock).
+//
+// Control endpoints:
+//   GET  /mock-api/__mock/scenarios        list seed scenarios
+//   POST /mock-api/__mock/scenario/<name>  reset state to a scenario → { user_id }
+
+export const MOCK_API_PREFIX = "/mock-api";
+
+// Simulated latency so loading states are visible
+const RESPONSE_DELAY_MS = 150;
+
+function readBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+    return new Promise((resolve, reject) => {
+        let raw = "";
+        req.on("data", (chunk) => {
+            raw += chunk;
+        });
+        req.on("end", () => {
+            if (!raw) {
+                resolve({});
+                return;
+            }
+            try {
+                resolve(JSON.parse(raw));
+            } catch {
+                reject(new MockHttpError(422, "Invalid JSON body"));
+            }
+        });
+        req.on("error", reject);
+    });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+    res.statusCode = status;
+    res.setHeader("Content-Type", "application/json");
+    res.end(JSON.stringify(body));
+}
+
+export function mockBackend(): Plugin {
+    const db = new MockDb();
+    applyScenario(db, "default");
+
+    // Open event streams per user (GET /users/<id>/events)
+    const streams = new Map<string, Set<ServerResponse>>();
+
+    const push = (event: MockPushEvent) => {
+        const clients = streams.get(event.userId);
+        const user = db.users.get(event.userId);
+        if (!clients || !user) return;
+
+        const data =
+            event.type === "pet" ? { pet: user.pet }
+                : event.type === "quests" ? { status: dailyQuestStatus(user) }
+                    : { checkin: event.checkin };
+        for (const res of clients) {
+            res.write(`event: ${event.type}\ndata: ${JSON.stringify(data)}\n\n`);
+        }
+    };
+
+    const openStream = (userId: string, req: IncomingMessage, res: ServerResponse) => {
+        if (!db.users.has(userId)) {
+            sendJson(res, 404, { detail: "User not found" });
+            return;
+        }
+        res.writeHead(200, {
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache",
+            Connection: "keep-alive",
+        });
+        res.write(": connected\n\n");
+
+        const clients = streams.get(userId) ?? new Set();
+        clients.add(res);
+        streams.set(userId, clients);
+        req.on("close", () => {
+            clients.delete(res);
+        });
+    };
+
+    const handleControl = (method: string, path: string, res: ServerResponse) => {
+        if (method === "GET" && path === "/__mock/scenarios") {
+            const list = Object.entries(MOCK_SCENARIOS).map(([name, s]) => ({ name, description: s.description }));
+            sendJson(res, 200, list);
+            return;
+        }
+        const match = /^\/__mock\/scenario\/([^/]+)$/.exec(path);
+        if (method === "POST" && match) {
+            const name = decodeURIComponent(match[1]);
+            try {
+                const userId = applyScenario(db, name);
+                // Streams belong to users that no longer exist
+                streams.forEach((clients) => clients.forEach((res) => res.end()));
+                streams.clear();
+                console.log(`[mock-api] Scenario "${name}" loaded`);
+                sendJson(res, 200, { scenario: name, user_id: userId });
+            } catch (error) {
+                sendJson(res, 404, { detail: (error as Error).message });
+            }
+            return;
+        }
+        sendJson(res, 404, { detail: "Not Found" });
+    };
+
+    return {
+        name: "pet-fitness-mock-backend",
+        apply: "serve",
+        configureServer(server) {
+            server.middlewares.use(MOCK_API_PREFIX, async (req, res) => {
+                const url = new URL(req.url ?? "/", "http://mock.local");
+                const method = req.method ?? "GET";
+                const path = url.pathname;
+
+                if (path.startsWith("/__mock/")) {
+                    handleControl(method, path, res);
+                    return;
+                }
+
+                const streamMatch = /^\/users\/([^/]+)\/events$/.exec(path);
+                if (method === "GET" && streamMatch) {
+                    openStream(decodeURIComponent(streamMatch[1]), req, res);
+                    return;
+                }
+
+                await new Promise((resolve) => setTimeout(resolve, RESPONSE_DELAY_MS));
+
+                const idempotencyKey = req.headers["idempotency-key"];
+                const replayKey = typeof idempotencyKey === "string" ? `${method} ${path} ${idempotencyKey}` : null;
+                const replay = replayKey ? db.idempotent.get(replayKey) : undefined;
+                if (replay) {
+                    sendJson(res, replay.status, replay.body);
+                    return;
+                }
+
+                try {
+                    const body = method === "GET" ? {} : await readBody(req);
+                    const result = handleRequest(db, method, path, { query: url.searchParams, body });
+                    const status = result.status ?? 200;
+                    if (replayKey) db.idempotent.set(replayKey, { status, body: result.body });
+                    sendJson(res, status, result.body);
+                    result.events?.forEach(push);
+                } catch (error) {
+                    if (error instanceof MockHttpError) {
+                        sendJson(res, error.status, { detail: error.message });
+                    } else {
+                        console.error("[mock-api]", error);
+                        sendJson(res, 500, { detail: "Internal Server Error" });
+                    }
+                }
+            });
+        },
+    };
+}
@@ -0,0 +1,12 @@
+// Runtime configuration, loaded before the app bundle.
+// Edit this file on the deployed host to point a build at another backend
+// without rebuilding. Leave fields unset to use the build-time defaults.
+//
+//   apiProfile: "local" | "staging" | "production"
+//   apiBaseUrl: full backend URL, overrides apiProfile
+//   weatherProvider: "open-meteo" | "stub"
+window.__APP_CONFIG__ = {
+  // apiProfile: "staging",
+  // apiBaseUrl: "https://back-end-tasw.onrender.com",
+  // weatherProvider: "stub",
+};
@@ -10,9 +10,22 @@ import Travel from "./pages/Travel";
 import Status from "./pages/Status";
 import Welcome from "./pages/Welcome";
 import NotFound from "./pages/NotFound";
-import { ReactNode } from "react";
+import { ReactNode, Suspense, lazy } from "react";
 
-const queryClient = new QueryClient();
+// Dev builds only; kept out of the production bundle
+const TownPassSimulatorPanel = import.meta.env.DEV
+  ? lazy(() => import("@/components/TownPassSimulatorPanel"))
+  : null;
+
+// apiRequest already retries GETs on network errors (see ENDPOINT_POLICIES),
+// so queries don't add a second layer of retries on top of it
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      retry: false,
+    },
+  },
+});
 
 // Protected route wrapper
 function ProtectedRoute({ children }: { children: ReactNode }) {
@@ -31,6 +44,11 @@ const App = () => (
       <TooltipProvider>
         <Toaster />
         <Sonner />
+        {TownPassSimulatorPanel && (
+          <Suspense fallback={null}>
+            <TownPassSimulatorPanel />
+          </Suspense>
+        )}
         <BrowserRouter>
           <Routes>
             <Route path="/welcome" element={<Welcome />} />
@@ -0,0 +1,49 @@
+import { Server } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  API_PROFILES,
+  ApiProfileName,
+  canSwitchApiProfile,
+  getApiBaseUrl,
+  getApiProfile,
+  setApiProfile,
+} from "@/lib/apiConfig";
+
+// Dev builds only: pick which backend the app talks to
+const ApiProfileSwitcher = () => {
+  if (!canSwitchApiProfile()) return null;
+
+  const current = getApiProfile();
+
+  return (
+    <div className="px-2 space-y-2">
+      <div className="flex items-center gap-2 tp-caption" style={{ color: 'var(--tp-grayscale-600)' }}>
+        <Server className="w-4 h-4" />
+        API 環境（開發）
+      </div>
+      <Select value={current} onValueChange={(value) => setApiProfile(value as ApiProfileName)}>
+        <SelectTrigger className="h-9">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.values(API_PROFILES).map((profile) => (
+            <SelectItem key={profile.name} value={profile.name}>
+              {profile.label}（{profile.name}）
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <div className="tp-caption break-all" style={{ color: 'var(--tp-grayscale-500)' }}>
+        {getApiBaseUrl()}
+      </div>
+    </div>
+  );
+};
+
+export default ApiProfileSwitcher;
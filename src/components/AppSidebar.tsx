@@ -1,6 +1,9 @@
-import { Home, BarChart3 } from "lucide-react";
+import { Home, BarChart3, LogOut } from "lucide-react";
 import { NavLink } from "@/components/NavLink";
-import { useLocation } from "react-router-dom";
+import { useLocation, useNavigate } from "react-router-dom";
+import { useUser } from "@/hooks/useUser";
+import ApiProfileSwitcher from "@/components/ApiProfileSwitcher";
+import ProfileSwitcher from "@/components/ProfileSwitcher";
 import {
   Sidebar,
   SidebarContent,
@@ -21,6 +24,13 @@ const menuItems = [
 export function AppSidebar() {
   const { open } = useSidebar();
   const location = useLocation();
+  const navigate = useNavigate();
+  const { userId, logout } = useUser();
+
+  const handleLogout = () => {
+    logout();
+    navigate("/welcome");
+  };
 
   return (
     <Sidebar
@@ -54,9 +64,32 @@ export function AppSidebar() {
                   </SidebarMenuButton>
                 </SidebarMenuItem>
               ))}
+              {userId && (
+                <SidebarMenuItem>
+                  <SidebarMenuButton
+                    onClick={handleLogout}
+                    className="tp-body-regular hover:bg-opacity-50"
+                    style={{ color: 'var(--tp-grayscale-700)' }}
+                  >
+                    <LogOut className="w-4 h-4 mr-2" />
+                    {open && <span>登出此寵物</span>}
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+              )}
             </SidebarMenu>
           </SidebarGroupContent>
         </SidebarGroup>
+        <SidebarGroup>
+          <SidebarGroupLabel className="tp-h3-semibold" style={{ color: 'var(--tp-grayscale-700)' }}>
+            寵物
+          </SidebarGroupLabel>
+          <SidebarGroupContent>
+            <ProfileSwitcher compact={!open} />
+          </SidebarGroupContent>
+        </SidebarGroup>
+        <SidebarGroup>
+          <ApiProfileSwitcher />
+        </SidebarGroup>
       </SidebarContent>
     </Sidebar>
   );
@@ -0,0 +1,261 @@
+import { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { deriveThresholds, MotionCalibration, MotionSample } from "@/lib/motion";
+import {
+  buildCalibration,
+  CALIBRATION_TARGETS,
+  CalibrationError,
+  CalibrationPhase,
+  PhaseRecording,
+} from "@/lib/motionCalibration";
+
+const PHASES: CalibrationPhase[] = ["still", "walk", "jump"];
+
+const PHASE_COPY: Record<CalibrationPhase, { title: string; instruction: string }> = {
+  still: {
+    title: "保持靜止",
+    instruction: `像運動時一樣拿著手機（或放進口袋），站著不動 ${CALIBRATION_TARGETS.still} 秒。`,
+  },
+  walk: {
+    title: "走路",
+    instruction: `用平常的速度走 ${CALIBRATION_TARGETS.walk} 步，走完按「完成」。`,
+  },
+  jump: {
+    title: "開合跳",
+    instruction: `做 ${CALIBRATION_TARGETS.jump} 下開合跳，做完按「完成」。`,
+  },
+};
+
+// 倒數期間也會收資料，讓重力估計先穩定下來（不計入校準結果）
+const COUNTDOWN_MS = 3000;
+
+type Stage = "intro" | "ready" | "countdown" | "recording" | "result";
+
+// iOS 需要在使用者點擊時要求權限
+const requestMotionPermission = async (): Promise<boolean> => {
+  const permissionApi = DeviceMotionEvent as unknown as { requestPermission?: () => Promise<string> };
+  if (typeof permissionApi.requestPermission !== "function") return true;
+  try {
+    return (await permissionApi.requestPermission()) === "granted";
+  } catch (error) {
+    console.error("requestPermission error:", error);
+    return false;
+  }
+};
+
+interface CalibrationWizardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (calibration: MotionCalibration) => void;
+}
+
+// 感測器校準：靜止、走路、開合跳各錄一段，算出這支手機專屬的門檻
+const CalibrationWizard = ({ open, onOpenChange, onSave }: CalibrationWizardProps) => {
+  const [stage, setStage] = useState<Stage>("intro");
+  const [phase, setPhase] = useState<CalibrationPhase>("still");
+  const [now, setNow] = useState(Date.now());
+  const [sampleCount, setSampleCount] = useState(0);
+  const [result, setResult] = useState<MotionCalibration | null>(null);
+  const [error, setError] = useState<CalibrationError | null>(null);
+
+  const samplesRef = useRef<MotionSample[]>([]);
+  const startAtRef = useRef(0);
+  const recordingsRef = useRef<Partial<Record<CalibrationPhase, PhaseRecording>>>({});
+  const handlerRef = useRef<((event: DeviceMotionEvent) => void) | null>(null);
+
+  const stopListening = () => {
+    if (handlerRef.current) {
+      window.removeEventListener("devicemotion", handlerRef.current);
+      handlerRef.current = null;
+    }
+  };
+
+  // 每次打開都從頭開始
+  useEffect(() => {
+    if (!open) {
+      stopListening();
+      return;
+    }
+    setStage("intro");
+    setPhase("still");
+    setResult(null);
+    setError(null);
+    recordingsRef.current = {};
+  }, [open]);
+
+  useEffect(() => stopListening, []);
+
+  const countdownLeft = Math.max(0, startAtRef.current - now);
+  const elapsedMs = Math.max(0, now - startAtRef.current);
+
+  const finishPhase = () => {
+    stopListening();
+    recordingsRef.current[phase] = { samples: samplesRef.current, startAt: startAtRef.current };
+
+    const next = PHASES.find((p) => !recordingsRef.current[p]);
+    if (next) {
+      setPhase(next);
+      setStage("ready");
+      return;
+    }
+
+    try {
+      setResult(buildCalibration(recordingsRef.current as Record<CalibrationPhase, PhaseRecording>));
+      setError(null);
+    } catch (err) {
+      if (!(err instanceof CalibrationError)) throw err;
+      console.warn("Calibration rejected:", err.message);
+      setResult(null);
+      setError(err);
+    }
+    setStage("result");
+  };
+  const finishPhaseRef = useRef(finishPhase);
+  finishPhaseRef.current = finishPhase;
+
+  // 倒數 / 錄製中才需要更新畫面上的時間；倒數結束開始錄製，靜止階段時間到自動結束
+  useEffect(() => {
+    if (stage !== "countdown" && stage !== "recording") return;
+    const timer = window.setInterval(() => {
+      const t = Date.now();
+      setNow(t);
+      setSampleCount(samplesRef.current.length);
+      if (stage === "countdown" && t >= startAtRef.current) setStage("recording");
+      if (stage === "recording" && phase === "still" && t - startAtRef.current >= CALIBRATION_TARGETS.still * 1000) {
+        finishPhaseRef.current();
+      }
+    }, 200);
+    return () => window.clearInterval(timer);
+  }, [stage, phase]);
+
+  const startPhase = async () => {
+    if (!(await requestMotionPermission())) {
+      toast.error("需要動作傳感器權限才能校準");
+      return;
+    }
+
+    samplesRef.current = [];
+    startAtRef.current = Date.now() + COUNTDOWN_MS;
+    setNow(Date.now());
+    setSampleCount(0);
+
+    const handleMotion = (event: DeviceMotionEvent) => {
+      const a = event.acceleration ?? event.accelerationIncludingGravity;
+      if (!a) return;
+      samplesRef.current.push({ t: Date.now(), x: a.x ?? 0, y: a.y ?? 0, z: a.z ?? 0 });
+    };
+    stopListening();
+    handlerRef.current = handleMotion;
+    window.addEventListener("devicemotion", handleMotion);
+    setStage("countdown");
+  };
+
+  const retryPhase = (failed: CalibrationPhase) => {
+    delete recordingsRef.current[failed];
+    setPhase(failed);
+    setError(null);
+    setStage("ready");
+  };
+
+  const handleSave = () => {
+    if (!result) return;
+    onSave(result);
+    toast.success("校準完成，已套用到步數與動作偵測");
+    onOpenChange(false);
+  };
+
+  const thresholds = result ? deriveThresholds(result) : null;
+  const noSensorData = stage === "recording" && elapsedMs > 2000 && sampleCount === 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>感測器校準</DialogTitle>
+          <DialogDescription>
+            {stage === "intro" && "每支手機的感測器不同。花一分鐘校準，步數與動作偵測會更準確。"}
+            {(stage === "ready" || stage === "countdown" || stage === "recording") &&
+              `步驟 ${PHASES.indexOf(phase) + 1} / ${PHASES.length}：${PHASE_COPY[phase].title}`}
+            {stage === "result" && (result ? "校準結果" : "校準失敗")}
+          </DialogDescription>
+        </DialogHeader>
+
+        {stage === "intro" && (
+          <ol className="list-decimal pl-5 space-y-1 tp-body-regular" style={{ color: 'var(--tp-grayscale-700)' }}>
+            {PHASES.map((p) => (
+              <li key={p}>{PHASE_COPY[p].instruction}</li>
+            ))}
+          </ol>
+        )}
+
+        {(stage === "ready" || stage === "countdown" || stage === "recording") && (
+          <div className="space-y-3 text-center">
+            <p className="tp-body-regular" style={{ color: 'var(--tp-grayscale-700)' }}>
+              {PHASE_COPY[phase].instruction}
+            </p>
+            {stage === "countdown" && (
+              <p className="text-5xl font-bold" style={{ color: 'var(--tp-primary-600)' }}>
+                {Math.ceil(countdownLeft / 1000)}
+              </p>
+            )}
+            {stage === "recording" && (
+              <>
+                <p className="text-3xl font-bold" style={{ color: 'var(--tp-primary-600)' }}>
+                  {(elapsedMs / 1000).toFixed(0)} 秒
+                </p>
+                {phase === "still" && (
+                  <Progress value={Math.min(100, (elapsedMs / (CALIBRATION_TARGETS.still * 1000)) * 100)} />
+                )}
+                <p className="tp-caption" style={{ color: noSensorData ? 'var(--tp-red-600)' : 'var(--tp-grayscale-500)' }}>
+                  {noSensorData ? "沒有收到感測器資料，請在支援的手機上使用" : `${sampleCount} 筆樣本`}
+                </p>
+              </>
+            )}
+          </div>
+        )}
+
+        {stage === "result" && result && thresholds && (
+          <div className="space-y-1 tp-caption" style={{ color: 'var(--tp-grayscale-700)' }}>
+            {PHASES.map((p) => {
+              const profile = result[p];
+              return (
+                <div key={p}>
+                  {PHASE_COPY[p].title} — mean: {profile.mean}, std: {profile.std}, max: {profile.max}, cadence: {profile.cadence}Hz
+                </div>
+              );
+            })}
+            <div className="pt-2">
+              stepThreshold={thresholds.step}, magPeakThreshold={thresholds.magPeak}, jumpAmpThreshold={thresholds.jumpAmp}
+            </div>
+          </div>
+        )}
+
+        {stage === "result" && error && (
+          <p className="tp-body-regular" style={{ color: 'var(--tp-red-600)' }}>
+            「{PHASE_COPY[error.phase].title}」的資料無法使用（{error.message}），請重新錄製這一段。
+          </p>
+        )}
+
+        <DialogFooter>
+          {stage === "intro" && <Button onClick={startPhase}>開始校準</Button>}
+          {stage === "ready" && <Button onClick={startPhase}>開始</Button>}
+          {stage === "recording" && phase !== "still" && <Button onClick={finishPhase}>完成</Button>}
+          {stage === "result" && error && <Button onClick={() => retryPhase(error.phase)}>重新錄製</Button>}
+          {stage === "result" && result && <Button onClick={handleSave}>儲存校準</Button>}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CalibrationWizard;
@@ -1,8 +1,12 @@
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { CheckCircle2, Circle, Trophy } from "lucide-react";
-import { getUserDailyQuests, claimDailyQuest } from "@/lib/api";
+import type { DailyQuestStatus } from "@/lib/api";
+import { ConflictError, ContractError, RequestAbortedError, ValidationError } from "@/lib/apiErrors";
+import { useClaimDailyQuestMutation, useDailyQuestsQuery } from "@/hooks/queries";
+import type { DailyQuestId } from "@/lib/schemas";
+import { DAILY_QUEST_RULES } from "@/lib/petRules";
 import { toast } from "sonner";
 
 interface DailyQuestsProps {
@@ -10,138 +14,131 @@ interface DailyQuestsProps {
     onQuestCompleted?: () => void;
 }
 
-// Hard-coded 每日任務
-const DAILY_QUESTS = [
+// 每日任務的文字；獎勵與門檻來自 lib/petRules，和後端規則同一份
+const DAILY_QUESTS: Array<{
+    id: DailyQuestId;
+    title: string;
+    description: string;
+    reward_strength: number;
+    reward_stamina: number;
+    reward_mood: number;
+}> = [
     {
         id: 1,
         title: "每日登錄",
         description: "登錄遊戲即可完成",
-        reward_strength: 5,
-        reward_stamina: 5,
-        reward_mood: 5,
+        reward_strength: DAILY_QUEST_RULES[1].strength,
+        reward_stamina: DAILY_QUEST_RULES[1].stamina,
+        reward_mood: DAILY_QUEST_RULES[1].mood,
     },
     {
         id: 2,
         title: "運動達人",
         description: "累計運動 10 分鐘",
-        reward_strength: 10,
-        reward_stamina: 0,
-        reward_mood: 5,
+        reward_strength: DAILY_QUEST_RULES[2].strength,
+        reward_stamina: DAILY_QUEST_RULES[2].stamina,
+        reward_mood: DAILY_QUEST_RULES[2].mood,
     },
     {
         id: 3,
         title: "步行挑戰",
         description: "累計步行 5000 步",
-        reward_strength: 10,
-        reward_stamina: 0,
-        reward_mood: 5,
+        reward_strength: DAILY_QUEST_RULES[3].strength,
+        reward_stamina: DAILY_QUEST_RULES[3].stamina,
+        reward_mood: DAILY_QUEST_RULES[3].mood,
     },
 ];
 
-const DailyQuests = ({ userId, onQuestCompleted }: DailyQuestsProps) => {
-    const [claimedQuests, setClaimedQuests] = useState<Set<number>>(new Set());
-    const [claimableQuests, setClaimableQuests] = useState<Set<number>>(new Set());
-    const [isLoading, setIsLoading] = useState(true);
-    const [claiming, setClaiming] = useState<number | null>(null);
+// Split the backend status into claimed / claimable quest ids
+function getQuestState(data: DailyQuestStatus | undefined) {
+    const claimed = new Set<number>();
+    const claimable = new Set<number>();
+    if (!data) return { claimed, claimable };
+
+    // Field naming (quest_N_claimed vs quest_N_completed) is checked by
+    // DailyQuestStatusSchema; a payload with neither throws ContractError
+    for (const q of DAILY_QUESTS) {
+        const id = q.id;
+
+        // Prefer explicit `claimed`; `completed` is the older name for the same flag
+        const isClaimed = !!(data[`quest_${id}_claimed` as const] ?? data[`quest_${id}_completed` as const]);
+        if (isClaimed) claimed.add(id);
+
+        // Determine claimable
+        let isClaimable = false;
+        const explicitClaimable = data[`quest_${id}_claimable` as const];
+        if (explicitClaimable !== undefined) {
+            isClaimable = explicitClaimable;
+        } else {
+            // Fallback: derive claimable from available stats if present
+            if (id === 1) {
+                // daily login: claimable if not claimed (perform_daily_check should reset claimed=false daily)
+                isClaimable = !isClaimed;
+            } else if (id === 2) {
+                const secs = data.daily_exercise_seconds ?? 0;
+                isClaimable = !isClaimed && secs >= DAILY_QUEST_RULES[2].minSeconds;
+            } else if (id === 3) {
+                const steps = data.daily_steps ?? 0;
+                isClaimable = !isClaimed && steps >= DAILY_QUEST_RULES[3].minSteps;
+            }
+        }
 
-    const loadQuests = async () => {
-        if (!userId) return;
+        if (isClaimable) claimable.add(id);
+    }
 
-        setIsLoading(true);
-        try {
-            const data = await getUserDailyQuests(userId);
-
-            // Reset sets
-            const claimed = new Set<number>();
-            const claimable = new Set<number>();
-
-            // Support explicit fields if backend returns clear names
-            // e.g., quest_1_claimed, quest_1_claimable
-            for (const q of DAILY_QUESTS) {
-                const id = q.id;
-                const claimedKey = `quest_${id}_claimed`;
-                const completedKey = `quest_${id}_completed`;
-                const claimableKey = `quest_${id}_claimable`;
-
-                // Determine claimed/claimed-like value
-                let isClaimed = false;
-                if (data && typeof data[claimedKey] !== "undefined") {
-                    isClaimed = !!data[claimedKey];
-                } else if (data && typeof data[completedKey] !== "undefined") {
-                    // Backwards compat: assume completed == claimed (preferred backend should be explicit)
-                    isClaimed = !!data[completedKey];
-                }
-
-                if (isClaimed) claimed.add(id);
-
-                // Determine claimable
-                let isClaimable = false;
-                if (data && typeof data[claimableKey] !== "undefined") {
-                    isClaimable = !!data[claimableKey];
-                } else {
-                    // Fallback: derive claimable from available stats if present
-                    if (id === 1) {
-                        // daily login: claimable if not claimed (perform_daily_check should reset claimed=false daily)
-                        isClaimable = !isClaimed;
-                    } else if (id === 2) {
-                        const secs = data?.daily_exercise_seconds ?? 0;
-                        isClaimable = !isClaimed && secs >= 600;
-                    } else if (id === 3) {
-                        const steps = data?.daily_steps ?? 0;
-                        isClaimable = !isClaimed && steps >= 5000;
-                    }
-                }
-
-                if (isClaimable) claimable.add(id);
-            }
+    return { claimed, claimable };
+}
 
-            setClaimedQuests(claimed);
-            setClaimableQuests(claimable);
-        } catch (error) {
-            console.error("Failed to load daily quests:", error);
-            toast.error("載入每日任務失敗");
-        } finally {
-            setIsLoading(false);
-        }
-    };
+const DailyQuests = ({ userId, onQuestCompleted }: DailyQuestsProps) => {
+    const questsQuery = useDailyQuestsQuery(userId);
+    const claimMutation = useClaimDailyQuestMutation(userId);
+    const [claiming, setClaiming] = useState<number | null>(null);
+
+    const isLoading = questsQuery.isLoading;
+    const { claimed: claimedQuests, claimable: claimableQuests } = useMemo(
+        () => getQuestState(questsQuery.data),
+        [questsQuery.data]
+    );
 
     useEffect(() => {
-        loadQuests();
-        // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [userId]);
+        const error = questsQuery.error;
+        if (!error || error instanceof RequestAbortedError) return;
+        console.error("Failed to load daily quests:", error);
+        toast.error(error instanceof ContractError ? "每日任務資料格式不符，請稍後再試" : "載入每日任務失敗");
+    }, [questsQuery.error]);
 
-    const handleClaimReward = async (questId: number) => {
+    const handleClaimReward = async (questId: DailyQuestId) => {
         if (claiming !== null) return;
 
         setClaiming(questId);
         try {
-            const result = await claimDailyQuest(userId, questId);
+            // The quest is marked claimed in the cache right away (optimistic);
+            // the mutation rolls it back or syncs the pet from the response
+            const submission = await claimMutation.mutateAsync(questId);
+            if (submission.status === "queued") {
+                // Offline: show as claimed now, rewards arrive when the outbox syncs
+                toast.info("目前無法連線，領取已暫存，恢復連線後會自動同步");
+                return;
+            }
+
+            const result = submission.result;
             if (result.success) {
                 toast.success(`任務完成！💪 +${result.rewards.strength}, ⚡ +${result.rewards.stamina}, 😊 +${result.rewards.mood}`);
-                // Mark as claimed locally and refresh state from server to be safe
-                setClaimedQuests(prev => {
-                    const newSet = new Set(prev);
-                    newSet.add(questId); // add instead of delete
-                    return newSet;
-                });
-                // Remove from claimable set if present
-                setClaimableQuests(prev => {
-                    const newSet = new Set(prev);
-                    newSet.delete(questId);
-                    return newSet;
-                });
-
                 onQuestCompleted?.();
-
-                // Refresh from backend to ensure consistency (recommended)
-                await loadQuests();
             } else {
                 // backend returned success:false with message
                 toast.error(result.message || "領取失敗");
             }
         } catch (error) {
             console.error("Claim error:", error);
-            toast.error("領取獎勵失敗");
+            if (error instanceof ConflictError) {
+                // Already claimed (e.g. on another device) — the mutation refetches the status
+                toast.info("今日已領取過此獎勵");
+            } else if (error instanceof ValidationError) {
+                toast.error(error.message || "任務尚未完成");
+            } else {
+                toast.error("領取獎勵失敗");
+            }
         } finally {
             setClaiming(null);
         }
@@ -0,0 +1,61 @@
+import { useState } from "react";
+import { Link2 } from "lucide-react";
+import { toast } from "sonner";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useUser } from "@/hooks/useUser";
+import { useTownPassAuth } from "@/hooks/useTownPassAuth";
+import { NetworkError } from "@/lib/apiErrors";
+
+// 訪客模式提示：登入 TownPass 後把這台裝置上的寵物與紀錄搬到帳號上
+const GuestUpgradeCard = () => {
+  const { isGuest, upgradeGuest } = useUser();
+  const { requestTownPassUser } = useTownPassAuth();
+  const [isUpgrading, setIsUpgrading] = useState(false);
+
+  if (!isGuest) return null;
+
+  const handleUpgrade = async () => {
+    setIsUpgrading(true);
+    try {
+      const townpassUser = await requestTownPassUser();
+      if (!townpassUser?.id) {
+        toast.error("無法取得 TownPass 帳號，請在 TownPass App 中開啟");
+        return;
+      }
+      await upgradeGuest(townpassUser);
+      toast.success("已連結 TownPass 帳號，紀錄已同步");
+    } catch (error) {
+      console.error("Guest upgrade failed:", error);
+      toast.error(
+        error instanceof NetworkError
+          ? "網路連線失敗，已同步的紀錄會保留，請稍後重試"
+          : "連結帳號失敗，請稍後重試"
+      );
+    } finally {
+      setIsUpgrading(false);
+    }
+  };
+
+  return (
+    <Card className="p-4 space-y-2" style={{ backgroundColor: 'var(--tp-orange-50)', borderColor: 'var(--tp-orange-200)' }}>
+      <p className="tp-body-semibold" style={{ color: 'var(--tp-orange-700)' }}>
+        訪客模式
+      </p>
+      <p className="tp-caption" style={{ color: 'var(--tp-grayscale-600)' }}>
+        寵物與運動紀錄只存在這台裝置。登入 TownPass 即可保存進度並參加排行榜。
+      </p>
+      <Button
+        onClick={handleUpgrade}
+        disabled={isUpgrading}
+        className="w-full"
+        style={{ backgroundColor: 'var(--tp-primary-600)', color: 'var(--tp-white)' }}
+      >
+        <Link2 className="w-4 h-4 mr-2" />
+        {isUpgrading ? "同步中..." : "連結 TownPass 帳號"}
+      </Button>
+    </Card>
+  );
+};
+
+export default GuestUpgradeCard;
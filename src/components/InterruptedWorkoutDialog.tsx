@@ -0,0 +1,75 @@
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { ACTIVITY_LABELS, dominantActivity } from "@/lib/motion";
+import { CHECKPOINT_MAX_GAP_SEC, WorkoutCheckpoint } from "@/lib/workoutCheckpoint";
+
+const formatDuration = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes} 分 ${seconds % 60} 秒` : `${seconds} 秒`;
+};
+
+const formatAgo = (ms: number) => {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 1) return "剛剛";
+  if (minutes < 60) return `${minutes} 分鐘前`;
+  const hours = Math.floor(minutes / 60);
+  return hours < 24 ? `${hours} 小時前` : `${Math.floor(hours / 24)} 天前`;
+};
+
+interface InterruptedWorkoutDialogProps {
+  /** Checkpoint left by a workout that never finished; null hides the dialog */
+  workout: WorkoutCheckpoint | null;
+  /** Duration that will be logged, see creditedDurationSec */
+  creditedSec: number;
+  onResume: () => void;
+  onSubmit: () => void;
+  onDiscard: () => void;
+}
+
+// 頁面被重新載入或關閉後回到運動頁：續接、直接送出或捨棄中斷的運動
+const InterruptedWorkoutDialog = ({ workout, creditedSec, onResume, onSubmit, onDiscard }: InterruptedWorkoutDialogProps) => {
+  if (!workout) return null;
+
+  const activity = dominantActivity(workout.activityMs);
+  const capped = creditedSec < workout.durationSec + Math.floor((Date.now() - workout.savedAt) / 1000);
+
+  return (
+    <AlertDialog open>
+      <AlertDialogContent className="max-w-sm">
+        <AlertDialogHeader>
+          <AlertDialogTitle>上次的運動中斷了</AlertDialogTitle>
+          <AlertDialogDescription>
+            {formatAgo(Date.now() - workout.savedAt)}的運動沒有正常結束，要接著做還是直接送出紀錄？
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-1 tp-body-regular" style={{ color: 'var(--tp-grayscale-700)' }}>
+          <div>時長：{formatDuration(creditedSec)}</div>
+          <div>步數：{workout.steps}</div>
+          {activity !== "idle" && <div>主要活動：{ACTIVITY_LABELS[activity]}</div>}
+          {workout.outdoor && <div>距離：{(workout.outdoor.distanceM / 1000).toFixed(2)} km</div>}
+          {capped && (
+            <p className="tp-caption pt-1" style={{ color: 'var(--tp-grayscale-500)' }}>
+              中斷期間最多只計入 {CHECKPOINT_MAX_GAP_SEC} 秒（暫停中則不計入）
+            </p>
+          )}
+        </div>
+
+        <AlertDialogFooter className="gap-2">
+          <Button variant="ghost" onClick={onDiscard}>捨棄</Button>
+          <Button variant="outline" onClick={onSubmit}>送出紀錄</Button>
+          <Button onClick={onResume}>繼續運動</Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default InterruptedWorkoutDialog;
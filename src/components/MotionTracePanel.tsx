@@ -0,0 +1,196 @@
+import { ChangeEvent, useEffect, useMemo, useState } from "react";
+import { Download, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { ComposedChart, Line, ReferenceArea, ReferenceLine, Scatter, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Activity, ACTIVITIES, ACTIVITY_LABELS, deriveThresholds, DEFAULT_CALIBRATION, MotionCalibration, MotionThresholds } from "@/lib/motion";
+import { MotionTrace, parseTrace, replayTrace, traceToCsv, traceToJson } from "@/lib/motionTrace";
+
+const ACTIVITY_COLORS: Record<Activity, string> = {
+  idle: 'var(--tp-grayscale-100)',
+  walking: 'var(--tp-primary-100)',
+  running: 'var(--tp-primary-300)',
+  stairs: 'var(--tp-secondary-200)',
+  jumping: 'var(--tp-orange-100)',
+  skipping: 'var(--tp-orange-300)',
+  squat: 'var(--tp-red-100)',
+  unknown: 'var(--tp-secondary-50)',
+};
+
+const chartConfig = {
+  mag: { label: "加速度 (m/s²)", color: 'var(--tp-primary-600)' },
+  step: { label: "步", color: 'var(--tp-orange-500)' },
+} satisfies ChartConfig;
+
+const downloadTrace = (trace: MotionTrace, format: "json" | "csv") => {
+  const content = format === "json" ? traceToJson(trace) : traceToCsv(trace);
+  const blob = new Blob([content], { type: format === "json" ? "application/json" : "text/csv" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `motion-trace-${trace.recordedAt.replace(/[:.]/g, "-")}.${format}`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+interface MotionTracePanelProps {
+  /** Trace recorded during the last exercise session, if recording was on */
+  recordedTrace: MotionTrace | null;
+  /** The user's calibration on this device; replays start from its thresholds */
+  calibration?: MotionCalibration | null;
+}
+
+// 開發者模式：下載錄製的感測器資料，或把資料重新跑一次偵測流程並畫在時間軸上
+const MotionTracePanel = ({ recordedTrace, calibration }: MotionTracePanelProps) => {
+  const activeCalibration = calibration ?? DEFAULT_CALIBRATION;
+  const baseThresholds = useMemo(() => deriveThresholds(activeCalibration), [activeCalibration]);
+
+  const [loadedTrace, setLoadedTrace] = useState<MotionTrace | null>(null);
+  const [stepThreshold, setStepThreshold] = useState(baseThresholds.step);
+  const [jumpAmpThreshold, setJumpAmpThreshold] = useState(baseThresholds.jumpAmp);
+
+  // 重新校準後，從新的門檻開始調整
+  useEffect(() => {
+    setStepThreshold(baseThresholds.step);
+    setJumpAmpThreshold(baseThresholds.jumpAmp);
+  }, [baseThresholds]);
+
+  const trace = loadedTrace ?? recordedTrace;
+
+  const replay = useMemo(() => {
+    if (!trace) return null;
+    const thresholdOverrides: Partial<MotionThresholds> = { step: stepThreshold, jumpAmp: jumpAmpThreshold };
+    return replayTrace(trace, { calibration: activeCalibration, thresholdOverrides });
+  }, [trace, activeCalibration, stepThreshold, jumpAmpThreshold]);
+
+  const stepMarkerY = useMemo(
+    () => (replay ? Math.max(1, ...replay.series.map((p) => p.mag)) * 1.05 : 0),
+    [replay]
+  );
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      setLoadedTrace(parseTrace(await file.text()));
+      toast.success(`已載入 ${file.name}`);
+    } catch (error) {
+      console.error("Failed to load trace:", error);
+      toast.error(`無法讀取檔案：${(error as Error).message}`);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {recordedTrace && (
+        <div className="space-y-1">
+          <p className="tp-caption" style={{ color: 'var(--tp-grayscale-600)' }}>
+            上次錄製：{recordedTrace.samples.length} 筆樣本
+          </p>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" className="flex-1" onClick={() => downloadTrace(recordedTrace, "json")}>
+              <Download className="w-4 h-4 mr-1" />
+              JSON
+            </Button>
+            <Button size="sm" variant="outline" className="flex-1" onClick={() => downloadTrace(recordedTrace, "csv")}>
+              <Download className="w-4 h-4 mr-1" />
+              CSV
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <Label htmlFor="motion-trace-file" className="flex items-center gap-1 tp-caption">
+          <Upload className="w-4 h-4" />
+          重播錄製檔（JSON / CSV）
+        </Label>
+        <Input id="motion-trace-file" type="file" accept=".json,.csv,application/json,text/csv" onChange={handleFile} />
+        {loadedTrace && recordedTrace && (
+          <Button size="sm" variant="ghost" onClick={() => setLoadedTrace(null)}>改為重播上次錄製</Button>
+        )}
+      </div>
+
+      {replay && (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label className="tp-caption">stepThreshold</Label>
+              <Input
+                type="number"
+                step="0.05"
+                value={stepThreshold}
+                onChange={(e) => setStepThreshold(Number(e.target.value))}
+                className="h-8"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="tp-caption">jumpAmpThreshold</Label>
+              <Input
+                type="number"
+                value={jumpAmpThreshold}
+                onChange={(e) => setJumpAmpThreshold(Number(e.target.value))}
+                className="h-8"
+              />
+            </div>
+          </div>
+
+          <div className="tp-caption" style={{ color: 'var(--tp-grayscale-700)' }}>
+            {replay.durationSec.toFixed(1)} 秒・{replay.steps.length} 步・
+            {replay.pauses.filter((p) => p.type === "pause").length} 次暫停
+          </div>
+
+          <ChartContainer config={chartConfig} className="aspect-auto h-56 w-full">
+            <ComposedChart data={replay.series} margin={{ top: 8, right: 8, bottom: 0, left: -16 }}>
+              {replay.segments.map((segment, i) => (
+                <ReferenceArea
+                  key={`segment-${i}`}
+                  x1={segment.from}
+                  x2={segment.to}
+                  fill={ACTIVITY_COLORS[segment.activity]}
+                  fillOpacity={1}
+                  ifOverflow="hidden"
+                />
+              ))}
+              <XAxis dataKey="t" type="number" domain={[0, replay.durationSec]} tickFormatter={(t: number) => `${Math.round(t)}s`} />
+              <YAxis />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `${Number(payload?.[0]?.payload?.t ?? 0).toFixed(2)}s`} />} />
+              <Line dataKey="mag" type="linear" stroke="var(--color-mag)" dot={false} strokeWidth={1} isAnimationActive={false} />
+              <Scatter
+                data={replay.steps.map((t) => ({ t, step: stepMarkerY }))}
+                dataKey="step"
+                fill="var(--color-step)"
+                shape="circle"
+                isAnimationActive={false}
+              />
+              {replay.pauses.map((p, i) => (
+                <ReferenceLine
+                  key={`pause-${i}`}
+                  x={p.t}
+                  stroke={p.type === "pause" ? 'var(--tp-red-500)' : 'var(--tp-primary-500)'}
+                  strokeDasharray="4 2"
+                  label={{ value: p.type === "pause" ? "暫停" : "恢復", position: "insideTopLeft", fontSize: 10 }}
+                />
+              ))}
+            </ComposedChart>
+          </ChartContainer>
+
+          <div className="flex flex-wrap gap-2 tp-caption">
+            {ACTIVITIES.map((activity) => (
+              <span key={activity} className="flex items-center gap-1">
+                <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: ACTIVITY_COLORS[activity] }} />
+                {ACTIVITY_LABELS[activity]}
+              </span>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MotionTracePanel;
@@ -0,0 +1,57 @@
+import { CloudOff, RefreshCw, UserX } from "lucide-react";
+import { useOutbox } from "@/hooks/useOutbox";
+import { useUser } from "@/hooks/useUser";
+
+interface PendingSyncBadgeProps {
+  userId: string | null;
+  className?: string;
+}
+
+// 顯示尚未同步到後端的離線紀錄數量，點擊可立即重試；已登出帳號留下的紀錄也一併顯示
+const PendingSyncBadge = ({ userId, className }: PendingSyncBadgeProps) => {
+  const { pendingCount, pendingByUser, isSyncing, syncNow } = useOutbox(userId);
+  const { profiles } = useUser();
+
+  // 這台裝置上已沒有 profile 的帳號：重新登入後才會同步
+  const signedOutCount = Object.entries(pendingByUser)
+    .filter(([owner]) => !profiles.some((profile) => profile.userId === owner))
+    .reduce((total, [, count]) => total + count, 0);
+
+  if (pendingCount === 0 && signedOutCount === 0) return null;
+
+  return (
+    <span className={`inline-flex items-center gap-1 ${className ?? ""}`}>
+      {pendingCount > 0 && (
+        <button
+          type="button"
+          onClick={syncNow}
+          disabled={isSyncing}
+          className="inline-flex items-center gap-1 px-2 py-1 rounded-full tp-caption"
+          style={{
+            backgroundColor: 'var(--tp-orange-100)',
+            color: 'var(--tp-orange-700)'
+          }}
+          title="點擊立即同步"
+        >
+          {isSyncing ? <RefreshCw className="w-3 h-3 animate-spin" /> : <CloudOff className="w-3 h-3" />}
+          {pendingCount} 筆待同步
+        </button>
+      )}
+      {signedOutCount > 0 && (
+        <span
+          className="inline-flex items-center gap-1 px-2 py-1 rounded-full tp-caption"
+          style={{
+            backgroundColor: 'var(--tp-grayscale-100)',
+            color: 'var(--tp-grayscale-700)'
+          }}
+          title="這些紀錄屬於已登出的帳號，重新登入該帳號後才會同步"
+        >
+          <UserX className="w-3 h-3" />
+          {signedOutCount} 筆屬於已登出的帳號
+        </span>
+      )}
+    </span>
+  );
+};
+
+export default PendingSyncBadge;
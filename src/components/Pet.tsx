@@ -1,7 +1,8 @@
 import { useEffect, useRef, useState } from "react";
 import bg from "@/assets/image/background.png";
 import badDayBg from "@/assets/image/badday_backgroung.png";
-import { useManualRain } from "@/hooks/useWeather";
+import { useRaining } from "@/hooks/useWeather";
+import { MAX_STAMINA } from "@/lib/petRules";
 import PetEggSvg from "@/assets/svg/pet-egg.svg";
 import PetSmallSvg from "@/assets/svg/pet-small.svg";
 import PetMediumSvg from "@/assets/svg/pet-medium.svg";
@@ -153,7 +154,8 @@ const Pet = ({ stage, mood, message, startMessageTimer, strength, strengthMax, s
   const [bubbleHeight, setBubbleHeight] = useState<number>(0);
   const [bubbleWidth, setBubbleWidth] = useState<number>(200);
 
-  const { manualRain } = useManualRain();
+  // 偵測到的天氣或手動下雨，和運動的雨天加成同一來源
+  const { raining } = useRaining();
 
   // Generate fixed rain drops to prevent re-randomization on re-render
   const [rainDrops] = useState(() => 
@@ -587,7 +589,7 @@ const Pet = ({ stage, mood, message, startMessageTimer, strength, strengthMax, s
     return `力量良好，繼續保持！`;
   };
 
-  const genStaminaMessage = (value?: number, max = 900) => {
+  const genStaminaMessage = (value?: number, max = MAX_STAMINA) => {
     if (value == null) return "體力資訊不可用";
     if (value <= 0) return `咕咕！今天運動量已經足夠了，明天繼續加油！🌟`;
     if (value < max / 4) return `體力很低，先休息並補充能量吧！`;
@@ -620,7 +622,7 @@ const Pet = ({ stage, mood, message, startMessageTimer, strength, strengthMax, s
     if (normalizedNext === 0) {
       msg = genStrengthMessage(strength, strengthMax ?? 120);
     } else if (normalizedNext === 1) {
-      msg = genStaminaMessage(stamina, staminaMax ?? 900);
+      msg = genStaminaMessage(stamina, staminaMax ?? MAX_STAMINA);
     } else {
       msg = genMoodMessage(mood);
     }
@@ -644,14 +646,14 @@ const Pet = ({ stage, mood, message, startMessageTimer, strength, strengthMax, s
       className="relative rounded-2xl shadow-inner overflow-hidden w-full"
       style={{
         aspectRatio: "1 / 1",
-        backgroundImage: `url(${manualRain ? badDayBg : bg})`,
+        backgroundImage: `url(${raining ? badDayBg : bg})`,
         backgroundSize: "cover",
         backgroundPosition: "center",
         backgroundRepeat: "no-repeat",
       }}
     >
       {/* Rain animation - only visible when raining */}
-      {manualRain && (
+      {raining && (
         <div className="absolute inset-0 pointer-events-none">
           <style>{`
             @keyframes pet-rain-fall {
@@ -0,0 +1,101 @@
+import { Plus } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { useOutbox } from "@/hooks/useOutbox";
+import { useUser } from "@/hooks/useUser";
+import { getStageName } from "@/lib/api";
+import { isGuestUserId } from "@/lib/guestStore";
+import PetEggSvg from "@/assets/svg/pet-egg.svg";
+import PetSmallSvg from "@/assets/svg/pet-small.svg";
+import PetMediumSvg from "@/assets/svg/pet-medium.svg";
+import PetLargeSvg from "@/assets/svg/pet-large.svg";
+import PetBuffSvg from "@/assets/svg/pet-buff.svg";
+
+const STAGE_SPRITES = {
+  egg: PetEggSvg,
+  small: PetSmallSvg,
+  medium: PetMediumSvg,
+  large: PetLargeSvg,
+  buff: PetBuffSvg,
+};
+
+interface ProfileSwitcherProps {
+  /** Hide the pet's name / level text (collapsed sidebar) */
+  compact?: boolean;
+  /** Show the "新增寵物" entry (not needed on the welcome page itself) */
+  allowAdd?: boolean;
+}
+
+// 同一支手機上的所有寵物（家人共用），點擊切換目前的寵物
+const ProfileSwitcher = ({ compact = false, allowAdd = true }: ProfileSwitcherProps) => {
+  const navigate = useNavigate();
+  const { userId, profiles, switchProfile, startNewProfile } = useUser();
+  // 其他寵物的離線紀錄只在切換到牠時同步
+  const { pendingByUser } = useOutbox(userId);
+
+  const handleSwitch = (nextUserId: string) => {
+    if (nextUserId !== userId) switchProfile(nextUserId);
+    navigate("/");
+  };
+
+  const handleAdd = () => {
+    startNewProfile();
+    navigate("/welcome");
+  };
+
+  return (
+    <div className="space-y-1">
+      {profiles.map((profile) => {
+        const isActive = profile.userId === userId;
+        const pending = isActive ? 0 : pendingByUser[profile.userId] ?? 0;
+        return (
+          <button
+            key={profile.userId}
+            type="button"
+            onClick={() => handleSwitch(profile.userId)}
+            className="flex w-full items-center gap-2 rounded-md p-2 text-left"
+            style={{
+              backgroundColor: isActive ? 'var(--tp-primary-100)' : 'transparent',
+              color: isActive ? 'var(--tp-primary-700)' : 'var(--tp-grayscale-700)',
+            }}
+            aria-current={isActive}
+          >
+            <img
+              src={STAGE_SPRITES[getStageName(profile.stage)]}
+              alt=""
+              className="w-8 h-8 object-contain shrink-0"
+            />
+            {!compact && (
+              <>
+                <span className={`flex-1 truncate ${isActive ? "tp-body-semibold" : "tp-body-regular"}`}>
+                  {profile.petName || "未命名"}
+                  {isGuestUserId(profile.userId) && (
+                    <span className="tp-caption ml-1" style={{ color: 'var(--tp-grayscale-500)' }}>訪客</span>
+                  )}
+                </span>
+                {pending > 0 && (
+                  <span className="tp-caption shrink-0" style={{ color: 'var(--tp-orange-700)' }} title="切換到這隻寵物後同步">
+                    {pending} 筆待同步
+                  </span>
+                )}
+                <span className="tp-caption shrink-0">Lv.{profile.level}</span>
+              </>
+            )}
+          </button>
+        );
+      })}
+      {allowAdd && (
+        <button
+          type="button"
+          onClick={handleAdd}
+          className="flex w-full items-center gap-2 rounded-md p-2 tp-body-regular"
+          style={{ color: 'var(--tp-grayscale-600)' }}
+        >
+          <Plus className="w-4 h-4 mx-2" />
+          {!compact && <span>新增寵物</span>}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ProfileSwitcher;
@@ -0,0 +1,236 @@
+import { useEffect, useState } from "react";
+import { Smartphone, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DEMO_WALKING_PATH,
+  LocationScript,
+  SimulatedResponseMode,
+  SimulatorState,
+  clearSimulatorLog,
+  disableTownPassSimulator,
+  getSimulatorState,
+  resetSimulatorConfig,
+  subscribeSimulator,
+  updateSimulatorConfig,
+} from "@/lib/townpassSimulator";
+
+const useSimulatorState = () => {
+  const [state, setState] = useState<SimulatorState>(getSimulatorState());
+  useEffect(() => subscribeSimulator(setState), []);
+  return state;
+};
+
+const formatTime = (at: number) => new Date(at).toLocaleTimeString("zh-TW", { hour12: false });
+
+// Default script for each location kind when switching in the select
+const LOCATION_PRESETS: Record<LocationScript["kind"], LocationScript> = {
+  static: { kind: "static", latitude: 25.0375, longitude: 121.5637, accuracy: 10 },
+  path: { kind: "path", points: DEMO_WALKING_PATH, speedMps: 1.4, accuracy: 8 },
+  error: { kind: "error", message: "定位權限被拒絕" },
+  timeout: { kind: "timeout" },
+};
+
+const UserTab = ({ state }: { state: SimulatorState }) => {
+  const [draft, setDraft] = useState(() => JSON.stringify(state.config.user, null, 2));
+  const [parseError, setParseError] = useState<string | null>(null);
+
+  const applyUser = () => {
+    try {
+      updateSimulatorConfig({ user: JSON.parse(draft) });
+      setParseError(null);
+    } catch (error) {
+      setParseError((error as Error).message);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>userinfo 回應</Label>
+      <Select
+        value={state.config.userinfoMode}
+        onValueChange={(value) => updateSimulatorConfig({ userinfoMode: value as SimulatedResponseMode })}
+      >
+        <SelectTrigger className="h-8">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="respond">回傳使用者資料</SelectItem>
+          <SelectItem value="error">回傳錯誤</SelectItem>
+          <SelectItem value="timeout">不回應（逾時）</SelectItem>
+        </SelectContent>
+      </Select>
+      <Textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        rows={7}
+        className="font-mono text-xs"
+      />
+      {parseError && <div className="tp-caption" style={{ color: 'var(--tp-red-500)' }}>JSON 格式錯誤：{parseError}</div>}
+      <Button size="sm" onClick={applyUser}>套用</Button>
+    </div>
+  );
+};
+
+const LocationTab = ({ state }: { state: SimulatorState }) => {
+  const script = state.config.location;
+  const update = (patch: Partial<LocationScript>) =>
+    updateSimulatorConfig({ location: { ...script, ...patch } as LocationScript });
+
+  return (
+    <div className="space-y-2">
+      <Label>location 腳本</Label>
+      <Select
+        value={script.kind}
+        onValueChange={(kind) => updateSimulatorConfig({ location: LOCATION_PRESETS[kind as LocationScript["kind"]] })}
+      >
+        <SelectTrigger className="h-8">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="static">固定位置</SelectItem>
+          <SelectItem value="path">沿路線步行</SelectItem>
+          <SelectItem value="error">定位錯誤</SelectItem>
+          <SelectItem value="timeout">不回應（逾時）</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {script.kind === "static" && (
+        <div className="grid grid-cols-3 gap-2">
+          <Input type="number" step="0.0001" value={script.latitude} onChange={(e) => update({ latitude: Number(e.target.value) })} aria-label="緯度" />
+          <Input type="number" step="0.0001" value={script.longitude} onChange={(e) => update({ longitude: Number(e.target.value) })} aria-label="經度" />
+          <Input type="number" value={script.accuracy} onChange={(e) => update({ accuracy: Number(e.target.value) })} aria-label="精度 (m)" />
+        </div>
+      )}
+
+      {script.kind === "path" && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Label className="shrink-0">速度 (m/s)</Label>
+            <Input type="number" step="0.1" value={script.speedMps} onChange={(e) => update({ speedMps: Number(e.target.value) })} className="h-8" />
+          </div>
+          <div className="tp-caption" style={{ color: 'var(--tp-grayscale-500)' }}>
+            {script.points.length} 個路徑點，循環步行；切換腳本會從起點重新開始
+          </div>
+        </div>
+      )}
+
+      {script.kind === "error" && (
+        <Input value={script.message} onChange={(e) => update({ message: e.target.value })} placeholder="錯誤訊息" />
+      )}
+
+      <div className="flex items-center gap-2 pt-1">
+        <Label className="shrink-0">回應延遲 (ms)</Label>
+        <Input
+          type="number"
+          value={state.config.latencyMs}
+          onChange={(e) => updateSimulatorConfig({ latencyMs: Math.max(0, Number(e.target.value)) })}
+          className="h-8"
+        />
+      </div>
+    </div>
+  );
+};
+
+const MessagesTab = ({ state }: { state: SimulatorState }) => (
+  <div className="space-y-3">
+    <div>
+      <Label>notify 通知</Label>
+      {state.notifications.length === 0 ? (
+        <div className="tp-caption" style={{ color: 'var(--tp-grayscale-500)' }}>尚無通知</div>
+      ) : (
+        <ul className="space-y-1 max-h-28 overflow-y-auto">
+          {state.notifications.map((n, i) => (
+            <li key={i} className="rounded p-2 text-xs" style={{ backgroundColor: 'var(--tp-primary-50)' }}>
+              <div className="font-semibold">{n.title}</div>
+              <div>{n.content}</div>
+              <div style={{ color: 'var(--tp-grayscale-500)' }}>{formatTime(n.at)}</div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+    <div>
+      <Label>訊息紀錄</Label>
+      <ul className="max-h-40 overflow-y-auto font-mono text-[10px] leading-4">
+        {state.log.map((entry, i) => (
+          <li key={i} className="truncate" title={JSON.stringify(entry.data)}>
+            {formatTime(entry.at)} {entry.direction === "in" ? "→" : "←"} {entry.name} {JSON.stringify(entry.data)}
+          </li>
+        ))}
+      </ul>
+    </div>
+    <Button size="sm" variant="outline" onClick={clearSimulatorLog}>清除</Button>
+  </div>
+);
+
+// Dev builds only: floating controls for the fake flutterObject (see lib/townpassSimulator)
+const TownPassSimulatorPanel = () => {
+  const state = useSimulatorState();
+  const [open, setOpen] = useState(false);
+
+  if (!state.installed) return null;
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="fixed bottom-4 left-4 z-[2000] flex items-center gap-1 rounded-full px-3 py-2 shadow-lg tp-caption"
+        style={{ backgroundColor: 'var(--tp-grayscale-800)', color: 'var(--tp-white)' }}
+      >
+        <Smartphone className="w-4 h-4" />
+        TownPass 模擬
+        {state.notifications.length > 0 && (
+          <span className="ml-1 rounded-full px-1.5" style={{ backgroundColor: 'var(--tp-orange-500)' }}>
+            {state.notifications.length}
+          </span>
+        )}
+      </button>
+    );
+  }
+
+  return (
+    <div
+      className="fixed bottom-4 left-4 z-[2000] w-80 rounded-lg border p-3 shadow-xl space-y-2"
+      style={{ backgroundColor: 'var(--tp-white)', borderColor: 'var(--tp-grayscale-300)' }}
+    >
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 tp-body-semibold" style={{ color: 'var(--tp-grayscale-800)' }}>
+          <Smartphone className="w-4 h-4" />
+          TownPass 模擬器
+        </div>
+        <button onClick={() => setOpen(false)} aria-label="關閉">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <Tabs defaultValue="user">
+        <TabsList className="grid w-full grid-cols-3">
+          <TabsTrigger value="user">使用者</TabsTrigger>
+          <TabsTrigger value="location">位置</TabsTrigger>
+          <TabsTrigger value="messages">訊息</TabsTrigger>
+        </TabsList>
+        <TabsContent value="user"><UserTab state={state} /></TabsContent>
+        <TabsContent value="location"><LocationTab state={state} /></TabsContent>
+        <TabsContent value="messages"><MessagesTab state={state} /></TabsContent>
+      </Tabs>
+
+      <div className="flex justify-between pt-1">
+        <Button size="sm" variant="ghost" onClick={resetSimulatorConfig}>重設設定</Button>
+        <Button size="sm" variant="ghost" onClick={disableTownPassSimulator}>停用模擬器</Button>
+      </div>
+    </div>
+  );
+};
+
+export default TownPassSimulatorPanel;
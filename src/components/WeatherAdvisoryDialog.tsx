@@ -0,0 +1,71 @@
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { WeatherAdvisory } from "@/lib/weatherAdvisory";
+
+interface WeatherAdvisoryDialogProps {
+  /** Advisory shown before the workout starts; null hides the dialog */
+  advisory: WeatherAdvisory | null;
+  /** Outdoor mode is on, so "exercise indoors" can turn it off */
+  outdoorMode: boolean;
+  onStart: () => void;
+  /** Start with outdoor mode turned off */
+  onStartIndoor: () => void;
+  /** Look for an indoor venue on the travel page */
+  onFindVenue: () => void;
+  onCancel: () => void;
+}
+
+// 開始運動前的天氣提醒：高溫、紫外線或空品不佳時建議改做室內運動
+const WeatherAdvisoryDialog = ({ advisory, outdoorMode, onStart, onStartIndoor, onFindVenue, onCancel }: WeatherAdvisoryDialogProps) => {
+  if (!advisory) return null;
+
+  const danger = advisory.level === "danger";
+
+  return (
+    <AlertDialog open>
+      <AlertDialogContent className="max-w-sm">
+        <AlertDialogHeader>
+          <AlertDialogTitle>{danger ? "現在不適合戶外運動" : "運動前注意天氣"}</AlertDialogTitle>
+          <AlertDialogDescription>
+            {advisory.preferIndoor
+              ? "建議改做開合跳、跳繩、深蹲等室內運動，或到室內運動場館"
+              : "可以照常運動，出門前請做好準備"}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div
+          className="rounded-lg p-3 space-y-1 tp-body-regular"
+          style={{ backgroundColor: 'var(--tp-orange-50)', color: 'var(--tp-orange-700)' }}
+        >
+          {advisory.reasons.map((reason) => (
+            <div key={reason.kind}>{reason.message}</div>
+          ))}
+        </div>
+
+        <AlertDialogFooter className="gap-2">
+          <Button variant="ghost" onClick={onCancel}>取消</Button>
+          {advisory.preferIndoor && (
+            <Button variant="outline" onClick={onFindVenue}>找室內場館</Button>
+          )}
+          {advisory.preferIndoor && outdoorMode ? (
+            <>
+              <Button variant="outline" onClick={onStart}>仍在戶外運動</Button>
+              <Button onClick={onStartIndoor}>改做室內運動</Button>
+            </>
+          ) : (
+            <Button onClick={onStart}>開始運動</Button>
+          )}
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default WeatherAdvisoryDialog;
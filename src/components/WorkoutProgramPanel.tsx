@@ -0,0 +1,122 @@
+import { CheckCircle2, XCircle } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Activity, ACTIVITY_LABELS } from "@/lib/motion";
+import {
+  getProgram,
+  programDurationSec,
+  ProgramResult,
+  ProgramState,
+  WORKOUT_PROGRAMS,
+} from "@/lib/workoutPrograms";
+
+// Select 不接受空字串，用這個值代表自由運動
+const FREE_WORKOUT = "free";
+
+const formatClock = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+
+const formatPercent = (ratio: number) => `${Math.round(ratio * 100)}%`;
+
+interface WorkoutProgramPanelProps {
+  /** Selected program id; null = free-form workout */
+  programId: string | null;
+  onProgramChange: (programId: string | null) => void;
+  isExercising: boolean;
+  /** Runner state while a program runs */
+  state: ProgramState | null;
+  /** Result of the last program, shown until the next workout starts */
+  result: ProgramResult | null;
+  activity: Activity;
+}
+
+// 課表：開始前選擇，運動中顯示目前階段與倒數，結束後顯示各階段完成度
+const WorkoutProgramPanel = ({ programId, onProgramChange, isExercising, state, result, activity }: WorkoutProgramPanelProps) => {
+  const program = programId ? getProgram(programId) : null;
+
+  if (isExercising && state && program) {
+    const onTarget = state.phase.target === null || state.phase.target.includes(activity);
+    return (
+      <div className="rounded-lg p-4 space-y-3" style={{ backgroundColor: 'var(--tp-primary-50)' }}>
+        <div className="flex items-center justify-between tp-caption" style={{ color: 'var(--tp-grayscale-600)' }}>
+          <span>{program.name}</span>
+          <span>階段 {state.phaseIndex + 1} / {program.phases.length}</span>
+        </div>
+        <div className="text-center">
+          <div className="text-2xl font-bold" style={{ color: 'var(--tp-primary-700)' }}>{state.phase.label}</div>
+          <div className="text-5xl font-bold tabular-nums" style={{ color: 'var(--tp-primary-600)' }}>
+            {formatClock(state.phaseRemainingSec)}
+          </div>
+        </div>
+        <Progress value={(state.phaseElapsedSec / state.phase.durationSec) * 100} />
+        {state.phase.target && (
+          <div
+            className="flex items-center justify-center gap-1 tp-caption"
+            style={{ color: onTarget ? 'var(--tp-primary-700)' : 'var(--tp-orange-700)' }}
+          >
+            {onTarget ? <CheckCircle2 className="w-4 h-4" /> : <XCircle className="w-4 h-4" />}
+            目標：{state.phase.target.map((a) => ACTIVITY_LABELS[a]).join(" / ")}・目前：{ACTIVITY_LABELS[activity]}
+          </div>
+        )}
+        <div className="flex justify-between tp-caption" style={{ color: 'var(--tp-grayscale-500)' }}>
+          <span>{state.next ? `下一個：${state.next.label} ${formatClock(state.next.durationSec)}` : "最後一個階段"}</span>
+          <span>總進度 {formatClock(state.elapsedSec)} / {formatClock(state.totalSec)}</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <Select
+        value={programId ?? FREE_WORKOUT}
+        onValueChange={(value) => onProgramChange(value === FREE_WORKOUT ? null : value)}
+        disabled={isExercising}
+      >
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={FREE_WORKOUT}>自由運動</SelectItem>
+          {WORKOUT_PROGRAMS.map((p) => (
+            <SelectItem key={p.id} value={p.id}>
+              {p.name}（{Math.round(programDurationSec(p) / 60)} 分鐘）
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {program && (
+        <p className="tp-caption" style={{ color: 'var(--tp-grayscale-600)' }}>
+          {program.description}。完成且動作達成率 {formatPercent(program.minCompliance)} 以上：
+          力量 +{program.reward.strength}、心情 +{program.reward.mood}
+        </p>
+      )}
+
+      {result && (
+        <div className="rounded-lg p-3 space-y-1 tp-caption" style={{ backgroundColor: 'var(--tp-grayscale-50)', color: 'var(--tp-grayscale-700)' }}>
+          <div className="tp-body-semibold">
+            {getProgram(result.programId)?.name}：
+            {result.passed ? "完成！" : result.completed ? "已完成，但達成率不足" : "未完成"}
+            （達成率 {formatPercent(result.compliance)}）
+          </div>
+          {result.phases
+            .filter((phase) => phase.compliance !== null)
+            .map((phase, i) => (
+              <div key={i} className="flex justify-between">
+                <span>{phase.label}</span>
+                <span>{formatPercent(phase.compliance)}（{phase.onTargetSec}/{phase.observedSec} 秒）</span>
+              </div>
+            ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WorkoutProgramPanel;
@@ -0,0 +1,174 @@
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ExerciseResult } from "@/lib/api";
+import { Activity, ACTIVITY_LABELS, activityBreakdownSeconds } from "@/lib/motion";
+import { PLAUSIBILITY_REASON_LABELS } from "@/lib/plausibility";
+import { formatStatDeltas, StatDeltas, STRENGTH_PER_LEVEL } from "@/lib/rewardRules";
+import { WorkoutSnapshot } from "@/lib/workoutCheckpoint";
+
+export interface WorkoutReceipt {
+  workout: WorkoutSnapshot;
+  /** Server-confirmed result; null when the log was queued offline or not sent */
+  result: ExerciseResult | null;
+  /** Queued in the outbox, rewards are settled when it syncs */
+  queued: boolean;
+}
+
+const formatDuration = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes} 分 ${seconds % 60} 秒` : `${seconds} 秒`;
+};
+
+// 獎勵明細的分組；後端新增的加成（不認得的 kind）都歸在加成
+const BASE_KINDS = ["base"];
+const COST_KINDS = ["excluded", "stamina"];
+
+const ItemRow = ({ label, deltas }: { label: string; deltas: Partial<StatDeltas> }) => (
+  <div className="flex justify-between gap-2">
+    <span>{label}</span>
+    <span className="tabular-nums">{formatStatDeltas(deltas) || "—"}</span>
+  </div>
+);
+
+interface WorkoutReceiptDialogProps {
+  /** null hides the dialog */
+  receipt: WorkoutReceipt | null;
+  onClose: () => void;
+  /** Go and do the breakthrough quest */
+  onBreakthrough: () => void;
+}
+
+// 運動結束後的結算單：運動內容、後端結算的獎勵明細與升級進度
+const WorkoutReceiptDialog = ({ receipt, onClose, onBreakthrough }: WorkoutReceiptDialogProps) => {
+  if (!receipt) return null;
+
+  const { workout, result, queued } = receipt;
+  const breakdown = Object.entries(activityBreakdownSeconds(workout.activityMs)) as Array<[Activity, number]>;
+  const breakdownTotal = breakdown.reduce((total, [, seconds]) => total + seconds, 0);
+  breakdown.sort(([, a], [, b]) => b - a);
+
+  const items = result?.rewards?.items ?? [];
+  const baseItems = items.filter((item) => BASE_KINDS.includes(item.kind));
+  const bonusItems = items.filter((item) => !BASE_KINDS.includes(item.kind) && !COST_KINDS.includes(item.kind));
+  const costItems = items.filter((item) => COST_KINDS.includes(item.kind));
+
+  const pet = result?.pet;
+  const levelStrength = pet ? pet.strength % STRENGTH_PER_LEVEL : 0;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-sm max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>運動完成！</DialogTitle>
+          <DialogDescription>
+            {result
+              ? "以下是這次運動的結算"
+              : queued
+                ? "目前無法連線，紀錄已暫存，恢復連線後會自動同步並結算獎勵"
+                : "這次運動沒有送出紀錄，不會獲得獎勵"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 tp-body-regular" style={{ color: 'var(--tp-grayscale-700)' }}>
+          <div className="grid grid-cols-2 gap-2 text-center">
+            <div className="rounded-lg p-3" style={{ backgroundColor: 'var(--tp-grayscale-50)' }}>
+              <div className="tp-body-semibold">{formatDuration(workout.durationSec)}</div>
+              <div className="tp-caption" style={{ color: 'var(--tp-grayscale-500)' }}>時長</div>
+            </div>
+            <div className="rounded-lg p-3" style={{ backgroundColor: 'var(--tp-grayscale-50)' }}>
+              <div className="tp-body-semibold">{workout.steps}</div>
+              <div className="tp-caption" style={{ color: 'var(--tp-grayscale-500)' }}>步數</div>
+            </div>
+            {workout.outdoor && (
+              <div className="col-span-2 rounded-lg p-3" style={{ backgroundColor: 'var(--tp-grayscale-50)' }}>
+                <div className="tp-body-semibold">{(workout.outdoor.distanceM / 1000).toFixed(2)} km</div>
+                <div className="tp-caption" style={{ color: 'var(--tp-grayscale-500)' }}>距離</div>
+              </div>
+            )}
+          </div>
+
+          {breakdownTotal > 0 && (
+            <div className="space-y-1">
+              <div className="tp-body-semibold">活動組成</div>
+              {breakdown.map(([activity, seconds]) => (
+                <div key={activity} className="space-y-0.5">
+                  <div className="flex justify-between tp-caption">
+                    <span>{ACTIVITY_LABELS[activity]}</span>
+                    <span>{formatDuration(seconds)}（{Math.round((seconds / breakdownTotal) * 100)}%）</span>
+                  </div>
+                  <Progress value={(seconds / breakdownTotal) * 100} className="h-1.5" />
+                </div>
+              ))}
+            </div>
+          )}
+
+          {workout.excluded.length > 0 && (
+            <div className="rounded-lg p-3 space-y-1 tp-caption" style={{ backgroundColor: 'var(--tp-orange-50)', color: 'var(--tp-orange-700)' }}>
+              <div className="tp-body-semibold">不計入獎勵的片段</div>
+              {workout.excluded.map((segment, i) => (
+                <div key={i} className="flex justify-between gap-2">
+                  <span>{PLAUSIBILITY_REASON_LABELS[segment.reason]}</span>
+                  <span>{formatDuration(segment.endSec - segment.startSec)}・{segment.steps} 步</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {result?.rewards && (
+            <div className="space-y-1">
+              <div className="tp-body-semibold">獎勵明細</div>
+              {baseItems.map((item, i) => (
+                <ItemRow key={`base-${i}`} label={`基本：${item.label}`} deltas={item} />
+              ))}
+              {bonusItems.map((item, i) => (
+                <ItemRow key={`bonus-${i}`} label={item.label} deltas={item} />
+              ))}
+              {costItems.map((item, i) => (
+                <ItemRow key={`cost-${i}`} label={item.label} deltas={item} />
+              ))}
+              <div className="border-t pt-1 tp-body-semibold" style={{ borderColor: 'var(--tp-grayscale-200)' }}>
+                <ItemRow label="合計" deltas={result.rewards.deltas} />
+              </div>
+            </div>
+          )}
+
+          {pet && (
+            <div className="space-y-1">
+              <div className="flex justify-between">
+                <span className="tp-body-semibold">Lv.{pet.level}</span>
+                <span className="tp-caption">
+                  力量 {levelStrength} / {STRENGTH_PER_LEVEL}
+                  {!result.breakthrough_required && `，再 ${STRENGTH_PER_LEVEL - levelStrength} 點升級`}
+                </span>
+              </div>
+              <Progress value={(levelStrength / STRENGTH_PER_LEVEL) * 100} />
+            </div>
+          )}
+
+          {result?.breakthrough_required && (
+            <div className="rounded-lg p-3 tp-body-semibold" style={{ backgroundColor: 'var(--tp-orange-50)', color: 'var(--tp-orange-700)' }}>
+              恭喜達到突破等級！完成旅遊的突破任務後才能繼續升級
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          {result?.breakthrough_required && (
+            <Button variant="outline" onClick={onBreakthrough}>前往旅遊</Button>
+          )}
+          <Button onClick={onClose}>完成</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WorkoutReceiptDialog;
@@ -0,0 +1,61 @@
+import { useEffect } from 'react';
+import { CircleMarker, MapContainer, Polyline, TileLayer, useMap } from 'react-leaflet';
+import 'leaflet/dist/leaflet.css';
+import { GpsFix } from '@/lib/gpsTrack';
+
+// 預設台北市中心（還沒有定位時）
+const DEFAULT_CENTER: [number, number] = [25.0330, 121.5654];
+
+// 路線變長時把整條路線放進畫面；還沒有路線時跟著目前位置
+function FollowRoute({ route, current }: { route: Array<[number, number]>; current: GpsFix | null }) {
+  const map = useMap();
+
+  useEffect(() => {
+    if (route.length >= 2) {
+      map.fitBounds(route, { padding: [20, 20], maxZoom: 17, animate: false });
+    } else if (current) {
+      map.setView([current.lat, current.lng], 16, { animate: false });
+    }
+  }, [map, route, current]);
+
+  return null;
+}
+
+interface WorkoutRouteMapProps {
+  /** Accepted fixes as [lat, lng] */
+  route: Array<[number, number]>;
+  /** Latest fix, also when it was too jittery to extend the route */
+  current: GpsFix | null;
+}
+
+// 戶外運動路線
+const WorkoutRouteMap = ({ route, current }: WorkoutRouteMapProps) => {
+  return (
+    <div className="rounded-lg overflow-hidden" style={{ height: '240px' }}>
+      <MapContainer
+        center={current ? [current.lat, current.lng] : DEFAULT_CENTER}
+        zoom={16}
+        scrollWheelZoom={false}
+        style={{ height: '100%', width: '100%' }}
+      >
+        <TileLayer
+          attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+          url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+        />
+        {route.length >= 2 && (
+          <Polyline positions={route} pathOptions={{ color: '#6366f1', weight: 5, opacity: 0.8 }} />
+        )}
+        {current && (
+          <CircleMarker
+            center={[current.lat, current.lng]}
+            radius={7}
+            pathOptions={{ color: '#ffffff', weight: 2, fillColor: '#3b82f6', fillOpacity: 1 }}
+          />
+        )}
+        <FollowRoute route={route} current={current} />
+      </MapContainer>
+    </div>
+  );
+};
+
+export default WorkoutRouteMap;
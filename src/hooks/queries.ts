@@ -0,0 +1,205 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+    getDailyStats,
+    getLevelLeaderboard,
+    getUserDailyQuests,
+    getUserPet,
+    getUserTravelCheckins,
+    updateUserPet,
+    DailyQuestStatus,
+    ExerciseLogCreate,
+    Pet,
+    PetUpdate,
+    TravelCheckin,
+    TravelCheckinCreate,
+} from "@/lib/api";
+import { ConflictError } from "@/lib/apiErrors";
+import { submitOrQueue } from "@/lib/outbox";
+import type { DailyQuestId } from "@/lib/schemas";
+
+// ==================
+// Query keys
+// ==================
+// Everything belonging to one user lives under ["user", userId], so a single
+// invalidateQueries({ queryKey: queryKeys.user(id) }) refreshes all of it.
+
+export const queryKeys = {
+    user: (userId: string | null) => ["user", userId] as const,
+    pet: (userId: string | null) => ["user", userId, "pet"] as const,
+    dailyStats: (userId: string | null) => ["user", userId, "dailyStats"] as const,
+    dailyQuests: (userId: string | null) => ["user", userId, "dailyQuests"] as const,
+    checkins: (userId: string | null) => ["user", userId, "checkins"] as const,
+    leaderboard: (limit: number) => ["leaderboard", "level", limit] as const,
+};
+
+// 推播頻道無法使用時，寵物數值每 30 秒輪詢一次（頁面隱藏時暫停）
+const PET_POLL_INTERVAL_MS = 30000;
+
+// ==================
+// Queries
+// ==================
+
+/** Pass `poll: false` while the push channel is delivering pet updates */
+export const usePetQuery = (userId: string | null, { poll = true }: { poll?: boolean } = {}) =>
+    useQuery({
+        queryKey: queryKeys.pet(userId),
+        queryFn: ({ signal }) => getUserPet(userId, { signal }),
+        enabled: !!userId,
+        refetchInterval: poll ? PET_POLL_INTERVAL_MS : false,
+    });
+
+export const useDailyStatsQuery = (userId: string | null) =>
+    useQuery({
+        queryKey: queryKeys.dailyStats(userId),
+        queryFn: ({ signal }) => getDailyStats(userId, { signal }),
+        enabled: !!userId,
+    });
+
+export const useDailyQuestsQuery = (userId: string | null) =>
+    useQuery({
+        queryKey: queryKeys.dailyQuests(userId),
+        queryFn: ({ signal }) => getUserDailyQuests(userId, { signal }),
+        enabled: !!userId,
+    });
+
+export const useCheckinsQuery = (userId: string | null) =>
+    useQuery({
+        queryKey: queryKeys.checkins(userId),
+        queryFn: ({ signal }) => getUserTravelCheckins(userId, { signal }),
+        enabled: !!userId,
+    });
+
+export const useLeaderboardQuery = (limit = 10) =>
+    useQuery({
+        queryKey: queryKeys.leaderboard(limit),
+        queryFn: ({ signal }) => getLevelLeaderboard(limit, { signal }),
+        staleTime: 60000,
+    });
+
+// ==================
+// Mutations
+// ==================
+// Mutations that go through the offline outbox resolve with its SubmitResult;
+// the cache is only updated from server responses, except where noted as optimistic.
+
+/** PATCH the pet; the cached pet is updated optimistically and rolled back on failure */
+export const useUpdatePetMutation = (userId: string | null) => {
+    const queryClient = useQueryClient();
+    const key = queryKeys.pet(userId);
+
+    return useMutation({
+        mutationFn: (update: PetUpdate) => updateUserPet(userId, update),
+        onMutate: async (update) => {
+            await queryClient.cancelQueries({ queryKey: key });
+            const previous = queryClient.getQueryData<Pet>(key);
+            if (previous) {
+                queryClient.setQueryData<Pet>(key, { ...previous, ...update });
+            }
+            return { previous };
+        },
+        onError: (_error, _update, context) => {
+            if (context?.previous) queryClient.setQueryData(key, context.previous);
+        },
+        onSuccess: (pet) => {
+            queryClient.setQueryData(key, pet);
+        },
+    });
+};
+
+/** Log an exercise session; the response carries the updated pet */
+export const useLogExerciseMutation = (userId: string | null) => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (payload: ExerciseLogCreate) => submitOrQueue(userId, { kind: "logExercise", payload }),
+        onSuccess: (submission) => {
+            if (submission.status !== "sent") return;
+            queryClient.setQueryData(queryKeys.pet(userId), submission.result.pet);
+            // log_exercise 會更新今日累計，也影響每日任務 2、3 是否可領取
+            queryClient.invalidateQueries({ queryKey: queryKeys.dailyStats(userId) });
+            queryClient.invalidateQueries({ queryKey: queryKeys.dailyQuests(userId) });
+        },
+    });
+};
+
+/** Claim a daily quest reward; the quest is shown as claimed optimistically */
+export const useClaimDailyQuestMutation = (userId: string | null) => {
+    const queryClient = useQueryClient();
+    const key = queryKeys.dailyQuests(userId);
+
+    return useMutation({
+        mutationFn: (questId: DailyQuestId) => submitOrQueue(userId, { kind: "claimDailyQuest", payload: { questId } }),
+        onMutate: async (questId) => {
+            await queryClient.cancelQueries({ queryKey: key });
+            const previous = queryClient.getQueryData<DailyQuestStatus>(key);
+            if (previous) {
+                queryClient.setQueryData<DailyQuestStatus>(key, {
+                    ...previous,
+                    [`quest_${questId}_claimed`]: true,
+                    [`quest_${questId}_claimable`]: false,
+                });
+            }
+            return { previous };
+        },
+        onError: (error, _questId, context) => {
+            if (error instanceof ConflictError) {
+                // Already claimed elsewhere — let the backend tell us the real state
+                queryClient.invalidateQueries({ queryKey: key });
+            } else if (context?.previous) {
+                queryClient.setQueryData(key, context.previous);
+            }
+        },
+        onSuccess: (submission, _questId, context) => {
+            // Queued: keep the optimistic state until the outbox syncs
+            if (submission.status !== "sent") return;
+
+            if (!submission.result.success) {
+                if (context?.previous) queryClient.setQueryData(key, context.previous);
+                return;
+            }
+            if (submission.result.pet) {
+                queryClient.setQueryData(queryKeys.pet(userId), submission.result.pet);
+            } else {
+                queryClient.invalidateQueries({ queryKey: queryKeys.pet(userId) });
+            }
+            queryClient.invalidateQueries({ queryKey: key });
+        },
+    });
+};
+
+/** Check in at a travel quest; a placeholder check-in is cached until the server's arrives */
+export const useTravelCheckinMutation = (userId: string | null) => {
+    const queryClient = useQueryClient();
+    const key = queryKeys.checkins(userId);
+
+    return useMutation({
+        mutationFn: (payload: TravelCheckinCreate) => submitOrQueue(userId, { kind: "createTravelCheckin", payload }),
+        onMutate: async (payload) => {
+            await queryClient.cancelQueries({ queryKey: key });
+            const previous = queryClient.getQueryData<TravelCheckin[]>(key);
+            const placeholder: TravelCheckin = {
+                id: -1,
+                user_id: userId,
+                quest_id: payload.quest_id,
+                completed_at: new Date().toISOString(),
+                lat: payload.lat,
+                lng: payload.lng,
+            };
+            queryClient.setQueryData<TravelCheckin[]>(key, [...(previous ?? []), placeholder]);
+            return { previous };
+        },
+        onError: (error, _payload, context) => {
+            if (error instanceof ConflictError) {
+                queryClient.invalidateQueries({ queryKey: key });
+            } else {
+                queryClient.setQueryData(key, context?.previous);
+            }
+        },
+        onSuccess: (submission, _payload, context) => {
+            if (submission.status !== "sent") return;
+            const { pet, checkin } = submission.result;
+            queryClient.setQueryData(queryKeys.pet(userId), pet);
+            queryClient.setQueryData<TravelCheckin[]>(key, [...(context?.previous ?? []), checkin]);
+        },
+    });
+};
@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useLocation } from "@/hooks/useLocation";
+import { createGpsTracker, GpsFix, GpsTrackSummary } from "@/lib/gpsTrack";
+
+// Same cadence as the travel map; TownPass answers one location request at a time
+const GPS_SAMPLE_INTERVAL_MS = 5000;
+
+export interface GpsWorkoutResult {
+    summary: GpsTrackSummary;
+    route: Array<[number, number]>;
+}
+
+/**
+ * Samples the location every few seconds while an outdoor workout runs and
+ * feeds the fixes to a GPS tracker (see lib/gpsTrack).
+ */
+export const useGpsWorkout = () => {
+    const { getLocation } = useLocation();
+    const trackerRef = useRef(createGpsTracker());
+    const intervalRef = useRef<number | null>(null);
+    const trackingRef = useRef(false);
+    const inFlightRef = useRef(false);
+
+    const [isTracking, setIsTracking] = useState(false);
+    const [summary, setSummary] = useState<GpsTrackSummary>(() => trackerRef.current.getSummary());
+    const [route, setRoute] = useState<Array<[number, number]>>([]);
+    const [lastFix, setLastFix] = useState<GpsFix | null>(null);
+
+    const sample = useCallback(async () => {
+        if (inFlightRef.current) return;
+        inFlightRef.current = true;
+        try {
+            const location = await getLocation();
+            // A request still running when the workout stops must not extend the route
+            if (!trackingRef.current) return;
+            if (!location?.success || typeof location.latitude !== "number" || typeof location.longitude !== "number") return;
+
+            const fix: GpsFix = {
+                t: Date.now(),
+                lat: location.latitude,
+                lng: location.longitude,
+                accuracy: location.accuracy,
+                altitude: location.altitude,
+            };
+            const tracker = trackerRef.current;
+            setLastFix(fix);
+            if (tracker.add(fix) === null) setRoute(tracker.getRoute());
+            setSummary(tracker.getSummary());
+        } finally {
+            inFlightRef.current = false;
+        }
+    }, [getLocation]);
+
+    const clearTimer = () => {
+        if (intervalRef.current) {
+            window.clearInterval(intervalRef.current);
+            intervalRef.current = null;
+        }
+    };
+
+    const start = useCallback(() => {
+        clearTimer();
+        trackerRef.current.reset();
+        trackingRef.current = true;
+        setIsTracking(true);
+        setSummary(trackerRef.current.getSummary());
+        setRoute([]);
+        setLastFix(null);
+
+        sample();
+        intervalRef.current = window.setInterval(sample, GPS_SAMPLE_INTERVAL_MS);
+    }, [sample]);
+
+    /** Stop sampling and return the final track */
+    const stop = useCallback((): GpsWorkoutResult => {
+        clearTimer();
+        trackingRef.current = false;
+        setIsTracking(false);
+        return { summary: trackerRef.current.getSummary(), route: trackerRef.current.getRoute() };
+    }, []);
+
+    useEffect(() => {
+        return () => {
+            trackingRef.current = false;
+            clearTimer();
+        };
+    }, []);
+
+    return { config: trackerRef.current.config, isTracking, summary, route, lastFix, start, stop };
+};
@@ -0,0 +1,31 @@
+import { useCallback, useEffect, useState } from "react";
+import { MotionCalibration } from "@/lib/motion";
+import { clearCalibration, loadCalibration, saveCalibration, StoredCalibration } from "@/lib/motionCalibration";
+
+/**
+ * The user's motion calibration on this device (null = built-in defaults).
+ * Reloaded when the active profile changes.
+ */
+export const useMotionCalibration = (userId: string | null) => {
+    const [stored, setStored] = useState<StoredCalibration | null>(() => (userId ? loadCalibration(userId) : null));
+
+    useEffect(() => {
+        setStored(userId ? loadCalibration(userId) : null);
+    }, [userId]);
+
+    const save = useCallback(
+        (calibration: MotionCalibration) => {
+            if (!userId) return;
+            setStored(saveCalibration(userId, calibration));
+        },
+        [userId]
+    );
+
+    const reset = useCallback(() => {
+        if (!userId) return;
+        clearCalibration(userId);
+        setStored(null);
+    }, [userId]);
+
+    return { stored, calibration: stored?.calibration ?? null, save, reset };
+};
@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useState } from "react";
+import { flushOutbox, listOutbox, subscribeOutbox } from "@/lib/outbox";
+
+/**
+ * Number of queued offline actions (for one user, or all users when userId is omitted)
+ * and per user (so other and signed-out profiles' entries can be shown too),
+ * plus a manual sync trigger (only replays that user's actions, without waiting out retry delays).
+ */
+export const useOutbox = (userId?: string | null) => {
+    const [pendingCount, setPendingCount] = useState(0);
+    const [pendingByUser, setPendingByUser] = useState<Record<string, number>>({});
+    const [isSyncing, setIsSyncing] = useState(false);
+
+    useEffect(() => {
+        let cancelled = false;
+
+        const recount = async () => {
+            const entries = await listOutbox();
+            if (cancelled) return;
+            const byUser: Record<string, number> = {};
+            for (const entry of entries) byUser[entry.userId] = (byUser[entry.userId] ?? 0) + 1;
+            setPendingByUser(byUser);
+            setPendingCount(userId ? byUser[userId] ?? 0 : entries.length);
+        };
+
+        recount();
+        const unsubscribe = subscribeOutbox(() => {
+            recount();
+        });
+
+        return () => {
+            cancelled = true;
+            unsubscribe();
+        };
+    }, [userId]);
+
+    const syncNow = useCallback(async () => {
+        if (!userId) return;
+        setIsSyncing(true);
+        try {
+            await flushOutbox(userId, { force: true });
+        } catch (error) {
+            console.error("[Outbox] Sync failed:", error);
+        } finally {
+            setIsSyncing(false);
+        }
+    }, [userId]);
+
+    return { pendingCount, pendingByUser, isSyncing, syncNow };
+};
@@ -0,0 +1,62 @@
+import { useEffect, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import type { TravelCheckin } from "@/lib/api";
+import { connectPushChannel, PushStatus } from "@/lib/pushChannel";
+import { queryKeys } from "@/hooks/queries";
+
+/**
+ * Keep the user's cached pet / daily quests / check-ins in sync with the push
+ * channel. Returns the channel status so callers can poll while it isn't "open".
+ */
+export const usePushUpdates = (userId: string | null): PushStatus => {
+    const queryClient = useQueryClient();
+    const [status, setStatus] = useState<PushStatus>("connecting");
+    const hasOpenedRef = useRef(false);
+
+    useEffect(() => {
+        if (!userId) {
+            setStatus("unavailable");
+            return;
+        }
+
+        hasOpenedRef.current = false;
+        setStatus("connecting");
+
+        return connectPushChannel(userId, {
+            onStatus: (next) => {
+                if (next === "open") {
+                    // Reconnected: anything sent while we were away was missed
+                    if (hasOpenedRef.current) {
+                        queryClient.invalidateQueries({ queryKey: queryKeys.user(userId) });
+                    }
+                    hasOpenedRef.current = true;
+                }
+                setStatus(next);
+            },
+            onEvent: (event) => {
+                switch (event.type) {
+                    case "pet":
+                        queryClient.setQueryData(queryKeys.pet(userId), event.pet);
+                        break;
+                    case "quests":
+                        if (event.status) {
+                            queryClient.setQueryData(queryKeys.dailyQuests(userId), event.status);
+                        } else {
+                            queryClient.invalidateQueries({ queryKey: queryKeys.dailyQuests(userId) });
+                        }
+                        break;
+                    case "checkin":
+                        queryClient.setQueryData<TravelCheckin[]>(queryKeys.checkins(userId), (prev) => {
+                            if (!prev) return prev;
+                            // Replace our own optimistic placeholder (id -1) or a duplicate
+                            const rest = prev.filter((c) => c.id !== event.checkin.id && c.quest_id !== event.checkin.quest_id);
+                            return [...rest, event.checkin];
+                        });
+                        break;
+                }
+            },
+        });
+    }, [userId, queryClient]);
+
+    return status;
+};
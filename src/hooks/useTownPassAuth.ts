@@ -2,16 +2,10 @@
  * Simplified useTownPassAuth hook for TownPass flutterObject integration
  */
 
-import { useCallback, useRef, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { bridge, BridgeAbortedError, BridgeTimeoutError, BridgeUnavailableError, isTownPassUser, TownPassUser } from "@/lib/townpassBridge";
 
-export type TownPassUser = {
-  id?: string;
-  name?: string;
-  email?: string;
-  phone?: string;
-  token?: string;
-  [key: string]: unknown;
-};
+export type { TownPassUser };
 
 export function useTownPassAuth(opts?: { debug?: boolean; timeout?: number }) {
   const debug = opts?.debug ?? false;
@@ -21,8 +15,8 @@ export function useTownPassAuth(opts?: { debug?: boolean; timeout?: number }) {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const listenerRef = useRef<((event: MessageEvent) => void) | null>(null);
-  const timeoutRef = useRef<number | null>(null);
+  // Aborts the in-flight request on reset, re-request or unmount
+  const controllerRef = useRef<AbortController | null>(null);
 
   const log = useCallback(
     (...args: unknown[]) => {
@@ -32,82 +26,50 @@ export function useTownPassAuth(opts?: { debug?: boolean; timeout?: number }) {
   );
 
   const cleanup = useCallback(() => {
-    if (listenerRef.current && window.flutterObject) {
-      window.flutterObject.removeEventListener("message", listenerRef.current);
-      listenerRef.current = null;
-    }
-    if (timeoutRef.current) {
-      clearTimeout(timeoutRef.current);
-      timeoutRef.current = null;
-    }
+    controllerRef.current?.abort();
+    controllerRef.current = null;
   }, []);
 
+  useEffect(() => cleanup, [cleanup]);
+
   const requestTownPassUser = useCallback(async (): Promise<TownPassUser | null> => {
     log("Requesting user info from TownPass...");
+    cleanup();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
     setIsLoading(true);
     setError(null);
 
-    if (!window.flutterObject) {
-      const errorMsg = "TownPass flutterObject not available";
-      log(errorMsg);
-      setError(errorMsg);
+    try {
+      const userData = await bridge.call("userinfo", null, { timeoutMs, signal: controller.signal });
+      log("Received userinfo:", userData);
+      // An error payload (e.g. nobody signed in to TownPass) is not a user
+      if (!isTownPassUser(userData)) {
+        const reason = userData?.error ?? userData?.message;
+        setUser(null);
+        setError(typeof reason === "string" ? reason : "TownPass returned no user");
+        setIsLoading(false);
+        return null;
+      }
+      setUser(userData);
       setIsLoading(false);
-      return null;
-    }
-
-    return new Promise((resolve) => {
-      cleanup();
-
-      const handleMessage = (event: MessageEvent) => {
-        try {
-          log("Received message:", event.data);
-          const response = typeof event.data === "string" ? JSON.parse(event.data) : event.data;
-
-          if (response.name === "userinfo") {
-            log("Received userinfo:", response.data);
-            cleanup();
-
-            let userData = response.data;
-            if (typeof userData === "string") {
-              userData = JSON.parse(userData);
-            }
-
-            setUser(userData);
-            setIsLoading(false);
-            resolve(userData);
-          }
-        } catch (err) {
-          log("Error parsing response:", err);
-          setError("Failed to parse user info");
-          setIsLoading(false);
-          cleanup();
-          resolve(null);
-        }
-      };
-
-      listenerRef.current = handleMessage;
-      window.flutterObject.addEventListener("message", handleMessage);
-
-      timeoutRef.current = window.setTimeout(() => {
-        log("Request timed out");
+      return userData;
+    } catch (err) {
+      if (err instanceof BridgeAbortedError) return null;
+      log("Request failed:", err);
+      if (err instanceof BridgeUnavailableError) {
+        setError("TownPass flutterObject not available");
+      } else if (err instanceof BridgeTimeoutError) {
         setError("Request timed out");
-        setIsLoading(false);
-        cleanup();
-        resolve(null);
-      }, timeoutMs);
-
-      try {
-        const message = JSON.stringify({ name: "userinfo", data: null });
-        log("Sending request:", message);
-        window.flutterObject.postMessage(message);
-      } catch (err) {
-        log("Error sending request:", err);
+      } else {
         setError("Failed to send request");
-        setIsLoading(false);
-        cleanup();
-        resolve(null);
       }
-    });
+      setIsLoading(false);
+      return null;
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null;
+    }
   }, [cleanup, log, timeoutMs]);
 
   const reset = useCallback(() => {
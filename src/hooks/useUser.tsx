@@ -1,112 +1,154 @@
-import { createContext, useContext, useState, useEffect, useRef, useCallback, ReactNode } from "react";
-import { User, Pet, getUserPet } from "@/lib/api";
+import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Pet } from "@/lib/api";
+import { NotFoundError, UnauthorizedError } from "@/lib/apiErrors";
+import { setAuthToken } from "@/lib/apiClient";
+import {
+  loadProfiles,
+  loadSession,
+  removeProfile,
+  saveSession,
+  upgradeGuestAccount,
+  upsertProfile,
+  Profile,
+  Session,
+} from "@/lib/session";
+import { GUEST_USER_ID, isGuestUserId } from "@/lib/guestStore";
+import type { TownPassUser } from "@/lib/townpassBridge";
+import { queryKeys, usePetQuery } from "@/hooks/queries";
+import { usePushUpdates } from "@/hooks/usePushUpdates";
+import type { PushStatus } from "@/lib/pushChannel";
+import { startOutboxSync, subscribeOutbox } from "@/lib/outbox";
+import { toast } from "sonner";
 
 interface UserContextType {
   userId: string | null;
-  setUserId: (id: string | null) => void;
+  /** Bearer token of the current session (null for browser accounts) */
+  authToken: string | null;
+  /** Start a session (see lib/session); replaces any current one */
+  signIn: (session: Session) => void;
+  /** End the session, forget the profile on this device and drop its cached values */
+  logout: () => void;
+  /** Every pet signed in on this device, active one included */
+  profiles: Profile[];
+  /** Make another profile active; each keeps its own caches and offline outbox */
+  switchProfile: (userId: string) => void;
+  /** Leave the active profile (kept in the list) to create or sign in another one */
+  startNewProfile: () => void;
+  /** Playing locally without an account (see lib/guestStore) */
+  isGuest: boolean;
+  /** Move the guest's pet and history to this TownPass account and sign in to it */
+  upgradeGuest: (townpassUser: TownPassUser) => Promise<void>;
   pet: Pet | null;
   setPet: (pet: Pet | null) => void;
   refreshPet: () => Promise<void>;
   isLoading: boolean;
+  /** "open" when pet updates arrive live; otherwise the pet is polled */
+  pushStatus: PushStatus;
 }
 
 const UserContext = createContext<UserContextType | undefined>(undefined);
 
 export function UserProvider({ children }: { children: ReactNode }) {
-  const [userId, setUserId] = useState<string | null>(() => {
-    // Load from localStorage
-    const saved = localStorage.getItem("userId");
-    return saved || null;
+  const [session, setSession] = useState<Session | null>(() => {
+    // Load from localStorage; the token must be set before the first query runs
+    const saved = loadSession();
+    setAuthToken(saved?.authToken ?? null);
+    return saved;
   });
-  const [pet, setPet] = useState<Pet | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
-
-  // Save userId to localStorage when it changes
-  useEffect(() => {
-    if (userId !== null) {
-      localStorage.setItem("userId", userId);
-    } else {
-      localStorage.removeItem("userId");
-    }
-  }, [userId]);
-
-  // Fetch pet data when userId changes
-  const refreshPet = useCallback(async () => {
-    if (!userId) {
-      setPet(null);
-      return;
+  const userId = session?.userId ?? null;
+  const authToken = session?.authToken ?? null;
+  const isGuest = isGuestUserId(userId);
+  const queryClient = useQueryClient();
+  // Sessions saved before profiles existed are added on first load
+  const [profiles, setProfiles] = useState<Profile[]>(() => (session ? upsertProfile(session) : loadProfiles()));
+
+  const activate = useCallback((next: Session | null) => {
+    saveSession(next);
+    setAuthToken(next?.authToken ?? null);
+    setSession(next);
+  }, []);
+
+  const signIn = useCallback((next: Session) => {
+    setProfiles(upsertProfile(next));
+    activate(next);
+  }, [activate]);
+
+  // Other profiles' cached queries are kept; only the active one's are observed (and polled)
+  const switchProfile = useCallback((nextUserId: string) => {
+    const profile = profiles.find((p) => p.userId === nextUserId);
+    if (!profile) return;
+    activate({ userId: profile.userId, authToken: profile.authToken });
+  }, [profiles, activate]);
+
+  const startNewProfile = useCallback(() => activate(null), [activate]);
+
+  const logout = useCallback(() => {
+    if (userId) {
+      setProfiles(removeProfile(userId));
+      queryClient.removeQueries({ queryKey: queryKeys.user(userId) });
     }
-
-    setIsLoading(true);
-    try {
-      const petData = await getUserPet(userId);
-      setPet(petData);
-    } catch (error) {
+    activate(null);
+  }, [userId, queryClient, activate]);
+
+  const upgradeGuest = useCallback(async (townpassUser: TownPassUser) => {
+    const next = await upgradeGuestAccount(townpassUser);
+    queryClient.removeQueries({ queryKey: queryKeys.user(GUEST_USER_ID) });
+    removeProfile(GUEST_USER_ID);
+    signIn(next);
+  }, [queryClient, signIn]);
+
+  // Pet / quest / check-in changes are pushed over the event stream. Polling
+  // (paused while the document is hidden) only runs while the stream is down.
+  // A guest's data only changes locally, so there is nothing to listen for.
+  const pushStatus = usePushUpdates(isGuest ? null : userId);
+  const petQuery = usePetQuery(userId, { poll: !isGuest && pushStatus !== "open" });
+  const pet = userId ? petQuery.data ?? null : null;
+
+  // If pet not found or the token was rejected, end the session and redirect to welcome
+  useEffect(() => {
+    const error = petQuery.error;
+    if (error instanceof NotFoundError || error instanceof UnauthorizedError) {
       console.error("Failed to fetch pet:", error);
-      // If pet not found, clear userId and redirect to welcome
-      if (error instanceof Error && error.message.includes("not found")) {
-        setUserId(null);
-        setPet(null);
-      }
-    } finally {
-      setIsLoading(false);
+      if (error instanceof UnauthorizedError) toast.error("登入已失效，請重新登入");
+      logout();
     }
-  }, [userId]);
-
-  // Polling: periodically refresh pet from backend to keep stats up-to-date.
-  // Enabled by default for option 1 behavior. Polling will pause when the
-  // document is hidden to save resources and resume (with an immediate
-  // refresh) when the page becomes visible again.
-  const pollingRef = useRef<number | null>(null);
-  const enablePolling = true; // set to false to disable automatic polling
-  const pollIntervalMs = 30000; // 30s
+  }, [petQuery.error, logout]);
 
+  // Keep the switcher's name / sprite / level in step with the active pet
   useEffect(() => {
-    if (!enablePolling || !userId) return;
-
-    const startPolling = () => {
-      // Immediately refresh once
-      refreshPet();
-      // start interval
-      pollingRef.current = window.setInterval(() => {
-        refreshPet();
-      }, pollIntervalMs) as unknown as number;
-    };
-
-    const stopPolling = () => {
-      if (pollingRef.current) {
-        clearInterval(pollingRef.current);
-        pollingRef.current = null;
-      }
-    };
-
-    const handleVisibility = () => {
-      if (document.hidden) {
-        stopPolling();
-      } else {
-        // visible again: refresh immediately and restart polling
-        startPolling();
-      }
-    };
+    if (!session || !pet) return;
+    const profile = profiles.find((p) => p.userId === session.userId);
+    if (profile && profile.petName === pet.name && profile.stage === pet.stage && profile.level === pet.level) return;
+    setProfiles(upsertProfile(session, pet));
+  }, [session, pet, profiles]);
+
+  const setPet = useCallback((next: Pet | null) => {
+    queryClient.setQueryData(queryKeys.pet(userId), next);
+  }, [queryClient, userId]);
 
-    startPolling();
-    document.addEventListener("visibilitychange", handleVisibility);
+  const refreshPet = useCallback(async () => {
+    if (!userId) return;
+    await queryClient.invalidateQueries({ queryKey: queryKeys.pet(userId) });
+  }, [queryClient, userId]);
 
-    return () => {
-      stopPolling();
-      document.removeEventListener("visibilitychange", handleVisibility);
-    };
-  }, [enablePolling, userId, refreshPet]);
+  // Offline outbox: replay the active profile's queued exercise logs / check-ins /
+  // claims on reconnect, and refetch the cached pet / stats / quests once one lands
+  useEffect(() => (userId ? startOutboxSync(userId) : undefined), [userId]);
 
   useEffect(() => {
-    if (userId) {
-      refreshPet();
-    }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [userId]);
+    return subscribeOutbox((event) => {
+      if (event.type === "synced" && event.entry.userId === userId) {
+        toast.success("離線紀錄已同步");
+        queryClient.invalidateQueries({ queryKey: queryKeys.user(userId) });
+      } else if (event.type === "dropped" && event.entry.userId === userId) {
+        toast.error(`離線紀錄同步失敗：${event.error.message}`);
+      }
+    });
+  }, [userId, queryClient]);
 
   return (
-    <UserContext.Provider value={{ userId, setUserId, pet, setPet, refreshPet, isLoading }}>
+    <UserContext.Provider value={{ userId, authToken, signIn, logout, profiles, switchProfile, startNewProfile, isGuest, upgradeGuest, pet, setPet, refreshPet, isLoading: petQuery.isLoading, pushStatus }}>
       {children}
     </UserContext.Provider>
   );
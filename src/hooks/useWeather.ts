@@ -1,4 +1,6 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
+import { useLocation } from '@/hooks/useLocation';
+import { getWeather, isFresh, isRaining, WEATHER_CACHE_TTL_MS, WeatherReport } from '@/lib/weather';
 
 // 全局天氣狀態
 let globalManualRain = false;
@@ -30,3 +32,86 @@ export const useManualRain = () => {
 
     return { manualRain, setManualRain: setManualRainGlobal };
 };
+
+// 全局天氣報告：所有頁面共用同一份，位置與快取由 lib/weather 處理
+interface WeatherState {
+    report: WeatherReport | null;
+    loading: boolean;
+    error: string | null;
+}
+
+let globalWeather: WeatherState = { report: null, loading: false, error: null };
+const weatherListeners: Set<(state: WeatherState) => void> = new Set();
+// 同時掛載的頁面共用一次定位與查詢
+let pendingRefresh: Promise<void> | null = null;
+
+const setGlobalWeather = (patch: Partial<WeatherState>) => {
+    globalWeather = { ...globalWeather, ...patch };
+    weatherListeners.forEach(listener => listener(globalWeather));
+};
+
+export interface UseWeatherReturn extends WeatherState {
+    /** Locate and fetch again; `force` skips the cache */
+    refresh: (force?: boolean) => Promise<void>;
+}
+
+/**
+ * Current conditions and the next 12 hours where the user is.
+ * With autoFetch it fetches on mount and again whenever the report goes stale.
+ */
+export const useWeather = ({ autoFetch = true }: { autoFetch?: boolean } = {}): UseWeatherReturn => {
+    const [state, setState] = useState(globalWeather);
+    const { getLocation } = useLocation();
+
+    useEffect(() => {
+        weatherListeners.add(setState);
+        setState(globalWeather);
+        return () => {
+            weatherListeners.delete(setState);
+        };
+    }, []);
+
+    const refresh = useCallback((force = false): Promise<void> => {
+        if (pendingRefresh) return pendingRefresh;
+
+        setGlobalWeather({ loading: true, error: null });
+        pendingRefresh = (async () => {
+            try {
+                const location = await getLocation();
+                if (!location?.success || location.latitude === undefined || location.longitude === undefined) {
+                    setGlobalWeather({ loading: false, error: '無法取得位置' });
+                    return;
+                }
+                const report = await getWeather(location.latitude, location.longitude, { force });
+                setGlobalWeather({ report, loading: false });
+            } catch (err) {
+                console.error('天氣查詢失敗:', err);
+                setGlobalWeather({ loading: false, error: '天氣查詢失敗' });
+            } finally {
+                pendingRefresh = null;
+            }
+        })();
+        return pendingRefresh;
+    }, [getLocation]);
+
+    useEffect(() => {
+        if (!autoFetch) return;
+        if (!isFresh(globalWeather.report)) refresh();
+        const timer = window.setInterval(() => refresh(), WEATHER_CACHE_TTL_MS);
+        return () => window.clearInterval(timer);
+    }, [autoFetch, refresh]);
+
+    return { ...state, refresh };
+};
+
+/**
+ * Whether it's raining, for the rain bonus and the rain animation:
+ * the detected weather, or the manual switch for testing.
+ */
+export const useRaining = () => {
+    const { manualRain, setManualRain } = useManualRain();
+    const weather = useWeather();
+    const detected = weather.report ? isRaining(weather.report.current) : false;
+
+    return { raining: manualRain || detected, detected, manualRain, setManualRain, weather };
+};
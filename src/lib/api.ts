@@ -1,141 +1,105 @@
-// API Base URL
-// Use proxy in development and production (via Vercel rewrites) to avoid CORS issues
-const API_BASE_URL = "https://back-end-production-68f7.up.railway.app";
+import { z } from "zod";
+import { apiRequest, ApiRequestOptions, RequestPolicy } from "@/lib/apiClient";
+import {
+    AttractionSchema,
+    BreakthroughResultSchema,
+    ClaimQuestResultSchema,
+    DailyCheckResultSchema,
+    DailyQuestStatusSchema,
+    DailyStatsSchema,
+    ExerciseLogSchema,
+    ExerciseResultSchema,
+    LeaderboardEntrySchema,
+    PetSchema,
+    QuestSchema,
+    TravelCheckinResultSchema,
+    TravelCheckinSchema,
+    UserQuestSchema,
+    UserSchema,
+} from "@/lib/schemas";
+import { guestApi, isGuestUserId } from "@/lib/guestStore";
+
+// Base URL and environment profiles live in ./apiConfig; every call below goes through apiRequest,
+// except user calls for the local-only guest (see ./guestStore)
 
 // ==================
-// Types (matching backend schemas)
+// Types (inferred from ./schemas, the single source of truth for responses)
 // ==================
 
-export interface User {
-    id: string;  // TownPass user ID (string)
-    created_at: string;
-    pet?: Pet;
-    exercise_logs?: ExerciseLog[];
-}
+export type User = z.infer<typeof UserSchema>;
+export type Pet = z.infer<typeof PetSchema>;
+export type ExerciseLog = z.infer<typeof ExerciseLogSchema>;
+export type ExerciseResult = z.infer<typeof ExerciseResultSchema>;
+export type Quest = z.infer<typeof QuestSchema>;
+export type UserQuest = z.infer<typeof UserQuestSchema>;
+export type Attraction = z.infer<typeof AttractionSchema>;
+export type LeaderboardEntry = z.infer<typeof LeaderboardEntrySchema>;
+export type DailyCheckResult = z.infer<typeof DailyCheckResultSchema>;
+export type BreakthroughResult = z.infer<typeof BreakthroughResultSchema>;
+export type TravelCheckin = z.infer<typeof TravelCheckinSchema>;
+export type TravelCheckinResult = z.infer<typeof TravelCheckinResultSchema>;
+
+// 每日統計
+export type DailyStats = z.infer<typeof DailyStatsSchema>;
+
+// 每日任務相關（匹配後端實際返回格式）
+export type DailyQuestStatus = z.infer<typeof DailyQuestStatusSchema>;
+export type ClaimQuestResult = z.infer<typeof ClaimQuestResultSchema>;
+
+// Request bodies
 
 export interface UserCreate {
     pet_name: string;
     user_id?: string;  // TownPass user ID (optional for now, will be required later)
 }
 
-export interface Pet {
-    id: number;
-    owner_id: string;  // References User.id which is a string
-    name: string;
-    strength: number;
-    stamina: number;
-    mood: number;
-    level: number;
-    stage: number;
-    breakthrough_completed: boolean;
-    updated_at: string;
-    last_daily_check?: string | null;
-    daily_steps?: number;  // 今日步數
-    daily_exercise_seconds?: number;  // 今日運動秒數
-    daily_quest_1_completed?: boolean;
-    daily_quest_2_completed?: boolean;
-    daily_quest_3_completed?: boolean;
-}
-
+// Stats only change through the endpoints that earn them (exercise, quests,
+// check-ins, breakthrough), which apply lib/rewardRules on the backend
 export interface PetUpdate {
     name?: string;
-    strength?: number;
-    stamina?: number;
-    mood?: number;
-    level?: number;
-    stage?: number;
-    breakthrough_completed?: boolean;
 }
 
-export interface ExerciseLog {
-    id: number;
-    exercise_type: string;
-    duration_seconds: number;
-    volume: number;
-    created_at: string;
-    user_id: string;  // References User.id which is a string
-    pet_id: number;
+export interface ExcludedSegmentLog {
+    /** Workout seconds, [start_sec, end_sec) */
+    start_sec: number;
+    end_sec: number;
+    steps: number;
+    /** PlausibilityReason: "cadence" | "periodic" | "gps_mismatch" | "sustained" */
+    reason: string;
 }
 
 export interface ExerciseLogCreate {
+    /** Activity the session was mostly spent on */
     exercise_type: string;
     duration_seconds: number;
     steps: number;
+    /** Seconds per detected activity, e.g. { running: 1150, walking: 50 } (see lib/motion ACTIVITIES) */
+    activity_breakdown?: Record<string, number>;
+    /** Outdoor (GPS) workouts only */
+    distance_meters?: number;
+    elevation_gain_meters?: number;
+    /** Route as a Google encoded polyline (precision 5), see lib/gpsTrack */
+    route_polyline?: string;
+    /** Workout program the session followed (see lib/workoutPrograms) */
+    program_id?: string;
+    /** Ran to the end of the program's last phase */
+    program_completed?: boolean;
+    /** Share of the checked phase time spent on the target activity, 0–1 */
+    program_compliance?: number;
+    /** ISO 8601; decides the morning bonus. The backend assumes now − duration when missing */
+    started_at?: string;
+    /** Rain during the workout, for the rain bonus */
+    raining?: boolean;
+    /** Stretches flagged by lib/plausibility; their time and steps earn nothing */
+    excluded_segments?: ExcludedSegmentLog[];
+    /** Replayed from guest mode (lib/session upgradeGuestAccount): earns its rewards but doesn't count toward today's quests */
+    migrated_from_guest?: boolean;
 }
 
-export interface ExerciseResult {
-    pet: Pet;
-    breakthrough_required: boolean;
-    message?: string;
-}
-
-export interface Quest {
-    id: number;
-    title: string;
-    description: string;
-    reward_strength: number;
-    reward_stamina: number;
-    reward_mood: number;
-}
-
-export interface UserQuest {
-    id: number;
-    user_id: string;  // References User.id which is a string
-    quest_id: number;
-    is_completed: boolean;
-    date: string;
-    quest: Quest;
-}
-
-export interface Attraction {
-    id: number;
-    name: string;
-    description: string;
-    latitude: number;
-    longitude: number;
-    image_url?: string;
-}
-
-export interface LeaderboardEntry {
-    username: string;
-    value: number;
-}
-
-export interface DailyCheckResult {
-    pet: Pet;
-    exercised_enough: boolean;
-    message: string;
-}
-
-export interface BreakthroughResult {
-    success: boolean;
-    pet: Pet;
-    message: string;
-}
-
-// 每日統計
-export interface DailyStats {
-    daily_exercise_seconds: number;
-    daily_steps: number;
-    last_reset_date: string | null;
-}
-
-// 每日任務相關（匹配後端實際返回格式）
-export interface DailyQuestStatus {
-    quest_1_completed: boolean;
-    quest_2_completed: boolean;
-    quest_3_completed: boolean;
-}
-
-export interface ClaimQuestResult {
-    success: boolean;
-    message: string;
-    pet?: Pet;
-    rewards?: {
-        strength: number;
-        stamina: number;
-        mood: number;
-    };
+export interface TravelCheckinCreate {
+    quest_id: string;
+    lat: number;
+    lng: number;
 }
 
 // 累計統計相關（後端未實作，暫時保留介面）
@@ -149,203 +113,201 @@ export interface ExerciseStats {
     this_week_steps: number;  // 本週步數
 }
 
-export interface TravelCheckin {
-    id: number;
-    user_id: string;  // References User.id which is a string
-    quest_id: string;
-    completed_at: string;
-    lat: number;
-    lng: number;
-}
-
-export interface TravelCheckinCreate {
-    quest_id: string;
-    lat: number;
-    lng: number;
-}
-
 // ==================
 // API Functions
 // ==================
 
+// Per-call options: cancel with `signal` (e.g. on unmount), override the endpoint policy,
+// or tag a mutation with an idempotency key (see ./outbox)
+export type CallOptions = Pick<ApiRequestOptions, "signal" | "policy" | "idempotencyKey">;
+
+// Per-endpoint timeouts / retries on top of the client's read (GET) and write defaults
+export const ENDPOINT_POLICIES = {
+    createUser: {},
+    getUser: {},
+    getUserPet: { timeoutMs: 8000 },  // polled in the background; fail fast and retry
+    getDailyStats: {},
+    updateUserPet: {},
+    logExercise: { timeoutMs: 30000 },  // a whole workout rides on this call; give slow networks time
+    getDailyQuests: {},
+    completeDailyQuest: {},
+    performDailyCheck: {},
+    getAllAttractions: { timeoutMs: 15000 },
+    startTravelQuest: {},
+    completeBreakthrough: { timeoutMs: 20000 },
+    getUserTravelCheckins: {},
+    createTravelCheckin: { timeoutMs: 20000 },
+    getLevelLeaderboard: { retries: 1 },
+    getUserDailyQuests: {},
+    claimDailyQuest: {},
+} satisfies Record<string, Partial<RequestPolicy>>;
+
+function withPolicy(endpoint: keyof typeof ENDPOINT_POLICIES, options: CallOptions): CallOptions {
+    return {
+        signal: options.signal,
+        idempotencyKey: options.idempotencyKey,
+        policy: { ...ENDPOINT_POLICIES[endpoint], ...options.policy },
+    };
+}
+
 // User & Auth
-export async function createUser(pet_name: string, townpass_id?: string): Promise<User> {
+export async function createUser(pet_name: string, townpass_id?: string, options: CallOptions = {}): Promise<User> {
     const body: UserCreate = { pet_name };
     if (townpass_id) {
         body.user_id = townpass_id;
     }
 
-    const response = await fetch(`${API_BASE_URL}/users/`, {
+    return apiRequest(`/users/`, {
         method: "POST",
-        headers: {
-            "Content-Type": "application/json",
-        },
-        body: JSON.stringify(body),
+        body,
+        schema: UserSchema,
+        errorMessage: "Failed to create user",
+        ...withPolicy("createUser", options),
     });
-    if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.detail || "Failed to create user");
-    }
-    return response.json();
 }
 
-export async function getUser(userId: string): Promise<User> {
-    const response = await fetch(`${API_BASE_URL}/users/${userId}`);
-    if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.detail || "Failed to get user");
-    }
-    return response.json();
+export async function getUser(userId: string, options: CallOptions = {}): Promise<User> {
+    if (isGuestUserId(userId)) return guestApi.getUser();
+    return apiRequest(`/users/${userId}`, {
+        schema: UserSchema,
+        errorMessage: "Failed to get user",
+        ...withPolicy("getUser", options),
+    });
 }
 
 // Pet
-export async function getUserPet(userId: string): Promise<Pet> {
-    const response = await fetch(`${API_BASE_URL}/users/${userId}/pet`);
-    if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.detail || "Failed to get pet");
-    }
-    return response.json();
+export async function getUserPet(userId: string, options: CallOptions = {}): Promise<Pet> {
+    if (isGuestUserId(userId)) return guestApi.getUserPet();
+    return apiRequest(`/users/${userId}/pet`, {
+        schema: PetSchema,
+        errorMessage: "Failed to get pet",
+        ...withPolicy("getUserPet", options),
+    });
 }
 
-export async function getDailyStats(userId: string): Promise<DailyStats> {
-    const response = await fetch(`${API_BASE_URL}/users/${userId}/daily-stats`);
-    if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.detail || "Failed to get daily stats");
-    }
-    return response.json();
+export async function getDailyStats(userId: string, options: CallOptions = {}): Promise<DailyStats> {
+    if (isGuestUserId(userId)) return guestApi.getDailyStats();
+    return apiRequest(`/users/${userId}/daily-stats`, {
+        schema: DailyStatsSchema,
+        errorMessage: "Failed to get daily stats",
+        ...withPolicy("getDailyStats", options),
+    });
 }
 
-export async function updateUserPet(userId: string, petUpdate: PetUpdate): Promise<Pet> {
-    const response = await fetch(`${API_BASE_URL}/users/${userId}/pet`, {
+export async function updateUserPet(userId: string, petUpdate: PetUpdate, options: CallOptions = {}): Promise<Pet> {
+    if (isGuestUserId(userId)) return guestApi.updateUserPet(petUpdate);
+    return apiRequest(`/users/${userId}/pet`, {
         method: "PATCH",
-        headers: {
-            "Content-Type": "application/json",
-        },
-        body: JSON.stringify(petUpdate),
+        body: petUpdate,
+        schema: PetSchema,
+        errorMessage: "Failed to update pet",
+        ...withPolicy("updateUserPet", options),
     });
-    if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.detail || "Failed to update pet");
-    }
-    return response.json();
 }
 
 // Exercise
-export async function logExercise(userId: string, log: ExerciseLogCreate): Promise<ExerciseResult> {
-    const response = await fetch(`${API_BASE_URL}/users/${userId}/exercise`, {
+export async function logExercise(userId: string, log: ExerciseLogCreate, options: CallOptions = {}): Promise<ExerciseResult> {
+    if (isGuestUserId(userId)) return guestApi.logExercise(log);
+    return apiRequest(`/users/${userId}/exercise`, {
         method: "POST",
-        headers: {
-            "Content-Type": "application/json",
-        },
-        body: JSON.stringify(log),
+        body: log,
+        schema: ExerciseResultSchema,
+        errorMessage: "Failed to log exercise",
+        ...withPolicy("logExercise", options),
     });
-    if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.detail || "Failed to log exercise");
-    }
-    return response.json();
 }
 
 // Daily Quests
-export async function getDailyQuests(userId: string): Promise<UserQuest[]> {
-    const response = await fetch(`${API_BASE_URL}/users/${userId}/quests`);
-    if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.detail || "Failed to get daily quests");
-    }
-    return response.json();
+export async function getDailyQuests(userId: string, options: CallOptions = {}): Promise<UserQuest[]> {
+    if (isGuestUserId(userId)) return guestApi.getDailyQuests();
+    return apiRequest(`/users/${userId}/quests`, {
+        schema: z.array(UserQuestSchema),
+        errorMessage: "Failed to get daily quests",
+        ...withPolicy("getDailyQuests", options),
+    });
 }
 
-export async function completeDailyQuest(userId: string, userQuestId: number): Promise<ExerciseResult> {
-    const response = await fetch(`${API_BASE_URL}/users/${userId}/quests/${userQuestId}/complete`, {
+export async function completeDailyQuest(userId: string, userQuestId: number, options: CallOptions = {}): Promise<ExerciseResult> {
+    if (isGuestUserId(userId)) return guestApi.completeDailyQuest();
+    return apiRequest(`/users/${userId}/quests/${userQuestId}/complete`, {
         method: "POST",
+        schema: ExerciseResultSchema,
+        errorMessage: "Failed to complete quest",
+        ...withPolicy("completeDailyQuest", options),
     });
-    if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.detail || "Failed to complete quest");
-    }
-    return response.json();
 }
 
 // Daily Check
-export async function performDailyCheck(userId: string): Promise<DailyCheckResult> {
-    const response = await fetch(`${API_BASE_URL}/users/${userId}/daily-check`, {
+export async function performDailyCheck(userId: string, options: CallOptions = {}): Promise<DailyCheckResult> {
+    if (isGuestUserId(userId)) return guestApi.performDailyCheck();
+    return apiRequest(`/users/${userId}/daily-check`, {
         method: "POST",
+        schema: DailyCheckResultSchema,
+        errorMessage: "Failed to perform daily check",
+        ...withPolicy("performDailyCheck", options),
     });
-    if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.detail || "Failed to perform daily check");
-    }
-    return response.json();
 }
 
 // Travel (Breakthrough)
-export async function getAllAttractions(): Promise<Attraction[]> {
-    const response = await fetch(`${API_BASE_URL}/travel/attractions`);
-    if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.detail || "Failed to get attractions");
-    }
-    return response.json();
+// Public: takes no user id, so guests read the same list from the backend
+export async function getAllAttractions(options: CallOptions = {}): Promise<Attraction[]> {
+    return apiRequest(`/travel/attractions`, {
+        schema: z.array(AttractionSchema),
+        errorMessage: "Failed to get attractions",
+        ...withPolicy("getAllAttractions", options),
+    });
 }
 
-export async function startTravelQuest(userId: string): Promise<Attraction> {
-    const response = await fetch(`${API_BASE_URL}/users/${userId}/travel/start`, {
+export async function startTravelQuest(userId: string, options: CallOptions = {}): Promise<Attraction> {
+    if (isGuestUserId(userId)) return guestApi.startTravelQuest();
+    return apiRequest(`/users/${userId}/travel/start`, {
         method: "POST",
+        schema: AttractionSchema,
+        errorMessage: "Failed to start travel quest",
+        ...withPolicy("startTravelQuest", options),
     });
-    if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.detail || "Failed to start travel quest");
-    }
-    return response.json();
 }
 
-export async function completeBreakthrough(userId: string): Promise<BreakthroughResult> {
-    const response = await fetch(`${API_BASE_URL}/users/${userId}/travel/breakthrough`, {
+export async function completeBreakthrough(userId: string, options: CallOptions = {}): Promise<BreakthroughResult> {
+    if (isGuestUserId(userId)) return guestApi.completeBreakthrough();
+    return apiRequest(`/users/${userId}/travel/breakthrough`, {
         method: "POST",
+        schema: BreakthroughResultSchema,
+        errorMessage: "Failed to complete breakthrough",
+        ...withPolicy("completeBreakthrough", options),
     });
-    if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.detail || "Failed to complete breakthrough");
-    }
-    return response.json();
 }
 
 // Travel Checkins (Location-based quests)
-export async function getUserTravelCheckins(userId: string): Promise<TravelCheckin[]> {
-    const response = await fetch(`${API_BASE_URL}/users/${userId}/travel/checkins`);
-    if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.detail || "Failed to get travel checkins");
-    }
-    return response.json();
+export async function getUserTravelCheckins(userId: string, options: CallOptions = {}): Promise<TravelCheckin[]> {
+    if (isGuestUserId(userId)) return guestApi.getUserTravelCheckins();
+    return apiRequest(`/users/${userId}/travel/checkins`, {
+        schema: z.array(TravelCheckinSchema),
+        errorMessage: "Failed to get travel checkins",
+        ...withPolicy("getUserTravelCheckins", options),
+    });
 }
 
-export async function createTravelCheckin(userId: string, checkin: TravelCheckinCreate): Promise<{ pet: Pet; checkin: TravelCheckin }> {
-    const response = await fetch(`${API_BASE_URL}/users/${userId}/travel/checkins`, {
+export async function createTravelCheckin(userId: string, checkin: TravelCheckinCreate, options: CallOptions = {}): Promise<TravelCheckinResult> {
+    if (isGuestUserId(userId)) return guestApi.createTravelCheckin(checkin);
+    return apiRequest(`/users/${userId}/travel/checkins`, {
         method: "POST",
-        headers: {
-            "Content-Type": "application/json",
-        },
-        body: JSON.stringify(checkin),
+        body: checkin,
+        schema: TravelCheckinResultSchema,
+        errorMessage: "Failed to create travel checkin",
+        ...withPolicy("createTravelCheckin", options),
     });
-    if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.detail || "Failed to create travel checkin");
-    }
-    return response.json();
 }
 
 // Leaderboard
-export async function getLevelLeaderboard(limit: number = 10): Promise<LeaderboardEntry[]> {
-    const response = await fetch(`${API_BASE_URL}/leaderboard/level?limit=${limit}`);
-    if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.detail || "Failed to get leaderboard");
-    }
-    return response.json();
+// Public: takes no user id; a guest's pet is local and not on the board
+export async function getLevelLeaderboard(limit: number = 10, options: CallOptions = {}): Promise<LeaderboardEntry[]> {
+    return apiRequest(`/leaderboard/level`, {
+        query: { limit },
+        schema: z.array(LeaderboardEntrySchema),
+        errorMessage: "Failed to get leaderboard",
+        ...withPolicy("getLevelLeaderboard", options),
+    });
 }
 
 // Helper function to map stage number to stage name
@@ -365,28 +327,28 @@ export function getStageName(stage: number): "egg" | "small" | "medium" | "large
 // ==================
 
 // 獲取用戶每日任務狀態
-export async function getUserDailyQuests(userId: string): Promise<DailyQuestStatus> {
-    const response = await fetch(`${API_BASE_URL}/users/${userId}/daily-quests`);
-    if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.detail || "Failed to get daily quests");
-    }
-    return response.json();
+export async function getUserDailyQuests(userId: string, options: CallOptions = {}): Promise<DailyQuestStatus> {
+    if (isGuestUserId(userId)) return guestApi.getUserDailyQuests();
+    return apiRequest(`/users/${userId}/daily-quests`, {
+        schema: DailyQuestStatusSchema,
+        errorMessage: "Failed to get daily quests",
+        ...withPolicy("getUserDailyQuests", options),
+    });
 }
 
 // 領取任務獎勵（後端會檢查任務是否完成）
 export async function claimDailyQuest(
     userId: string,
-    questId: number
+    questId: number,
+    options: CallOptions = {}
 ): Promise<ClaimQuestResult> {
-    const response = await fetch(`${API_BASE_URL}/users/${userId}/daily-quests/${questId}/claim`, {
+    if (isGuestUserId(userId)) return guestApi.claimDailyQuest(questId);
+    return apiRequest(`/users/${userId}/daily-quests/${questId}/claim`, {
         method: "POST",
+        schema: ClaimQuestResultSchema,
+        errorMessage: "Failed to claim quest",
+        ...withPolicy("claimDailyQuest", options),
     });
-    if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.detail || "Failed to claim quest");
-    }
-    return response.json();
 }
 
 // ==================
@@ -0,0 +1,211 @@
+import type { z } from "zod";
+import { getApiBaseUrl } from "@/lib/apiConfig";
+import {
+    ApiError,
+    ContractError,
+    errorFromResponse,
+    NetworkError,
+    RequestAbortedError,
+    ServerError,
+    TimeoutError,
+} from "@/lib/apiErrors";
+
+// ==================
+// API Client
+// ==================
+// Every backend call goes through apiRequest so the base URL, headers and
+// error handling live in one place. Failures are thrown as the typed
+// errors from ./apiErrors; responses are checked against ./schemas.
+
+export type HttpMethod = "GET" | "POST" | "PATCH" | "PUT" | "DELETE";
+
+type QueryValue = string | number | boolean | null | undefined;
+
+/** Timeout and retry behaviour for one request */
+export interface RequestPolicy {
+    /** Per-attempt timeout, including reading the body */
+    timeoutMs: number;
+    /** Extra attempts after the first one fails with a retryable error */
+    retries: number;
+    /** Delay before the first retry; doubles on each following retry */
+    backoffMs: number;
+    maxBackoffMs: number;
+}
+
+// GETs are idempotent and retried; mutations are not, since a retry after a
+// lost response could apply them twice.
+export const DEFAULT_READ_POLICY: RequestPolicy = {
+    timeoutMs: 10000,
+    retries: 2,
+    backoffMs: 500,
+    maxBackoffMs: 4000,
+};
+
+export const DEFAULT_WRITE_POLICY: RequestPolicy = {
+    timeoutMs: 15000,
+    retries: 0,
+    backoffMs: 1000,
+    maxBackoffMs: 8000,
+};
+
+export interface ApiRequestOptions<T = unknown> {
+    method?: HttpMethod;
+    /** JSON-serialised request body */
+    body?: unknown;
+    query?: Record<string, QueryValue>;
+    /** Used when the backend doesn't return a `detail` */
+    errorMessage?: string;
+    /** Response schema; a mismatch throws ContractError */
+    schema?: z.ZodType<T, z.ZodTypeDef, unknown>;
+    /** Cancels the request (and any pending retry); rejects with RequestAbortedError */
+    signal?: AbortSignal;
+    /** Overrides on top of the read/write default for this method */
+    policy?: Partial<RequestPolicy>;
+    /** Sent as `Idempotency-Key` so the backend can drop replays of the same mutation */
+    idempotencyKey?: string;
+}
+
+// Bearer token of the signed-in session, set by UserProvider (see ./session)
+let authToken: string | null = null;
+
+export function setAuthToken(token: string | null) {
+    authToken = token;
+}
+
+export function getAuthToken(): string | null {
+    return authToken;
+}
+
+export function buildApiUrl(path: string, query?: Record<string, QueryValue>): string {
+    const url = `${getApiBaseUrl()}${path.startsWith("/") ? path : `/${path}`}`;
+    if (!query) return url;
+
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+        if (value !== undefined && value !== null) {
+            params.set(key, String(value));
+        }
+    }
+    const qs = params.toString();
+    return qs ? `${url}?${qs}` : url;
+}
+
+function isRetryable(error: unknown): boolean {
+    if (error instanceof NetworkError) return true;  // includes TimeoutError
+    if (error instanceof ServerError) return error.status === 502 || error.status === 503 || error.status === 504;
+    return error instanceof ApiError && error.status === 429;
+}
+
+function backoffDelay(policy: RequestPolicy, retry: number): number {
+    const base = Math.min(policy.maxBackoffMs, policy.backoffMs * 2 ** retry);
+    // Jitter in the upper half so concurrent clients don't retry in lockstep
+    return base / 2 + Math.random() * (base / 2);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new RequestAbortedError());
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new RequestAbortedError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
+
+async function attemptRequest<T>(
+    path: string,
+    url: string,
+    init: RequestInit,
+    options: ApiRequestOptions<T>,
+    timeoutMs: number
+): Promise<T> {
+    const { method = "GET", errorMessage = "Request failed", schema, signal } = options;
+
+    if (signal?.aborted) throw new RequestAbortedError();
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+    }, timeoutMs);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    try {
+        let response: Response;
+        let data: unknown;
+        try {
+            response = await fetch(url, { ...init, signal: controller.signal });
+            if (!response.ok) {
+                throw await errorFromResponse(response, errorMessage);
+            }
+            data = response.status === 204 ? undefined : await response.json();
+        } catch (err) {
+            if (signal?.aborted) throw new RequestAbortedError();
+            if (timedOut) throw new TimeoutError(timeoutMs);
+            if (err instanceof ApiError) throw err;
+            throw new NetworkError(err instanceof Error ? err.message : undefined);
+        }
+
+        if (!schema || response.status === 204) return data as T;
+
+        const parsed = schema.safeParse(data);
+        if (!parsed.success) {
+            const issues = parsed.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+            const error = new ContractError(`${method} ${path}`, response.status, issues);
+            console.error("[API] Contract error:", error.message, data);
+            throw error;
+        }
+        return parsed.data;
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+    }
+}
+
+export async function apiRequest<T>(path: string, options: ApiRequestOptions<T> = {}): Promise<T> {
+    const { method = "GET", body, query, signal, idempotencyKey } = options;
+    const policy: RequestPolicy = {
+        ...(method === "GET" ? DEFAULT_READ_POLICY : DEFAULT_WRITE_POLICY),
+        ...options.policy,
+    };
+
+    const headers: Record<string, string> = {};
+    if (body !== undefined) {
+        headers["Content-Type"] = "application/json";
+    }
+    if (idempotencyKey) {
+        headers["Idempotency-Key"] = idempotencyKey;
+    }
+    if (authToken) {
+        headers["Authorization"] = `Bearer ${authToken}`;
+    }
+
+    const url = buildApiUrl(path, query);
+    const init: RequestInit = {
+        method,
+        headers,
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+    };
+
+    for (let retry = 0; ; retry++) {
+        try {
+            return await attemptRequest(path, url, init, options, policy.timeoutMs);
+        } catch (error) {
+            if (retry >= policy.retries || !isRetryable(error)) throw error;
+
+            const delay = backoffDelay(policy, retry);
+            console.warn(`[API] ${method} ${path} failed (${(error as Error).name}), retry ${retry + 1}/${policy.retries} in ${Math.round(delay)}ms`);
+            await sleep(delay, signal);
+        }
+    }
+}
@@ -0,0 +1,114 @@
+// ==================
+// API 環境設定
+// ==================
+//
+// Base URL resolution order:
+//   1. Runtime config (`public/runtime-config.js` → window.__APP_CONFIG__.apiBaseUrl)
+//   2. VITE_API_BASE_URL
+//   3. The selected profile (runtime config → dev override → VITE_API_PROFILE → "production")
+
+export type ApiProfileName = "mock" | "local" | "staging" | "production";
+
+export interface ApiProfile {
+    name: ApiProfileName;
+    label: string;
+    baseUrl: string;
+}
+
+export const API_PROFILES: Record<ApiProfileName, ApiProfile> = {
+    // In-memory backend served by the Vite dev server (mock/vitePlugin.ts); dev only
+    mock: {
+        name: "mock",
+        label: "模擬",
+        baseUrl: "/mock-api",
+    },
+    local: {
+        name: "local",
+        label: "本機",
+        baseUrl: "http://localhost:8000",
+    },
+    staging: {
+        name: "staging",
+        label: "測試",
+        baseUrl: "https://back-end-tasw.onrender.com",
+    },
+    production: {
+        name: "production",
+        label: "正式",
+        baseUrl: "https://back-end-production-68f7.up.railway.app",
+    },
+};
+
+const DEFAULT_PROFILE: ApiProfileName = "production";
+
+// Dev builds only: `?apiProfile=local` in the URL, persisted to localStorage
+const PROFILE_QUERY_PARAM = "apiProfile";
+const PROFILE_STORAGE_KEY = "apiProfile";
+
+function isProfileName(value: unknown): value is ApiProfileName {
+    return typeof value === "string" && value in API_PROFILES;
+}
+
+function readDevOverride(): ApiProfileName | null {
+    if (!import.meta.env.DEV || typeof window === "undefined") return null;
+
+    const fromQuery = new URLSearchParams(window.location.search).get(PROFILE_QUERY_PARAM);
+    if (isProfileName(fromQuery)) {
+        localStorage.setItem(PROFILE_STORAGE_KEY, fromQuery);
+        return fromQuery;
+    }
+
+    const saved = localStorage.getItem(PROFILE_STORAGE_KEY);
+    return isProfileName(saved) ? saved : null;
+}
+
+/** Whether the profile can be switched at runtime (dev builds without a pinned runtime URL or profile) */
+export function canSwitchApiProfile(): boolean {
+    // A runtime profile takes precedence over the dev override, so switching would do nothing
+    if (isProfileName(window.__APP_CONFIG__?.apiProfile)) return false;
+    return import.meta.env.DEV && !window.__APP_CONFIG__?.apiBaseUrl && !import.meta.env.VITE_API_BASE_URL;
+}
+
+export function getApiProfile(): ApiProfileName {
+    const runtimeProfile = window.__APP_CONFIG__?.apiProfile;
+    if (isProfileName(runtimeProfile)) return runtimeProfile;
+
+    const devOverride = readDevOverride();
+    if (devOverride) return devOverride;
+
+    const envProfile = import.meta.env.VITE_API_PROFILE;
+    if (isProfileName(envProfile)) return envProfile;
+
+    return DEFAULT_PROFILE;
+}
+
+/**
+ * Switch the active profile in dev builds. Pass null to go back to the default.
+ * Reloads the page so every in-flight request and cached value uses the new backend.
+ */
+export function setApiProfile(name: ApiProfileName | null) {
+    if (!import.meta.env.DEV) {
+        console.warn("[API] Profile switching is only available in dev builds");
+        return;
+    }
+
+    if (name) {
+        localStorage.setItem(PROFILE_STORAGE_KEY, name);
+    } else {
+        localStorage.removeItem(PROFILE_STORAGE_KEY);
+    }
+
+    const url = new URL(window.location.href);
+    url.searchParams.delete(PROFILE_QUERY_PARAM);
+    window.location.replace(url.toString());
+}
+
+export function getApiBaseUrl(): string {
+    const runtimeUrl = window.__APP_CONFIG__?.apiBaseUrl;
+    if (runtimeUrl) return runtimeUrl.replace(/\/+$/, "");
+
+    const envUrl = import.meta.env.VITE_API_BASE_URL;
+    if (envUrl) return envUrl.replace(/\/+$/, "");
+
+    return API_PROFILES[getApiProfile()].baseUrl;
+}
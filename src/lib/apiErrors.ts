@@ -0,0 +1,162 @@
+// ==================
+// API Errors
+// ==================
+// Every failure from apiRequest is one of these classes, so callers can
+// branch with `instanceof` instead of matching message text.
+
+/** FastAPI validation error item (422 responses) */
+export interface FastApiValidationIssue {
+    loc: (string | number)[];
+    msg: string;
+    type: string;
+}
+
+/** Parsed `detail` field of a FastAPI error body */
+export type FastApiDetail = string | FastApiValidationIssue[] | null;
+
+export class ApiError extends Error {
+    /** HTTP status code, or null when no response was received */
+    readonly status: number | null;
+    readonly detail: FastApiDetail;
+
+    constructor(message: string, status: number | null, detail: FastApiDetail = null) {
+        super(message);
+        this.name = "ApiError";
+        this.status = status;
+        this.detail = detail;
+    }
+}
+
+/** Request never got a response (offline, DNS, CORS, aborted connection) */
+export class NetworkError extends ApiError {
+    constructor(message = "Network request failed") {
+        super(message, null);
+        this.name = "NetworkError";
+    }
+}
+
+/** No response within the request policy's timeout */
+export class TimeoutError extends NetworkError {
+    readonly timeoutMs: number;
+
+    constructor(timeoutMs: number) {
+        super(`Request timed out after ${timeoutMs}ms`);
+        this.name = "TimeoutError";
+        this.timeoutMs = timeoutMs;
+    }
+}
+
+/** Cancelled through the caller's AbortSignal (e.g. page unmounted). Usually safe to ignore. */
+export class RequestAbortedError extends ApiError {
+    constructor() {
+        super("Request aborted", null);
+        this.name = "RequestAbortedError";
+    }
+}
+
+/** 401 / 403 */
+export class UnauthorizedError extends ApiError {
+    constructor(message: string, status: number, detail: FastApiDetail) {
+        super(message, status, detail);
+        this.name = "UnauthorizedError";
+    }
+}
+
+/** 404 — user, pet or quest doesn't exist */
+export class NotFoundError extends ApiError {
+    constructor(message: string, status: number, detail: FastApiDetail) {
+        super(message, status, detail);
+        this.name = "NotFoundError";
+    }
+}
+
+/** 409, or a 400 saying the action was already done (e.g. quest already claimed) */
+export class ConflictError extends ApiError {
+    constructor(message: string, status: number, detail: FastApiDetail) {
+        super(message, status, detail);
+        this.name = "ConflictError";
+    }
+}
+
+/** 400 / 422 — request rejected by backend validation */
+export class ValidationError extends ApiError {
+    constructor(message: string, status: number, detail: FastApiDetail) {
+        super(message, status, detail);
+        this.name = "ValidationError";
+    }
+
+    /** Validation issues keyed by field name (422 only) */
+    get fieldErrors(): Record<string, string> {
+        if (!Array.isArray(this.detail)) return {};
+        const result: Record<string, string> = {};
+        for (const issue of this.detail) {
+            const field = String(issue.loc[issue.loc.length - 1] ?? "");
+            result[field] = issue.msg;
+        }
+        return result;
+    }
+}
+
+/** 5xx */
+export class ServerError extends ApiError {
+    constructor(message: string, status: number, detail: FastApiDetail) {
+        super(message, status, detail);
+        this.name = "ServerError";
+    }
+}
+
+/** 2xx response whose body doesn't match the expected schema (backend/frontend drift) */
+export class ContractError extends ApiError {
+    /** Human-readable list of mismatches, e.g. `pet.stamina: Expected number, received null` */
+    readonly issues: string[];
+
+    constructor(endpoint: string, status: number, issues: string[]) {
+        super(`Unexpected response from ${endpoint}: ${issues.join("; ")}`, status);
+        this.name = "ContractError";
+        this.issues = issues;
+    }
+}
+
+function parseDetail(body: unknown): FastApiDetail {
+    if (!body || typeof body !== "object" || !("detail" in body)) return null;
+    const detail = (body as { detail: unknown }).detail;
+    if (typeof detail === "string") return detail;
+    if (Array.isArray(detail)) return detail as FastApiValidationIssue[];
+    return null;
+}
+
+function detailToMessage(detail: FastApiDetail): string | null {
+    if (typeof detail === "string") return detail;
+    if (Array.isArray(detail) && detail.length > 0) {
+        return detail.map((issue) => `${issue.loc.join(".")}: ${issue.msg}`).join("; ");
+    }
+    return null;
+}
+
+// The backend answers some duplicate actions with 400 instead of 409
+const ALREADY_DONE_PATTERN = /already/i;
+
+/** Build the typed error for a non-2xx response. Never throws, even on non-JSON bodies. */
+export async function errorFromResponse(response: Response, fallbackMessage: string): Promise<ApiError> {
+    let body: unknown = null;
+    try {
+        const text = await response.text();
+        body = text ? JSON.parse(text) : null;
+    } catch {
+        body = null;
+    }
+
+    const detail = parseDetail(body);
+    const message = detailToMessage(detail) || fallbackMessage;
+    const { status } = response;
+
+    if (status === 401 || status === 403) return new UnauthorizedError(message, status, detail);
+    if (status === 404) return new NotFoundError(message, status, detail);
+    if (status === 409) return new ConflictError(message, status, detail);
+    if (status === 400 && typeof detail === "string" && ALREADY_DONE_PATTERN.test(detail)) {
+        return new ConflictError(message, status, detail);
+    }
+    if (status === 400 || status === 422) return new ValidationError(message, status, detail);
+    if (status >= 500) return new ServerError(message, status, detail);
+    return new ApiError(message, status, detail);
+}
@@ -0,0 +1,27 @@
+// ==================
+// Workout cues
+// ==================
+// Spoken and vibration cues for interval workouts, so the user doesn't have
+// to look at the screen while running. Both are best effort: browsers (and
+// the TownPass WebView) without speech synthesis or vibration stay silent.
+
+const CUE_LANG = "zh-TW";
+
+export function speakCue(text: string) {
+    if (typeof window === "undefined" || !("speechSynthesis" in window)) return;
+    try {
+        // A new cue replaces one that is still being read out
+        window.speechSynthesis.cancel();
+        const utterance = new SpeechSynthesisUtterance(text);
+        utterance.lang = CUE_LANG;
+        window.speechSynthesis.speak(utterance);
+    } catch (error) {
+        console.warn("Speech cue failed:", error);
+    }
+}
+
+/** Milliseconds on / off, as for navigator.vibrate */
+export function vibrateCue(pattern: number | number[]) {
+    if (typeof navigator === "undefined" || typeof navigator.vibrate !== "function") return;
+    navigator.vibrate(pattern);
+}
@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import {
+    createGpsTracker,
+    decodePolyline,
+    encodePolyline,
+    formatPace,
+    GpsFix,
+    haversineMeters,
+    paceSecPerKm,
+} from "./gpsTrack";
+
+// Taipei City Hall, and points due north of it
+const ORIGIN = { lat: 25.0375, lng: 121.5637 };
+const METRES_PER_DEGREE = (6371e3 * Math.PI) / 180;
+const north = (metres: number, t: number, extra: Partial<GpsFix> = {}): GpsFix => ({
+    t,
+    lat: ORIGIN.lat + metres / METRES_PER_DEGREE,
+    lng: ORIGIN.lng,
+    accuracy: 5,
+    ...extra,
+});
+
+describe("polyline", () => {
+    it("encodes the reference example", () => {
+        // From Google's "Encoded Polyline Algorithm Format" documentation
+        const points: Array<[number, number]> = [[38.5, -120.2], [40.7, -120.95], [43.252, -126.453]];
+        expect(encodePolyline(points)).toBe("_p~iF~ps|U_ulLnnqC_mqNvxq`@");
+        expect(decodePolyline("_p~iF~ps|U_ulLnnqC_mqNvxq`@")).toEqual(points);
+    });
+
+    it("round-trips a route to 5 decimals", () => {
+        const route: Array<[number, number]> = [
+            [25.03746, 121.56371],
+            [25.03801, 121.56412],
+            [25.0379, 121.5634],
+            [-33.85678, 151.21529],
+            [0, 0],
+        ];
+        expect(decodePolyline(encodePolyline(route))).toEqual(route);
+    });
+
+    it("rounds to 5 decimals and handles an empty route", () => {
+        expect(decodePolyline(encodePolyline([[25.037461234, 121.563719876]]))).toEqual([[25.03746, 121.56372]]);
+        expect(encodePolyline([])).toBe("");
+        expect(decodePolyline("")).toEqual([]);
+    });
+});
+
+describe("haversineMeters", () => {
+    it("measures along a meridian", () => {
+        expect(haversineMeters(ORIGIN, north(100, 0))).toBeCloseTo(100, 6);
+        expect(haversineMeters(ORIGIN, ORIGIN)).toBe(0);
+    });
+});
+
+describe("pace", () => {
+    it("is seconds per kilometre once 10 m are covered", () => {
+        expect(paceSecPerKm(300, 1000)).toBe(300);
+        expect(paceSecPerKm(60, 5)).toBeNull();
+        expect(paceSecPerKm(0, 100)).toBeNull();
+    });
+
+    it("formats as minutes and seconds", () => {
+        expect(formatPace(332)).toBe("5'32\"");
+        expect(formatPace(299.6)).toBe("5'00\"");
+        expect(formatPace(null)).toBe("--");
+    });
+});
+
+describe("createGpsTracker", () => {
+    it("adds up the distance between used fixes", () => {
+        const tracker = createGpsTracker();
+        [0, 20, 40, 70].forEach((metres, i) => expect(tracker.add(north(metres, i * 10_000))).toBeNull());
+
+        const summary = tracker.getSummary();
+        expect(summary.distanceM).toBeCloseTo(70, 6);
+        expect(summary).toMatchObject({ acceptedFixes: 4, totalFixes: 4 });
+        expect(tracker.getRoute()).toHaveLength(4);
+    });
+
+    it("drops inaccurate fixes", () => {
+        const tracker = createGpsTracker();
+        tracker.add(north(0, 0));
+        expect(tracker.add(north(50, 10_000, { accuracy: 31 }))).toBe("inaccurate");
+        expect(tracker.getSummary()).toMatchObject({ distanceM: 0, acceptedFixes: 1, totalFixes: 2 });
+    });
+
+    it("treats moves within the accuracy radius as jitter, without losing the distance", () => {
+        const tracker = createGpsTracker();
+        tracker.add(north(0, 0));
+        // Below minMoveM, then within its own 20 m accuracy
+        expect(tracker.add(north(3, 5_000))).toBe("jitter");
+        expect(tracker.add(north(15, 10_000, { accuracy: 20 }))).toBe("jitter");
+        // Measured from the last used fix, so the small moves still count
+        expect(tracker.add(north(25, 15_000, { accuracy: 20 }))).toBeNull();
+        expect(tracker.getSummary().distanceM).toBeCloseTo(25, 6);
+    });
+
+    it("drops jumps faster than a person can move", () => {
+        const tracker = createGpsTracker();
+        tracker.add(north(0, 0));
+        expect(tracker.add(north(100, 2_000))).toBe("too-fast");
+        expect(tracker.add(north(20, 0))).toBe("too-fast");
+        expect(tracker.add(north(100, 10_000))).toBeNull();
+        expect(tracker.getSummary().distanceM).toBeCloseTo(100, 6);
+    });
+
+    it("counts climbs beyond the altitude noise only", () => {
+        const tracker = createGpsTracker();
+        // Wobbles of 2 m, a 10 m climb, a descent, then 6 m up again
+        const altitudes = [10, 12, 10, 20, 18, 12, 18];
+        altitudes.forEach((altitude, i) => tracker.add(north(i * 20, i * 10_000, { altitude })));
+        expect(tracker.getSummary().elevationGainM).toBe(16);
+    });
+
+    it("starts over on reset", () => {
+        const tracker = createGpsTracker();
+        tracker.add(north(0, 0, { altitude: 0 }));
+        tracker.add(north(50, 10_000, { altitude: 10 }));
+        tracker.reset();
+        expect(tracker.getSummary()).toEqual({ distanceM: 0, elevationGainM: 0, acceptedFixes: 0, totalFixes: 0 });
+        expect(tracker.getRoute()).toEqual([]);
+        // No fix to measure from, so the next one is used as is
+        expect(tracker.add(north(500, 20_000))).toBeNull();
+        expect(tracker.getSummary().distanceM).toBe(0);
+    });
+});
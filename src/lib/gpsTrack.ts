@@ -0,0 +1,209 @@
+// ==================
+// GPS track
+// ==================
+// Distance, pace and elevation gain of an outdoor workout from periodic
+// location fixes, free of React and browser APIs (like ./motion):
+//
+//   const tracker = createGpsTracker();
+//   tracker.add({ t: Date.now(), lat, lng, accuracy, altitude });  // per fix
+//   tracker.getSummary();   // { distanceM, elevationGainM, ... }
+//
+// Phones report a wandering position even when standing still, so a fix is
+// only used when it is accurate enough, has moved further than its own
+// accuracy radius from the last used fix, and doesn't imply an impossible
+// speed. Distance is measured between used fixes, so nothing is lost by
+// waiting for a bigger move.
+
+export interface GpsFix {
+    /** ms since epoch */
+    t: number;
+    lat: number;
+    lng: number;
+    /** Radius of the 68% confidence circle in metres */
+    accuracy?: number;
+    /** Metres above sea level */
+    altitude?: number;
+}
+
+export interface GpsTrackConfig {
+    /** Fixes less accurate than this are dropped */
+    maxAccuracyM: number;
+    /** Smallest move counted, even with a very accurate fix */
+    minMoveM: number;
+    /** Faster than this between fixes is a GPS jump, not the user */
+    maxSpeedMps: number;
+    /** Altitude changes smaller than this are noise, not climbing */
+    elevationNoiseM: number;
+}
+
+export const DEFAULT_GPS_TRACK_CONFIG: GpsTrackConfig = {
+    maxAccuracyM: 30,
+    minMoveM: 5,
+    maxSpeedMps: 12,
+    elevationNoiseM: 3,
+};
+
+export type GpsFixRejection = "inaccurate" | "jitter" | "too-fast";
+
+export interface GpsTrackSummary {
+    distanceM: number;
+    elevationGainM: number;
+    /** Fixes used for the route / received in total */
+    acceptedFixes: number;
+    totalFixes: number;
+}
+
+// ------------------
+// Pure helpers
+// ------------------
+
+const EARTH_RADIUS_M = 6371e3;
+
+/** Great-circle distance in metres */
+export function haversineMeters(a: { lat: number; lng: number }, b: { lat: number; lng: number }): number {
+    const φ1 = (a.lat * Math.PI) / 180;
+    const φ2 = (b.lat * Math.PI) / 180;
+    const Δφ = ((b.lat - a.lat) * Math.PI) / 180;
+    const Δλ = ((b.lng - a.lng) * Math.PI) / 180;
+    const h = Math.sin(Δφ / 2) ** 2 + Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) ** 2;
+    return 2 * EARTH_RADIUS_M * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+/** Seconds per kilometre, or null before the first 10 m */
+export function paceSecPerKm(durationSec: number, distanceM: number): number | null {
+    if (distanceM < 10 || durationSec <= 0) return null;
+    return durationSec / (distanceM / 1000);
+}
+
+/** "5'32\"" style pace, "--" when unknown */
+export function formatPace(secPerKm: number | null): string {
+    if (secPerKm === null || !Number.isFinite(secPerKm)) return "--";
+    const rounded = Math.round(secPerKm);
+    return `${Math.floor(rounded / 60)}'${String(rounded % 60).padStart(2, "0")}"`;
+}
+
+/** Google encoded polyline (precision 5), compact enough to send with the exercise log */
+export function encodePolyline(points: Array<[number, number]>): string {
+    let result = "";
+    let prevLat = 0;
+    let prevLng = 0;
+    const encodeValue = (value: number) => {
+        let v = value < 0 ? ~(value << 1) : value << 1;
+        while (v >= 0x20) {
+            result += String.fromCharCode((0x20 | (v & 0x1f)) + 63);
+            v >>= 5;
+        }
+        result += String.fromCharCode(v + 63);
+    };
+    for (const [lat, lng] of points) {
+        const latE5 = Math.round(lat * 1e5);
+        const lngE5 = Math.round(lng * 1e5);
+        encodeValue(latE5 - prevLat);
+        encodeValue(lngE5 - prevLng);
+        prevLat = latE5;
+        prevLng = lngE5;
+    }
+    return result;
+}
+
+export function decodePolyline(encoded: string): Array<[number, number]> {
+    const points: Array<[number, number]> = [];
+    let index = 0;
+    let lat = 0;
+    let lng = 0;
+    const decodeValue = () => {
+        let shift = 0;
+        let value = 0;
+        let byte: number;
+        do {
+            byte = encoded.charCodeAt(index++) - 63;
+            value |= (byte & 0x1f) << shift;
+            shift += 5;
+        } while (byte >= 0x20 && index < encoded.length);
+        return value & 1 ? ~(value >> 1) : value >> 1;
+    };
+    while (index < encoded.length) {
+        lat += decodeValue();
+        lng += decodeValue();
+        points.push([lat / 1e5, lng / 1e5]);
+    }
+    return points;
+}
+
+// ------------------
+// Tracker
+// ------------------
+
+export interface GpsTracker {
+    readonly config: GpsTrackConfig;
+    /** Returns why the fix was not used, or null when it extended the route */
+    add(fix: GpsFix): GpsFixRejection | null;
+    getSummary(): GpsTrackSummary;
+    /** Used fixes as [lat, lng], ready for a Leaflet polyline */
+    getRoute(): Array<[number, number]>;
+    reset(): void;
+}
+
+export function createGpsTracker(overrides: Partial<GpsTrackConfig> = {}): GpsTracker {
+    const config: GpsTrackConfig = { ...DEFAULT_GPS_TRACK_CONFIG, ...overrides };
+
+    let accepted: GpsFix[] = [];
+    let totalFixes = 0;
+    let distanceM = 0;
+    let elevationGainM = 0;
+    // Altitude the next climb is measured from (moves down freely, up only past the noise band)
+    let elevationBase: number | null = null;
+
+    const trackElevation = (altitude: number | undefined) => {
+        if (altitude === undefined || !Number.isFinite(altitude)) return;
+        if (elevationBase === null || altitude < elevationBase - config.elevationNoiseM) {
+            elevationBase = altitude;
+        } else if (altitude > elevationBase + config.elevationNoiseM) {
+            elevationGainM += altitude - elevationBase;
+            elevationBase = altitude;
+        }
+    };
+
+    return {
+        config,
+
+        add(fix) {
+            totalFixes++;
+            if (fix.accuracy !== undefined && fix.accuracy > config.maxAccuracyM) return "inaccurate";
+
+            const last = accepted[accepted.length - 1];
+            if (last) {
+                const moved = haversineMeters(last, fix);
+                if (moved < Math.max(config.minMoveM, fix.accuracy ?? 0)) return "jitter";
+                const seconds = (fix.t - last.t) / 1000;
+                if (seconds <= 0 || moved / seconds > config.maxSpeedMps) return "too-fast";
+                distanceM += moved;
+            }
+
+            accepted.push(fix);
+            trackElevation(fix.altitude);
+            return null;
+        },
+
+        getSummary() {
+            return {
+                distanceM,
+                elevationGainM,
+                acceptedFixes: accepted.length,
+                totalFixes,
+            };
+        },
+
+        getRoute() {
+            return accepted.map((fix) => [fix.lat, fix.lng] as [number, number]);
+        },
+
+        reset() {
+            accepted = [];
+            totalFixes = 0;
+            distanceM = 0;
+            elevationGainM = 0;
+            elevationBase = null;
+        },
+    };
+}
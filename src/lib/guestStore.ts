@@ -0,0 +1,331 @@
+import type {
+    ClaimQuestResult,
+    DailyCheckResult,
+    DailyQuestStatus,
+    DailyStats,
+    ExerciseLog,
+    ExerciseLogCreate,
+    ExerciseResult,
+    BreakthroughResult,
+    Pet,
+    PetUpdate,
+    TravelCheckin,
+    TravelCheckinCreate,
+    TravelCheckinResult,
+    User,
+    UserQuest,
+} from "@/lib/api";
+import { ConflictError, NotFoundError, ValidationError } from "@/lib/apiErrors";
+import { DAILY_QUEST_IDS, DailyQuestId } from "@/lib/schemas";
+import {
+    CHECKIN_REWARD,
+    DAILY_CHECK_PENALTY,
+    DAILY_QUEST_RULES,
+    MAX_STAMINA,
+    PetState,
+    clampStats,
+    dailyCheckPassed,
+    grantStats,
+    isBreakthroughPending,
+    questClaimable,
+    questClaimed,
+    rollDailyCounters,
+    today,
+} from "@/lib/petRules";
+import { computeRewards, creditedSeconds, sessionFromLog } from "@/lib/rewardRules";
+
+// ==================
+// Guest store
+// ==================
+// A guest's pet, exercise logs and check-ins live only in localStorage. api.ts
+// routes every call for GUEST_USER_ID here, so UserContext, the query hooks and
+// the outbox work unchanged. It runs the backend's rules from ./rewardRules
+// and ./petRules, like the mock backend does.
+// When the guest signs in with TownPass, ./session replays this history to
+// the backend and clears it.
+
+export const GUEST_USER_ID = "guest";
+
+export function isGuestUserId(userId: string | null): boolean {
+    return userId === GUEST_USER_ID;
+}
+
+export interface GuestData {
+    created_at: string;
+    /** Every field the rules need is always stored */
+    pet: Pet & PetState;
+    /** Oldest first; migrated entries are removed one by one */
+    exercise_logs: ExerciseLog[];
+    checkins: TravelCheckin[];
+    /** Date (YYYY-MM-DD) the daily counters were last reset */
+    last_reset_date: string;
+    /** Exercise seconds of the day before the last reset, judged by the daily check */
+    previous_day_exercise_seconds: number;
+    next_id: number;
+}
+
+const STORAGE_KEY = "guestData";
+
+// ------------------
+// Storage
+// ------------------
+
+export function loadGuestData(): GuestData | null {
+    try {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        return saved ? (JSON.parse(saved) as GuestData) : null;
+    } catch (error) {
+        console.error("[Guest] Failed to read guest data:", error);
+        return null;
+    }
+}
+
+function saveGuestData(data: GuestData) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+}
+
+export function clearGuestData() {
+    localStorage.removeItem(STORAGE_KEY);
+}
+
+export function createGuestData(petName: string): GuestData {
+    const now = new Date().toISOString();
+    const data: GuestData = {
+        created_at: now,
+        exercise_logs: [],
+        checkins: [],
+        last_reset_date: today(),
+        previous_day_exercise_seconds: 0,
+        next_id: 1,
+        pet: {
+            id: 0,
+            owner_id: GUEST_USER_ID,
+            name: petName,
+            strength: 0,
+            stamina: MAX_STAMINA,
+            mood: 70,
+            level: 1,
+            stage: 1,
+            breakthrough_completed: false,
+            updated_at: now,
+            last_daily_check: null,
+            daily_steps: 0,
+            daily_exercise_seconds: 0,
+            daily_quest_1_completed: false,
+            daily_quest_2_completed: false,
+            daily_quest_3_completed: false,
+        },
+    };
+    saveGuestData(data);
+    return data;
+}
+
+/** Apply `change` to the stored data (after rolling the day over) and save it */
+function update<T>(change: (data: GuestData) => T): T {
+    const data = load();
+    const result = change(data);
+    saveGuestData(data);
+    return result;
+}
+
+// Like the backend, daily totals are reset lazily on the first call of a new day
+function load(): GuestData {
+    const data = loadGuestData();
+    if (!data) throw new NotFoundError("Guest pet not found", 404, "User not found");
+    if (rollDailyCounters(data)) saveGuestData(data);
+    return data;
+}
+
+// ------------------
+// API (same shapes as the functions in ./api)
+// ------------------
+
+const copy = <T>(value: T): T => structuredClone(value);
+
+export const guestApi = {
+    async getUser(): Promise<User> {
+        const data = load();
+        return copy({ id: GUEST_USER_ID, created_at: data.created_at, pet: data.pet, exercise_logs: data.exercise_logs });
+    },
+
+    async getUserPet(): Promise<Pet> {
+        return copy(load().pet);
+    },
+
+    async getDailyStats(): Promise<DailyStats> {
+        const data = load();
+        return {
+            daily_exercise_seconds: data.pet.daily_exercise_seconds,
+            daily_steps: data.pet.daily_steps,
+            last_reset_date: data.last_reset_date,
+        };
+    },
+
+    async updateUserPet(petUpdate: PetUpdate): Promise<Pet> {
+        return update(({ pet }) => {
+            if (petUpdate.name !== undefined) pet.name = petUpdate.name;
+            return copy(pet);
+        });
+    },
+
+    async logExercise(log: ExerciseLogCreate): Promise<ExerciseResult> {
+        if (log.duration_seconds < 0 || log.steps < 0) {
+            throw new ValidationError("Failed to log exercise", 400, "Duration and steps must not be negative");
+        }
+        const session = sessionFromLog(log);
+        const rewards = computeRewards(session);
+        return update((data) => {
+            const { pet } = data;
+            pet.daily_exercise_seconds += creditedSeconds(session);
+            pet.daily_steps += session.steps;
+            const breakthroughRequired = grantStats(pet, rewards.deltas);
+            data.exercise_logs.push({
+                id: data.next_id++,
+                exercise_type: log.exercise_type,
+                duration_seconds: log.duration_seconds,
+                volume: log.steps,
+                activity_breakdown: log.activity_breakdown ?? null,
+                distance_meters: log.distance_meters ?? null,
+                elevation_gain_meters: log.elevation_gain_meters ?? null,
+                route_polyline: log.route_polyline ?? null,
+                program_id: log.program_id ?? null,
+                program_completed: log.program_completed ?? null,
+                program_compliance: log.program_compliance ?? null,
+                started_at: new Date(session.startedAt).toISOString(),
+                raining: log.raining ?? null,
+                excluded_segments: log.excluded_segments ?? null,
+                created_at: new Date().toISOString(),
+                user_id: GUEST_USER_ID,
+                pet_id: pet.id,
+            });
+            return copy({
+                pet,
+                breakthrough_required: breakthroughRequired,
+                message: breakthroughRequired ? "Breakthrough required" : null,
+                rewards,
+            });
+        });
+    },
+
+    async performDailyCheck(): Promise<DailyCheckResult> {
+        return update((data) => {
+            const { pet } = data;
+            if (pet.last_daily_check?.startsWith(today())) {
+                return copy({ pet, exercised_enough: true, message: "今日已檢查" });
+            }
+            const exercisedEnough = dailyCheckPassed(data.previous_day_exercise_seconds);
+            if (!exercisedEnough) pet.stamina -= DAILY_CHECK_PENALTY;
+            pet.last_daily_check = new Date().toISOString();
+            clampStats(pet);
+            pet.updated_at = new Date().toISOString();
+            return copy({
+                pet,
+                exercised_enough: exercisedEnough,
+                message: exercisedEnough ? "做得好！" : `運動量不足，體力 -${DAILY_CHECK_PENALTY}`,
+            });
+        });
+    },
+
+    async completeBreakthrough(): Promise<BreakthroughResult> {
+        return update(({ pet }) => {
+            if (!isBreakthroughPending(pet)) {
+                return copy({ success: false, pet, message: "No breakthrough pending" });
+            }
+            pet.breakthrough_completed = true;
+            pet.updated_at = new Date().toISOString();
+            return copy({ success: true, pet, message: "突破成功！" });
+        });
+    },
+
+    // Legacy quest list; guests only have the daily quests below
+    async getDailyQuests(): Promise<UserQuest[]> {
+        load();
+        return [];
+    },
+
+    async completeDailyQuest(): Promise<ExerciseResult> {
+        load();
+        throw new NotFoundError("Failed to complete quest", 404, "Quest not found");
+    },
+
+    async getUserDailyQuests(): Promise<DailyQuestStatus> {
+        const { pet } = load();
+        const status: DailyQuestStatus = {
+            daily_exercise_seconds: pet.daily_exercise_seconds,
+            daily_steps: pet.daily_steps,
+        };
+        for (const id of DAILY_QUEST_IDS) {
+            status[`quest_${id}_claimed`] = questClaimed(pet, id);
+            status[`quest_${id}_claimable`] = questClaimable(pet, id);
+        }
+        return status;
+    },
+
+    async claimDailyQuest(questId: number): Promise<ClaimQuestResult> {
+        const rules = DAILY_QUEST_RULES[questId as DailyQuestId];
+        if (!rules) throw new NotFoundError("Failed to claim quest", 404, "Quest not found");
+        return update(({ pet }) => {
+            const id = questId as DailyQuestId;
+            if (questClaimed(pet, id)) throw new ConflictError("Failed to claim quest", 400, "Quest already claimed today");
+            if (!questClaimable(pet, id)) throw new ValidationError("Failed to claim quest", 400, "任務尚未完成");
+
+            pet[`daily_quest_${id}_completed`] = true;
+            grantStats(pet, rules);
+            return copy({
+                success: true,
+                message: "領取成功",
+                pet,
+                rewards: { strength: rules.strength, stamina: rules.stamina, mood: rules.mood },
+            });
+        });
+    },
+
+    // Attractions come from the backend; guests check in to the quests.json locations instead
+    async startTravelQuest(): Promise<never> {
+        load();
+        throw new NotFoundError("Failed to start travel quest", 404, "Not available in guest mode");
+    },
+
+    async getUserTravelCheckins(): Promise<TravelCheckin[]> {
+        return copy(load().checkins);
+    },
+
+    async createTravelCheckin(checkin: TravelCheckinCreate): Promise<TravelCheckinResult> {
+        return update((data) => {
+            if (data.checkins.some((c) => c.quest_id === checkin.quest_id)) {
+                throw new ConflictError("Failed to create travel checkin", 400, "Quest already checked in");
+            }
+            const created: TravelCheckin = {
+                id: data.next_id++,
+                user_id: GUEST_USER_ID,
+                quest_id: checkin.quest_id,
+                completed_at: new Date().toISOString(),
+                lat: checkin.lat,
+                lng: checkin.lng,
+            };
+            data.checkins.push(created);
+            grantStats(data.pet, CHECKIN_REWARD);
+            return copy({ pet: data.pet, checkin: created });
+        });
+    },
+};
+
+// ------------------
+// Migration bookkeeping (used by ./session)
+// ------------------
+
+/** Drop one exercise log after it was replayed to the backend */
+export function removeMigratedExerciseLog(id: number) {
+    const data = loadGuestData();
+    if (!data) return;
+    data.exercise_logs = data.exercise_logs.filter((log) => log.id !== id);
+    saveGuestData(data);
+}
+
+/** Drop one check-in after it was replayed to the backend */
+export function removeMigratedCheckin(id: number) {
+    const data = loadGuestData();
+    if (!data) return;
+    data.checkins = data.checkins.filter((checkin) => checkin.id !== id);
+    saveGuestData(data);
+}
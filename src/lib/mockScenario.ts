@@ -0,0 +1,41 @@
+import { getApiBaseUrl, getApiProfile } from "@/lib/apiConfig";
+import { saveSession } from "@/lib/session";
+
+// ==================
+// Mock backend scenarios (dev only)
+// ==================
+// `/?apiProfile=mock&mockScenario=stamina-0` resets the mock backend to that
+// scenario and signs in as its user before the app renders. Scenario names
+// are listed in mock/scenarios.ts (or GET /mock-api/__mock/scenarios).
+
+const SCENARIO_QUERY_PARAM = "mockScenario";
+
+export async function applyMockScenarioFromUrl(): Promise<void> {
+    const url = new URL(window.location.href);
+    const scenario = url.searchParams.get(SCENARIO_QUERY_PARAM);
+    if (!scenario) return;
+
+    if (getApiProfile() !== "mock") {
+        console.warn(`[Mock] ?${SCENARIO_QUERY_PARAM} needs the mock API profile (add ?apiProfile=mock)`);
+        return;
+    }
+
+    try {
+        const response = await fetch(`${getApiBaseUrl()}/__mock/scenario/${encodeURIComponent(scenario)}`, { method: "POST" });
+        const data = await response.json();
+        if (!response.ok) {
+            console.error(`[Mock] ${data.detail ?? "Failed to load scenario"}`);
+            return;
+        }
+
+        saveSession(data.user_id ? { userId: data.user_id, authToken: null } : null);
+        console.info(`[Mock] Scenario "${scenario}" loaded`);
+    } catch (error) {
+        console.error("[Mock] Mock backend not reachable — is this `npm run dev`?", error);
+        return;
+    }
+
+    // Drop the param so a reload keeps the current state instead of re-seeding
+    url.searchParams.delete(SCENARIO_QUERY_PARAM);
+    window.history.replaceState(null, "", url.toString());
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { MotionEvent, runMotionTrace } from "./motion";
+import { parseTrace } from "./motionTrace";
+import walkRestWalk from "./fixtures/walk-rest-walk.csv?raw";
+
+// Walk 8 s with a step every 800 ms, rest 13 s, walk 5 s more (see the file's header)
+const { samples } = parseTrace(walkRestWalk);
+const t0 = samples[0].t;
+const sec = (event: MotionEvent) => (event.t - t0) / 1000;
+
+describe("runMotionTrace", () => {
+    const events = runMotionTrace(samples);
+    const steps = events.filter((event) => event.type === "step");
+
+    it("counts one step per footfall and none at rest", () => {
+        expect(steps).toHaveLength(17);
+        expect(steps.at(-1)).toMatchObject({ steps: 17 });
+        expect(steps.filter((event) => sec(event) >= 8 && sec(event) < 21)).toEqual([]);
+    });
+
+    it("labels the walks and the rest", () => {
+        const activities = events.flatMap((event) => (event.type === "activity" ? [[sec(event), event.activity]] : []));
+        // "unknown" while the gravity estimate settles on the first samples
+        expect(activities).toEqual([
+            [0.6, "unknown"],
+            [1.2, "walking"],
+            [9.6, "idle"],
+            [21.6, "walking"],
+        ]);
+    });
+
+    it("pauses after 10 s of rest and resumes with the next walk", () => {
+        const pauses = events.flatMap((event) => (event.type === "pause" || event.type === "resume" ? [[sec(event), event.type]] : []));
+        expect(pauses).toEqual([
+            [19.8, "pause"],
+            [21.6, "resume"],
+        ]);
+    });
+
+    it("gives the same events for the same trace", () => {
+        expect(runMotionTrace(samples)).toEqual(events);
+    });
+
+    it("replays with other thresholds", () => {
+        // Footfalls are about 6 m/s² apart; a higher step threshold misses them all
+        const strict = runMotionTrace(samples, { thresholdOverrides: { step: 20 } });
+        expect(strict.some((event) => event.type === "step")).toBe(false);
+    });
+});
@@ -0,0 +1,459 @@
+// ==================
+// Motion engine
+// ==================
+// Step counting and activity classification from accelerometer samples,
+// free of React and browser APIs. Time comes only from the samples (and
+// tick), so feeding the same trace always gives the same events:
+//
+//   const engine = createMotionEngine();
+//   engine.subscribe((event) => { ... });
+//   engine.push({ t: Date.now(), x, y, z });   // per devicemotion event
+//   engine.tick(Date.now());                  // keeps classifying when samples stop
+//
+// Pipeline: low-pass gravity estimate → linear acceleration → step detector
+// on the magnitude delta, plus a sliding window of features classified every
+// `classifyEveryMs`. Long idle stretches emit pause / resume. The time spent
+// in each activity is tallied per session (MotionState.activityMs).
+
+export type Activity = "idle" | "walking" | "running" | "stairs" | "jumping" | "skipping" | "squat" | "unknown";
+
+export const ACTIVITIES: Activity[] = ["idle", "walking", "running", "stairs", "jumping", "skipping", "squat", "unknown"];
+
+export const ACTIVITY_LABELS: Record<Activity, string> = {
+    idle: "靜止",
+    walking: "走路",
+    running: "跑步",
+    stairs: "爬樓梯",
+    jumping: "開合跳",
+    skipping: "跳繩",
+    squat: "深蹲",
+    unknown: "未知",
+};
+
+/** One accelerometer reading in m/s² (with or without gravity); `t` in ms */
+export interface MotionSample {
+    t: number;
+    x: number;
+    y: number;
+    z: number;
+}
+
+/** Summary of one calibration activity (linear acceleration magnitude) */
+export interface ActivityProfile {
+    mean: number;
+    std: number;
+    max: number;
+    peaks: number;
+    /** Peaks per second */
+    cadence: number;
+}
+
+export interface MotionCalibration {
+    walk: ActivityProfile;
+    jump: ActivityProfile;
+    /** Sensor noise at rest; without it the built-in idle limits are used */
+    still?: ActivityProfile;
+}
+
+export interface MotionConfig {
+    calibration: MotionCalibration;
+    /** Low-pass factor of the gravity estimate */
+    gravityAlpha: number;
+    /** Sliding window the features are computed on */
+    windowMs: number;
+    classifyEveryMs: number;
+    minStepIntervalMs: number;
+    /** Idle for this long → "pause" */
+    pauseAfterMs: number;
+    /** Replace individual thresholds derived from the calibration (tuning / replay) */
+    thresholdOverrides: Partial<MotionThresholds>;
+}
+
+export interface MotionThresholds {
+    /** Magnitude change between samples that counts as a step */
+    step: number;
+    /** Minimum height of a peak in the window */
+    magPeak: number;
+    /** Window maximum above which a jump is likely */
+    jumpAmp: number;
+    /** Share of magnitude peaks that must also be vertical peaks for a jump */
+    verticalPeakRatioForJump: number;
+    cadenceWalkingMin: number;
+    cadenceWalkingMax: number;
+    /** Walking is steadier than this */
+    walkStdMax: number;
+    /** Faster than walking and at least this hard → running */
+    runMagMin: number;
+    /** Skipping rope: fast, mostly vertical hops below the jumping-jack amplitude */
+    skipCadenceMin: number;
+    skipVerticalShareMin: number;
+    /** A walking rhythm this vertical and this hard → stairs */
+    stairsVerticalShareMin: number;
+    stairsMagMin: number;
+    /** Squats: slow, vertical up-and-down */
+    squatCadenceMax: number;
+    squatVerticalShareMin: number;
+    /** A window quieter than both of these is idle */
+    idleMaxMag: number;
+    idleStdMax: number;
+}
+
+export interface MotionFeatures {
+    sampleCount: number;
+    meanMag: number;
+    stdMag: number;
+    maxMag: number;
+    peaksMag: number;
+    peaksZ: number;
+    cadenceHz: number;
+    /** Share of the movement along gravity (0 = horizontal only, 1 = vertical only) */
+    verticalShare: number;
+    /** Times the vertical acceleration changed direction (ignoring sensor noise) */
+    verticalReversals: number;
+}
+
+export type MotionEvent =
+    | { type: "step"; t: number; steps: number }
+    | { type: "activity"; t: number; activity: Activity; features: MotionFeatures | null }
+    | { type: "pause"; t: number }
+    | { type: "resume"; t: number };
+
+export interface MotionState {
+    steps: number;
+    activity: Activity;
+    paused: boolean;
+    /** Time classified as each activity this session, pauses excluded */
+    activityMs: Record<Activity, number>;
+    /** Features of the latest window; null before the first one or when the sensor went quiet */
+    features: MotionFeatures | null;
+}
+
+// --- Calibration measured on a test phone ---
+// walking: mean mag: 3.35, std:1.21, max:6.45, peaks:22, cadence:2.76Hz
+// jumping: mean mag: 20.85, std:16.24, max:83.68, peaks:18, cadence:2.26Hz
+// (walk mean / cadences lowered by hand afterwards)
+export const DEFAULT_CALIBRATION: MotionCalibration = {
+    walk: { mean: 2.35, std: 1.21, max: 6.45, peaks: 22, cadence: 1 },
+    jump: { mean: 20.85, std: 16.24, max: 83.68, peaks: 18, cadence: 1.13 },
+};
+
+export const DEFAULT_MOTION_CONFIG: MotionConfig = {
+    calibration: DEFAULT_CALIBRATION,
+    gravityAlpha: 0.85,
+    windowMs: 2000,
+    classifyEveryMs: 600,
+    minStepIntervalMs: 400,
+    pauseAfterMs: 10000,
+    thresholdOverrides: {},
+};
+
+// Fewer samples than this in the window means the sensor went quiet
+const MIN_WINDOW_SAMPLES = 4;
+const PEAK_MIN_INTERVAL_MS = 250;
+
+// ------------------
+// Pure helpers
+// ------------------
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function deriveThresholds(calibration: MotionCalibration): MotionThresholds {
+    const { walk, jump, still } = calibration;
+    return {
+        step: round2(walk.mean + walk.std * 0.25),
+        magPeak: round2(walk.mean + walk.std * 0.45),
+        jumpAmp: Math.round(jump.max * 0.75),
+        verticalPeakRatioForJump: 0.5,
+        cadenceWalkingMin: round2(walk.cadence - 0.6),
+        cadenceWalkingMax: round2(walk.cadence + 0.6),
+        walkStdMax: Math.max(6, walk.std * 3),
+        runMagMin: round2(walk.mean + walk.std * 2),
+        skipCadenceMin: round2(Math.max(jump.cadence * 1.5, walk.cadence + 0.6)),
+        skipVerticalShareMin: 0.9,
+        stairsVerticalShareMin: 0.7,
+        stairsMagMin: round2(walk.mean + walk.std * 0.5),
+        squatCadenceMax: 0.75,
+        squatVerticalShareMin: 0.85,
+        // Never stricter than the built-in limits: a noisy sensor at rest still counts as idle
+        idleMaxMag: still ? round2(Math.max(0.9, still.max * 1.5)) : 0.9,
+        idleStdMax: still ? round2(Math.max(0.6, still.std * 3)) : 0.6,
+    };
+}
+
+/** A sample is a peak when above both neighbours and the threshold, at least `minIntervalMs` after the last one */
+export function countPeaks(seq: Array<{ t: number; v: number }>, threshold: number, minIntervalMs = PEAK_MIN_INTERVAL_MS): number {
+    let count = 0;
+    let lastPeakT = -Infinity;
+    for (let i = 1; i < seq.length - 1; i++) {
+        const prev = seq[i - 1].v;
+        const cur = seq[i].v;
+        const next = seq[i + 1].v;
+        if (cur > prev && cur > next && cur > threshold && seq[i].t - lastPeakT > minIntervalMs) {
+            count++;
+            lastPeakT = seq[i].t;
+        }
+    }
+    return count;
+}
+
+/** Sample after gravity removal, as kept in the sliding window */
+export interface LinearSample {
+    t: number;
+    lax: number;
+    lay: number;
+    laz: number;
+    mag: number;
+    /** Linear acceleration along the gravity estimate, whatever way the phone is held */
+    vert: number;
+}
+
+/** Low-pass gravity estimate; returns each sample's linear acceleration */
+export function createGravityFilter(alpha: number): (sample: MotionSample) => LinearSample {
+    let gravity = { x: 0, y: 0, z: 0 };
+    return (sample) => {
+        gravity = {
+            x: alpha * gravity.x + (1 - alpha) * sample.x,
+            y: alpha * gravity.y + (1 - alpha) * sample.y,
+            z: alpha * gravity.z + (1 - alpha) * sample.z,
+        };
+        const lax = sample.x - gravity.x;
+        const lay = sample.y - gravity.y;
+        const laz = sample.z - gravity.z;
+        const g = Math.sqrt(gravity.x * gravity.x + gravity.y * gravity.y + gravity.z * gravity.z);
+        const vert = g > 0 ? (lax * gravity.x + lay * gravity.y + laz * gravity.z) / g : 0;
+        return { t: sample.t, lax, lay, laz, mag: Math.sqrt(lax * lax + lay * lay + laz * laz), vert };
+    };
+}
+
+export function computeFeatures(samples: LinearSample[], thresholds: MotionThresholds): MotionFeatures {
+    const mags = samples.map((s) => s.mag);
+    const meanMag = mags.reduce((a, b) => a + b, 0) / mags.length;
+    const variance = mags.reduce((a, b) => a + (b - meanMag) * (b - meanMag), 0) / Math.max(1, mags.length - 1);
+    const peaksMag = countPeaks(samples.map((s) => ({ t: s.t, v: s.mag })), thresholds.magPeak);
+    const peaksZ = countPeaks(samples.map((s) => ({ t: s.t, v: Math.abs(s.laz) })), thresholds.magPeak);
+    const windowSec = Math.max(0.001, (samples[samples.length - 1].t - samples[0].t) / 1000);
+    const meanVert = samples.reduce((a, s) => a + Math.abs(s.vert), 0) / samples.length;
+
+    // Sign changes with hysteresis, so sensor noise around zero doesn't count
+    let verticalReversals = 0;
+    let direction = 0;
+    const hysteresis = thresholds.idleMaxMag / 2;
+    for (const s of samples) {
+        const next = s.vert > hysteresis ? 1 : s.vert < -hysteresis ? -1 : direction;
+        if (direction !== 0 && next !== direction) verticalReversals++;
+        direction = next;
+    }
+
+    return {
+        sampleCount: samples.length,
+        meanMag,
+        stdMag: Math.sqrt(variance),
+        maxMag: Math.max(...mags),
+        peaksMag,
+        peaksZ,
+        cadenceHz: peaksMag / windowSec,
+        verticalShare: meanMag > 0 ? Math.min(1, meanVert / meanMag) : 0,
+        verticalReversals,
+    };
+}
+
+export function classifyFeatures(f: MotionFeatures, thresholds: MotionThresholds): Activity {
+    const isLikelyJump = f.maxMag > thresholds.jumpAmp
+        && f.peaksMag >= 2
+        && f.peaksZ / Math.max(1, f.peaksMag) >= thresholds.verticalPeakRatioForJump;
+    if (isLikelyJump) return "jumping";
+
+    const isLikelySkip = f.cadenceHz >= thresholds.skipCadenceMin
+        && f.verticalShare >= thresholds.skipVerticalShareMin
+        && f.maxMag >= thresholds.runMagMin
+        && f.peaksMag >= 3;
+    if (isLikelySkip) return "skipping";
+
+    const isLikelyRun = f.cadenceHz > thresholds.cadenceWalkingMax
+        && f.meanMag >= thresholds.runMagMin
+        && f.peaksMag >= 3;
+    if (isLikelyRun) return "running";
+
+    // Checked before walking: one slow vertical peak per window also fits the walking cadence band.
+    // Squats are often too gentle to reach magPeak, so only an up-and-down movement is required
+    // (which also rules out the one-way drift while the gravity estimate settles).
+    const isLikelySquat = f.cadenceHz <= thresholds.squatCadenceMax
+        && f.verticalShare >= thresholds.squatVerticalShareMin
+        && f.maxMag >= thresholds.idleMaxMag
+        && f.verticalReversals >= 2;
+    if (isLikelySquat) return "squat";
+
+    const isLikelyWalk = f.cadenceHz >= thresholds.cadenceWalkingMin
+        && f.cadenceHz <= thresholds.cadenceWalkingMax
+        && f.stdMag < thresholds.walkStdMax
+        && f.peaksMag >= 1;
+    if (isLikelyWalk) {
+        // Without a barometer, stairs are a walking rhythm with harder, more vertical steps
+        const isLikelyStairs = f.verticalShare >= thresholds.stairsVerticalShareMin && f.meanMag >= thresholds.stairsMagMin;
+        return isLikelyStairs ? "stairs" : "walking";
+    }
+
+    if (f.maxMag < thresholds.idleMaxMag && f.stdMag < thresholds.idleStdMax) return "idle";
+    return "unknown";
+}
+
+export function emptyActivityTally(): Record<Activity, number> {
+    return Object.fromEntries(ACTIVITIES.map((activity) => [activity, 0])) as Record<Activity, number>;
+}
+
+/** Whole seconds per activity, leaving out the ones that never came up */
+export function activityBreakdownSeconds(activityMs: Record<Activity, number>): Partial<Record<Activity, number>> {
+    const breakdown: Partial<Record<Activity, number>> = {};
+    for (const activity of ACTIVITIES) {
+        const seconds = Math.round(activityMs[activity] / 1000);
+        if (seconds > 0) breakdown[activity] = seconds;
+    }
+    return breakdown;
+}
+
+/** The activity the session was mostly spent on; idle / unknown only when nothing else came up */
+export function dominantActivity(activityMs: Record<Activity, number>): Activity {
+    const ranked = [...ACTIVITIES].sort((a, b) => activityMs[b] - activityMs[a]);
+    const moving = ranked.find((activity) => activity !== "idle" && activity !== "unknown" && activityMs[activity] > 0);
+    if (moving) return moving;
+    return activityMs.unknown > 0 ? "unknown" : "idle";
+}
+
+// ------------------
+// Streaming engine
+// ------------------
+
+export interface MotionEngine {
+    readonly config: MotionConfig;
+    readonly thresholds: MotionThresholds;
+    push(sample: MotionSample): void;
+    /** Advance time without a sample, so classification and pause still happen when the sensor stops */
+    tick(t: number): void;
+    subscribe(listener: (event: MotionEvent) => void): () => void;
+    getState(): MotionState;
+    /** Back to zero steps / idle, e.g. when a new session starts */
+    reset(): void;
+}
+
+export function createMotionEngine(overrides: Partial<MotionConfig> = {}): MotionEngine {
+    const config: MotionConfig = { ...DEFAULT_MOTION_CONFIG, ...overrides };
+    const thresholds: MotionThresholds = { ...deriveThresholds(config.calibration), ...config.thresholdOverrides };
+    const listeners: Set<(event: MotionEvent) => void> = new Set();
+
+    let removeGravity = createGravityFilter(config.gravityAlpha);
+    let buffer: LinearSample[] = [];
+    let lastMag = 0;
+    let lastStepT = 0;
+    let nextClassifyAt: number | null = null;
+    let idleSince: number | null = null;
+    let state: MotionState = { steps: 0, activity: "idle", paused: false, activityMs: emptyActivityTally(), features: null };
+
+    const emit = (event: MotionEvent) => {
+        listeners.forEach((listener) => listener(event));
+    };
+
+    const classify = (t: number) => {
+        buffer = buffer.filter((s) => s.t >= t - config.windowMs);
+
+        let features: MotionFeatures | null = null;
+        let activity: Activity = "idle";
+        if (buffer.length >= MIN_WINDOW_SAMPLES) {
+            features = computeFeatures(buffer, thresholds);
+            activity = classifyFeatures(features, thresholds);
+        }
+
+        state = { ...state, features };
+        if (activity !== state.activity) {
+            state = { ...state, activity };
+            emit({ type: "activity", t, activity, features });
+        }
+
+        if (!state.paused) {
+            const activityMs = { ...state.activityMs, [activity]: state.activityMs[activity] + config.classifyEveryMs };
+            state = { ...state, activityMs };
+        }
+
+        if (activity === "idle") {
+            if (idleSince === null) {
+                idleSince = t;
+            } else if (t - idleSince >= config.pauseAfterMs && !state.paused) {
+                state = { ...state, paused: true };
+                emit({ type: "pause", t });
+            }
+        } else {
+            // Any movement (even unrecognised) ends the idle stretch
+            idleSince = null;
+            if (state.paused) {
+                state = { ...state, paused: false };
+                emit({ type: "resume", t });
+            }
+        }
+    };
+
+    const advance = (t: number) => {
+        if (nextClassifyAt === null) return;
+        while (t >= nextClassifyAt) {
+            classify(nextClassifyAt);
+            nextClassifyAt += config.classifyEveryMs;
+        }
+    };
+
+    return {
+        config,
+        thresholds,
+
+        push(sample) {
+            advance(sample.t);
+
+            const linear = removeGravity(sample);
+            const { mag } = linear;
+            buffer.push(linear);
+
+            // Step: a big enough jump in magnitude since the previous sample
+            const delta = Math.abs(mag - (lastMag || mag));
+            lastMag = mag;
+            if (delta > thresholds.step && sample.t - lastStepT > config.minStepIntervalMs) {
+                lastStepT = sample.t;
+                state = { ...state, steps: state.steps + 1 };
+                emit({ type: "step", t: sample.t, steps: state.steps });
+            }
+
+            // Classification starts with the first sample
+            if (nextClassifyAt === null) nextClassifyAt = sample.t + config.classifyEveryMs;
+        },
+
+        tick(t) {
+            advance(t);
+        },
+
+        subscribe(listener) {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+
+        getState() {
+            return state;
+        },
+
+        reset() {
+            removeGravity = createGravityFilter(config.gravityAlpha);
+            buffer = [];
+            lastMag = 0;
+            lastStepT = 0;
+            nextClassifyAt = null;
+            idleSince = null;
+            state = { steps: 0, activity: "idle", paused: false, activityMs: emptyActivityTally(), features: null };
+        },
+    };
+}
+
+/** Run a whole recorded trace through a fresh engine and collect its events */
+export function runMotionTrace(samples: MotionSample[], overrides: Partial<MotionConfig> = {}): MotionEvent[] {
+    const engine = createMotionEngine(overrides);
+    const events: MotionEvent[] = [];
+    engine.subscribe((event) => events.push(event));
+    samples.forEach((sample) => engine.push(sample));
+    return events;
+}
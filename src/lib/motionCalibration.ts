@@ -0,0 +1,183 @@
+import {
+    ActivityProfile,
+    countPeaks,
+    createGravityFilter,
+    DEFAULT_MOTION_CONFIG,
+    MotionCalibration,
+    MotionSample,
+} from "@/lib/motion";
+
+// ==================
+// Motion calibration
+// ==================
+// Phones differ a lot in accelerometer noise and in how they sit in a
+// pocket, so the built-in DEFAULT_CALIBRATION (measured on one test phone)
+// can miss steps or mistake walking for jumping. The calibration wizard
+// records three short phases on the user's own phone:
+//
+//   still  — phone held still for a few seconds (sensor noise)
+//   walk   — CALIBRATION_TARGETS.walk steps
+//   jump   — CALIBRATION_TARGETS.jump jumping jacks
+//
+// Each phase becomes an ActivityProfile computed exactly like the built-in
+// one, and the result is stored per user and per device, so a family phone
+// (see ./session profiles) keeps one calibration for every pet's owner.
+
+export type CalibrationPhase = "still" | "walk" | "jump";
+
+/** Still: seconds to hold; walk / jump: repetitions the user is asked for */
+export const CALIBRATION_TARGETS: Record<CalibrationPhase, number> = {
+    still: 5,
+    walk: 20,
+    jump: 10,
+};
+
+export class CalibrationError extends Error {
+    readonly phase: CalibrationPhase;
+
+    constructor(phase: CalibrationPhase, message: string) {
+        super(message);
+        this.name = "CalibrationError";
+        this.phase = phase;
+    }
+}
+
+/**
+ * Samples of one phase. Samples before `startAt` (e.g. during the wizard's
+ * countdown) only warm up the gravity filter and are not summarised.
+ */
+export interface PhaseRecording {
+    samples: MotionSample[];
+    startAt?: number;
+}
+
+// ------------------
+// Profiles
+// ------------------
+
+// The gravity estimate starts at zero, so the first moments read as ~9.8 m/s² of motion
+export const CALIBRATION_SETTLE_MS = 1000;
+const MIN_PHASE_SAMPLES = 20;
+// A phase counts if at least this share of the requested repetitions shows up as peaks
+const MIN_PEAK_RATIO = 0.5;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/** Summarise one recorded phase the way DEFAULT_CALIBRATION was measured */
+export function computeActivityProfile(
+    phase: CalibrationPhase,
+    recording: PhaseRecording,
+    gravityAlpha = DEFAULT_MOTION_CONFIG.gravityAlpha
+): ActivityProfile {
+    const sorted = [...recording.samples].sort((a, b) => a.t - b.t);
+    const startAt = Math.max(recording.startAt ?? -Infinity, (sorted[0]?.t ?? 0) + CALIBRATION_SETTLE_MS);
+    const removeGravity = createGravityFilter(gravityAlpha);
+    const linear = sorted.map(removeGravity).filter((s) => s.t >= startAt);
+    if (linear.length < MIN_PHASE_SAMPLES) {
+        throw new CalibrationError(phase, `Only ${linear.length} samples recorded`);
+    }
+
+    const mags = linear.map((s) => s.mag);
+    const mean = mags.reduce((a, b) => a + b, 0) / mags.length;
+    const std = Math.sqrt(mags.reduce((a, b) => a + (b - mean) * (b - mean), 0) / Math.max(1, mags.length - 1));
+    // Same peak height as the engine's magPeak threshold
+    const peaks = countPeaks(linear.map((s) => ({ t: s.t, v: s.mag })), mean + std * 0.45);
+    const durationSec = Math.max(0.001, (linear[linear.length - 1].t - linear[0].t) / 1000);
+
+    return {
+        mean: round2(mean),
+        std: round2(std),
+        max: round2(Math.max(...mags)),
+        peaks,
+        cadence: round2(peaks / durationSec),
+    };
+}
+
+/** Turn the three recorded phases into a calibration, rejecting recordings that cannot be right */
+export function buildCalibration(recordings: Record<CalibrationPhase, PhaseRecording>): MotionCalibration {
+    const still = computeActivityProfile("still", recordings.still);
+    const walk = computeActivityProfile("walk", recordings.walk);
+    const jump = computeActivityProfile("jump", recordings.jump);
+
+    if (walk.peaks < CALIBRATION_TARGETS.walk * MIN_PEAK_RATIO) {
+        throw new CalibrationError("walk", `Only ${walk.peaks} of ${CALIBRATION_TARGETS.walk} steps detected`);
+    }
+    if (jump.peaks < CALIBRATION_TARGETS.jump * MIN_PEAK_RATIO) {
+        throw new CalibrationError("jump", `Only ${jump.peaks} of ${CALIBRATION_TARGETS.jump} jumps detected`);
+    }
+    if (walk.mean <= still.mean) {
+        throw new CalibrationError("walk", "Walking was not distinguishable from standing still");
+    }
+    if (jump.max <= walk.max) {
+        throw new CalibrationError("jump", "Jumping was not distinguishable from walking");
+    }
+
+    return { still, walk, jump };
+}
+
+// ------------------
+// Storage
+// ------------------
+
+export interface StoredCalibration {
+    version: 1;
+    userId: string;
+    deviceId: string;
+    calibratedAt: string;
+    userAgent: string;
+    calibration: MotionCalibration;
+}
+
+const CALIBRATIONS_KEY = "motionCalibrations";
+const DEVICE_ID_KEY = "deviceId";
+
+/** Random id for this browser, created on first use */
+export function getDeviceId(): string {
+    let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+    if (!deviceId) {
+        deviceId = typeof crypto !== "undefined" && "randomUUID" in crypto
+            ? crypto.randomUUID()
+            : `device-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+        localStorage.setItem(DEVICE_ID_KEY, deviceId);
+    }
+    return deviceId;
+}
+
+const storageKey = (userId: string) => `${userId}:${getDeviceId()}`;
+
+function loadAll(): Record<string, StoredCalibration> {
+    try {
+        const saved = localStorage.getItem(CALIBRATIONS_KEY);
+        return saved ? (JSON.parse(saved) as Record<string, StoredCalibration>) : {};
+    } catch {
+        return {};
+    }
+}
+
+function saveAll(calibrations: Record<string, StoredCalibration>) {
+    localStorage.setItem(CALIBRATIONS_KEY, JSON.stringify(calibrations));
+}
+
+export function loadCalibration(userId: string): StoredCalibration | null {
+    return loadAll()[storageKey(userId)] ?? null;
+}
+
+export function saveCalibration(userId: string, calibration: MotionCalibration): StoredCalibration {
+    const stored: StoredCalibration = {
+        version: 1,
+        userId,
+        deviceId: getDeviceId(),
+        calibratedAt: new Date().toISOString(),
+        userAgent: typeof navigator !== "undefined" ? navigator.userAgent : "",
+        calibration,
+    };
+    saveAll({ ...loadAll(), [storageKey(userId)]: stored });
+    return stored;
+}
+
+/** Back to DEFAULT_CALIBRATION for this user on this device */
+export function clearCalibration(userId: string) {
+    const calibrations = loadAll();
+    delete calibrations[storageKey(userId)];
+    saveAll(calibrations);
+}
@@ -0,0 +1,204 @@
+import { Activity, MotionConfig, MotionEvent, MotionSample, runMotionTrace } from "@/lib/motion";
+
+// ==================
+// Motion traces
+// ==================
+// Raw accelerometer recordings for tuning ./motion offline: record on a
+// phone, download as JSON or CSV, then replay the file through the same
+// engine (with other thresholds if wanted) and compare the detected steps,
+// activities and pauses on a chart.
+
+export interface MotionTrace {
+    version: 1;
+    recordedAt: string;
+    userAgent: string;
+    /** Milliseconds between devicemotion events, as reported by the browser */
+    intervalMs: number | null;
+    samples: MotionSample[];
+}
+
+export class TraceFormatError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "TraceFormatError";
+    }
+}
+
+// ------------------
+// Recording
+// ------------------
+
+export interface TraceRecorder {
+    add(sample: MotionSample, intervalMs?: number | null): void;
+    readonly sampleCount: number;
+    finish(): MotionTrace;
+}
+
+export function createTraceRecorder(): TraceRecorder {
+    const recordedAt = new Date().toISOString();
+    const samples: MotionSample[] = [];
+    let intervalMs: number | null = null;
+
+    return {
+        add(sample, interval = null) {
+            samples.push(sample);
+            if (intervalMs === null && interval) intervalMs = interval;
+        },
+        get sampleCount() {
+            return samples.length;
+        },
+        finish() {
+            return {
+                version: 1,
+                recordedAt,
+                userAgent: typeof navigator !== "undefined" ? navigator.userAgent : "",
+                intervalMs,
+                samples: [...samples],
+            };
+        },
+    };
+}
+
+// ------------------
+// File formats
+// ------------------
+
+const CSV_HEADER = "t,x,y,z";
+
+export function traceToJson(trace: MotionTrace): string {
+    return JSON.stringify(trace);
+}
+
+/** One row per sample; the metadata goes in leading `#` comment lines */
+export function traceToCsv(trace: MotionTrace): string {
+    const lines = [
+        `# recordedAt=${trace.recordedAt}`,
+        `# intervalMs=${trace.intervalMs ?? ""}`,
+        `# userAgent=${trace.userAgent}`,
+        CSV_HEADER,
+        ...trace.samples.map((s) => `${s.t},${s.x},${s.y},${s.z}`),
+    ];
+    return lines.join("\n");
+}
+
+function isSample(value: unknown): value is MotionSample {
+    if (!value || typeof value !== "object") return false;
+    const { t, x, y, z } = value as Record<string, unknown>;
+    return [t, x, y, z].every((n) => typeof n === "number" && Number.isFinite(n));
+}
+
+function parseCsv(text: string): MotionTrace {
+    const meta: Record<string, string> = {};
+    const samples: MotionSample[] = [];
+
+    text.split(/\r?\n/).forEach((raw, index) => {
+        const line = raw.trim();
+        if (!line || line === CSV_HEADER) return;
+        if (line.startsWith("#")) {
+            const [key, ...rest] = line.slice(1).trim().split("=");
+            meta[key] = rest.join("=");
+            return;
+        }
+        const [t, x, y, z] = line.split(",").map(Number);
+        const sample = { t, x, y, z };
+        if (!isSample(sample)) throw new TraceFormatError(`Line ${index + 1}: expected "t,x,y,z" numbers`);
+        samples.push(sample);
+    });
+
+    return {
+        version: 1,
+        recordedAt: meta.recordedAt ?? "",
+        userAgent: meta.userAgent ?? "",
+        intervalMs: meta.intervalMs ? Number(meta.intervalMs) : null,
+        samples,
+    };
+}
+
+/** Read a trace saved by traceToJson or traceToCsv */
+export function parseTrace(text: string): MotionTrace {
+    const trimmed = text.trim();
+    let trace: MotionTrace;
+
+    if (trimmed.startsWith("{")) {
+        let data: Partial<MotionTrace>;
+        try {
+            data = JSON.parse(trimmed);
+        } catch (error) {
+            throw new TraceFormatError(`Invalid JSON: ${(error as Error).message}`);
+        }
+        if (!Array.isArray(data.samples) || !data.samples.every(isSample)) {
+            throw new TraceFormatError("samples: expected an array of { t, x, y, z }");
+        }
+        trace = {
+            version: 1,
+            recordedAt: data.recordedAt ?? "",
+            userAgent: data.userAgent ?? "",
+            intervalMs: data.intervalMs ?? null,
+            samples: data.samples,
+        };
+    } else {
+        trace = parseCsv(trimmed);
+    }
+
+    if (trace.samples.length === 0) throw new TraceFormatError("Trace has no samples");
+    return trace;
+}
+
+// ------------------
+// Replay
+// ------------------
+
+export interface ActivitySegment {
+    /** Seconds from the first sample */
+    from: number;
+    to: number;
+    activity: Activity;
+}
+
+export interface ReplayResult {
+    events: MotionEvent[];
+    /** Raw acceleration magnitude over time (seconds from the first sample), thinned for charting */
+    series: Array<{ t: number; mag: number }>;
+    /** Step times in seconds */
+    steps: number[];
+    segments: ActivitySegment[];
+    pauses: Array<{ t: number; type: "pause" | "resume" }>;
+    durationSec: number;
+}
+
+const MAX_SERIES_POINTS = 1500;
+
+/** Feed a trace through a fresh motion engine (optionally with other settings) */
+export function replayTrace(trace: MotionTrace, overrides: Partial<MotionConfig> = {}): ReplayResult {
+    const samples = [...trace.samples].sort((a, b) => a.t - b.t);
+    const t0 = samples[0].t;
+    const end = samples[samples.length - 1].t;
+    const sec = (t: number) => (t - t0) / 1000;
+
+    const events = runMotionTrace(samples, overrides);
+
+    const segments: ActivitySegment[] = [];
+    let current: ActivitySegment = { from: 0, to: 0, activity: "idle" };
+    for (const event of events) {
+        if (event.type !== "activity") continue;
+        current.to = sec(event.t);
+        if (current.to > current.from) segments.push(current);
+        current = { from: sec(event.t), to: 0, activity: event.activity };
+    }
+    current.to = sec(end);
+    if (current.to > current.from) segments.push(current);
+
+    const stride = Math.max(1, Math.ceil(samples.length / MAX_SERIES_POINTS));
+    const series = samples
+        .filter((_, i) => i % stride === 0)
+        .map((s) => ({ t: sec(s.t), mag: Math.sqrt(s.x * s.x + s.y * s.y + s.z * s.z) }));
+
+    return {
+        events,
+        series,
+        steps: events.flatMap((e) => (e.type === "step" ? [sec(e.t)] : [])),
+        segments,
+        pauses: events.flatMap((e) => (e.type === "pause" || e.type === "resume" ? [{ t: sec(e.t), type: e.type }] : [])),
+        durationSec: sec(end),
+    };
+}
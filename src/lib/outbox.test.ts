@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { claimDailyQuest, ExerciseLogCreate, logExercise } from "@/lib/api";
+import { ServerError } from "@/lib/apiErrors";
+import { flushOutbox, listOutbox, OUTBOX_MAX_ATTEMPTS, OutboxEvent, retryDelayMs, submitOrQueue, subscribeOutbox } from "./outbox";
+
+vi.mock("@/lib/api", () => ({
+    logExercise: vi.fn(),
+    createTravelCheckin: vi.fn(),
+    claimDailyQuest: vi.fn(),
+}));
+
+const down = () => new ServerError("Service unavailable", 503, null);
+const exercise: ExerciseLogCreate = { exercise_type: "walking", duration_seconds: 600, steps: 900 };
+
+describe("outbox", () => {
+    const events: OutboxEvent[] = [];
+    let unsubscribe: () => void;
+
+    // No IndexedDB under node, so entries stay in memory between tests: each test uses its own users
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(Date.parse("2026-10-19T08:00:00Z"));
+        vi.mocked(logExercise).mockReset();
+        vi.mocked(claimDailyQuest).mockReset();
+        events.length = 0;
+        unsubscribe = subscribeOutbox((event) => events.push(event));
+    });
+
+    afterEach(() => {
+        unsubscribe();
+        vi.useRealTimers();
+    });
+
+    it("queues a transient failure and waits out the retry delay", async () => {
+        vi.mocked(logExercise).mockRejectedValue(down());
+        const result = await submitOrQueue("waiting", { kind: "logExercise", payload: exercise });
+        expect(result.status).toBe("queued");
+
+        await flushOutbox("waiting");
+        expect(logExercise).toHaveBeenCalledTimes(1);
+
+        vi.advanceTimersByTime(retryDelayMs(1));
+        await flushOutbox("waiting");
+        expect(logExercise).toHaveBeenCalledTimes(2);
+        expect(await listOutbox("waiting")).toMatchObject([{ attempts: 2 }]);
+    });
+
+    it("drops an entry after the last attempt so the next one can sync", async () => {
+        vi.mocked(logExercise).mockRejectedValue(down());
+        vi.mocked(claimDailyQuest).mockRejectedValueOnce(down());
+        await submitOrQueue("stuck", { kind: "logExercise", payload: exercise });
+        vi.advanceTimersByTime(1000);
+        await submitOrQueue("stuck", { kind: "claimDailyQuest", payload: { questId: 2 } });
+
+        vi.mocked(claimDailyQuest).mockResolvedValue({} as never);
+        for (let attempt = 2; attempt <= OUTBOX_MAX_ATTEMPTS; attempt++) {
+            await flushOutbox("stuck", { force: true });
+        }
+
+        expect(logExercise).toHaveBeenCalledTimes(OUTBOX_MAX_ATTEMPTS);
+        expect(events.filter((event) => event.type === "dropped")).toMatchObject([{ entry: { kind: "logExercise" } }]);
+        expect(events.filter((event) => event.type === "synced")).toMatchObject([{ entry: { kind: "claimDailyQuest" } }]);
+        expect(await listOutbox("stuck")).toEqual([]);
+    });
+
+    it("only replays the given user's entries", async () => {
+        vi.mocked(logExercise).mockRejectedValueOnce(down());
+        await submitOrQueue("other", { kind: "logExercise", payload: exercise });
+
+        await flushOutbox("active", { force: true });
+        expect(logExercise).toHaveBeenCalledTimes(1);
+        expect(await listOutbox("other")).toHaveLength(1);
+    });
+});
@@ -0,0 +1,286 @@
+import {
+    claimDailyQuest,
+    createTravelCheckin,
+    logExercise,
+    ClaimQuestResult,
+    ExerciseLogCreate,
+    ExerciseResult,
+    TravelCheckinCreate,
+    TravelCheckinResult,
+} from "@/lib/api";
+import { ApiError, ConflictError, ContractError, NetworkError, ServerError, UnauthorizedError } from "@/lib/apiErrors";
+
+// ==================
+// Offline outbox
+// ==================
+// Mutations that must not be lost (exercise logs, check-ins, reward claims)
+// are sent through submitOrQueue. If the network fails they're persisted to
+// IndexedDB with an idempotency key and replayed when the app comes back
+// online or becomes visible again. Entries are per user and only replayed
+// while that user's profile is the active one (requests carry its token).
+// A failed replay waits longer each time (retryDelayMs); after
+// OUTBOX_MAX_ATTEMPTS the entry is dropped so the ones behind it can sync.
+
+export type OutboxAction =
+    | { kind: "logExercise"; payload: ExerciseLogCreate }
+    | { kind: "createTravelCheckin"; payload: TravelCheckinCreate }
+    | { kind: "claimDailyQuest"; payload: { questId: number } };
+
+export type OutboxKind = OutboxAction["kind"];
+
+interface OutboxResults {
+    logExercise: ExerciseResult;
+    createTravelCheckin: TravelCheckinResult;
+    claimDailyQuest: ClaimQuestResult;
+}
+
+export type OutboxEntry = OutboxAction & {
+    /** Also sent as the Idempotency-Key header */
+    id: string;
+    userId: string;
+    createdAt: string;
+    attempts: number;
+    lastError?: string;
+    /** ms since epoch; not replayed before this (unless forced) */
+    nextAttemptAt?: number;
+};
+
+export type OutboxEvent =
+    | { type: "changed" }
+    | { type: "synced"; entry: OutboxEntry }
+    | { type: "dropped"; entry: OutboxEntry; error: ApiError };
+
+export type SubmitResult<K extends OutboxKind> =
+    | { status: "sent"; result: OutboxResults[K] }
+    | { status: "queued"; entry: OutboxEntry };
+
+export const OUTBOX_MAX_ATTEMPTS = 8;
+
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+
+/** Wait after the given number of failed attempts: 30 s, 1 min, 2 min... up to an hour */
+export function retryDelayMs(attempts: number): number {
+    return Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_MS);
+}
+
+// ------------------
+// IndexedDB storage (in-memory fallback when IndexedDB is unavailable)
+// ------------------
+
+const DB_NAME = "pet-fitness";
+const DB_VERSION = 1;
+const STORE = "outbox";
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+const memoryStore = new Map<string, OutboxEntry>();
+
+function openDb(): Promise<IDBDatabase | null> {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise((resolve) => {
+        if (typeof indexedDB === "undefined") {
+            resolve(null);
+            return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(STORE)) {
+                db.createObjectStore(STORE, { keyPath: "id" });
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            console.warn("[Outbox] IndexedDB unavailable, falling back to memory:", request.error);
+            resolve(null);
+        };
+    });
+    return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+async function putEntry(entry: OutboxEntry): Promise<void> {
+    const db = await openDb();
+    if (!db) {
+        memoryStore.set(entry.id, entry);
+        return;
+    }
+    await promisify(db.transaction(STORE, "readwrite").objectStore(STORE).put(entry));
+}
+
+async function deleteEntry(id: string): Promise<void> {
+    const db = await openDb();
+    if (!db) {
+        memoryStore.delete(id);
+        return;
+    }
+    await promisify(db.transaction(STORE, "readwrite").objectStore(STORE).delete(id));
+}
+
+/** Pending entries, oldest first. Pass a userId to only list that user's entries. */
+export async function listOutbox(userId?: string): Promise<OutboxEntry[]> {
+    const db = await openDb();
+    const all = db
+        ? await promisify(db.transaction(STORE, "readonly").objectStore(STORE).getAll() as IDBRequest<OutboxEntry[]>)
+        : Array.from(memoryStore.values());
+    return all
+        .filter((entry) => !userId || entry.userId === userId)
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+// ------------------
+// Events
+// ------------------
+
+const listeners: Set<(event: OutboxEvent) => void> = new Set();
+
+export function subscribeOutbox(listener: (event: OutboxEvent) => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+const emit = (event: OutboxEvent) => {
+    listeners.forEach((listener) => listener(event));
+};
+
+// ------------------
+// Sending
+// ------------------
+
+function newIdempotencyKey(): string {
+    if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+        return crypto.randomUUID();
+    }
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+async function send(entry: OutboxEntry): Promise<OutboxResults[OutboxKind]> {
+    const options = { idempotencyKey: entry.id };
+    switch (entry.kind) {
+        case "logExercise":
+            return logExercise(entry.userId, entry.payload, options);
+        case "createTravelCheckin":
+            return createTravelCheckin(entry.userId, entry.payload, options);
+        case "claimDailyQuest":
+            return claimDailyQuest(entry.userId, entry.payload.questId, options);
+    }
+}
+
+/** Failures worth keeping the entry for: no response, or the backend is temporarily down */
+function isTransient(error: unknown): boolean {
+    return error instanceof NetworkError || error instanceof ServerError;
+}
+
+/**
+ * Send a mutation now; if the network fails, queue it for replay instead of throwing.
+ * Non-transient failures (validation, conflict, not found) are still thrown to the caller.
+ */
+export async function submitOrQueue<K extends OutboxKind>(
+    userId: string,
+    action: Extract<OutboxAction, { kind: K }>
+): Promise<SubmitResult<K>> {
+    const entry = {
+        ...action,
+        id: newIdempotencyKey(),
+        userId,
+        createdAt: new Date().toISOString(),
+        attempts: 1,
+    } as OutboxEntry;
+
+    try {
+        const result = (await send(entry)) as OutboxResults[K];
+        return { status: "sent", result };
+    } catch (error) {
+        if (!isTransient(error)) throw error;
+
+        entry.lastError = (error as Error).message;
+        entry.nextAttemptAt = Date.now() + retryDelayMs(entry.attempts);
+        await putEntry(entry);
+        emit({ type: "changed" });
+        console.warn(`[Outbox] ${entry.kind} queued for replay:`, entry.lastError);
+        return { status: "queued", entry };
+    }
+}
+
+let flushing: Promise<void> | null = null;
+
+/**
+ * Replay the user's queued entries in order. Stops at the first transient failure,
+ * or at an entry still waiting out its retry delay (`force` skips the wait).
+ */
+export function flushOutbox(userId: string, { force = false }: { force?: boolean } = {}): Promise<void> {
+    // Profile switched mid-flush: replay the new user's entries once the old flush ends
+    // (even when that flush failed)
+    if (flushing) return flushing.catch(() => undefined).then(() => flushOutbox(userId, { force }));
+
+    flushing = (async () => {
+        const entries = await listOutbox(userId);
+        for (const entry of entries) {
+            if (!force && entry.nextAttemptAt && entry.nextAttemptAt > Date.now()) break;
+            try {
+                await send(entry);
+                await deleteEntry(entry.id);
+                emit({ type: "synced", entry });
+            } catch (error) {
+                // Unauthorized: the session expired; keep it until the user signs in again
+                if (isTransient(error) || error instanceof UnauthorizedError) {
+                    const attempts = entry.attempts + 1;
+                    if (attempts < OUTBOX_MAX_ATTEMPTS) {
+                        const lastError = (error as Error).message;
+                        await putEntry({ ...entry, attempts, lastError, nextAttemptAt: Date.now() + retryDelayMs(attempts) });
+                        break;
+                    }
+                    // Out of attempts: give up on it so the entries behind it can sync
+                    await deleteEntry(entry.id);
+                    console.error(`[Outbox] Dropping ${entry.kind} after ${attempts} attempts:`, error);
+                    emit({ type: "dropped", entry, error: error as ApiError });
+                    continue;
+                }
+                await deleteEntry(entry.id);
+                if (error instanceof ConflictError || error instanceof ContractError) {
+                    // Conflict: already applied by an earlier attempt whose response was lost.
+                    // Contract: the backend accepted it, only the response shape was off.
+                    emit({ type: "synced", entry });
+                } else {
+                    console.error(`[Outbox] Dropping ${entry.kind} rejected by backend:`, error);
+                    emit({ type: "dropped", entry, error: error as ApiError });
+                }
+            }
+        }
+        emit({ type: "changed" });
+    })().finally(() => {
+        flushing = null;
+    });
+    return flushing;
+}
+
+/** Replay the user's entries on reconnect and whenever the app becomes visible. Returns a stop function. */
+export function startOutboxSync(userId: string): () => void {
+    // Nobody awaits these; an IndexedDB failure is logged and the next trigger tries again
+    const sync = () => {
+        flushOutbox(userId).catch((error) => {
+            console.error("[Outbox] Sync failed:", error);
+        });
+    };
+    const handleVisibility = () => {
+        if (!document.hidden && navigator.onLine) sync();
+    };
+
+    window.addEventListener("online", sync);
+    document.addEventListener("visibilitychange", handleVisibility);
+    if (navigator.onLine) sync();
+
+    return () => {
+        window.removeEventListener("online", sync);
+        document.removeEventListener("visibilitychange", handleVisibility);
+    };
+}
@@ -0,0 +1,148 @@
+import { STRENGTH_PER_LEVEL } from "./rewardRules";
+
+// ==================
+// Pet rules
+// ==================
+// How the backend levels a pet, caps its stats, resets the daily counters
+// and rewards daily quests and check-ins. The guest store and the mock
+// backend (mock/) apply these to their own copies of the pet, and the pages
+// read the caps and quest rewards from here. Like ./rewardRules, this module
+// imports nothing from the app (no "@/" paths) and uses no browser APIs.
+//
+//   const breakthroughRequired = grantStats(pet, { strength: 10, mood: 5 });
+
+/** Stamina of a rested pet; it resets to this daily */
+export const MAX_STAMINA = 900;
+export const MAX_MOOD = 100;
+
+/** Stamina lost on the daily check when the previous day's exercise fell short of daily quest 2 */
+export const DAILY_CHECK_PENALTY = 10;
+
+/** Rewards for a travel check-in (the travel page shows the per-quest bonus from quests.json) */
+export const CHECKIN_REWARD = { strength: 10, mood: 5 } as const;
+
+export interface DailyQuestRule {
+    strength: number;
+    stamina: number;
+    mood: number;
+    /** Exercise seconds today needed to claim */
+    minSeconds?: number;
+    /** Steps today needed to claim */
+    minSteps?: number;
+}
+
+export const DAILY_QUEST_RULES = {
+    1: { strength: 5, stamina: 5, mood: 5 },
+    2: { strength: 10, stamina: 0, mood: 5, minSeconds: 600 },
+    3: { strength: 10, stamina: 0, mood: 5, minSteps: 5000 },
+} satisfies Record<number, DailyQuestRule>;
+
+export type DailyQuestRuleId = keyof typeof DAILY_QUEST_RULES;
+
+/** The pet fields the rules read and change (Pet in lib/api) */
+export interface PetState {
+    strength: number;
+    stamina: number;
+    mood: number;
+    level: number;
+    stage: number;
+    breakthrough_completed: boolean;
+    updated_at: string;
+    daily_steps: number;
+    daily_exercise_seconds: number;
+    daily_quest_1_completed: boolean;
+    daily_quest_2_completed: boolean;
+    daily_quest_3_completed: boolean;
+}
+
+/** A pet with the bookkeeping for its daily counters */
+export interface DailyCounters {
+    pet: PetState;
+    /** Date (YYYY-MM-DD) the daily counters were last reset */
+    last_reset_date: string | null;
+    /** Exercise seconds of the day before the last reset, judged by the daily check */
+    previous_day_exercise_seconds: number;
+}
+
+export function today(): string {
+    return new Date().toISOString().split("T")[0];
+}
+
+export function stageForLevel(level: number): number {
+    if (level < 5) return 1;
+    if (level < 10) return 2;
+    if (level < 15) return 3;
+    return 4;
+}
+
+export function isBreakthroughPending(pet: PetState): boolean {
+    return pet.level >= 5 && pet.level % 5 === 0 && !pet.breakthrough_completed;
+}
+
+/**
+ * Add strength and recompute level. Levels stop at every 5th level until the
+ * breakthrough for it is completed; returns whether that cap is now in the way.
+ */
+export function addStrength(pet: PetState, amount: number): boolean {
+    pet.strength = Math.max(0, pet.strength + amount);
+    const uncapped = Math.floor(pet.strength / STRENGTH_PER_LEVEL) + 1;
+
+    // Next breakthrough level at or above the current one (5, 10, 15...)
+    const cap = pet.level % 5 === 0 && pet.breakthrough_completed
+        ? pet.level + 5
+        : Math.max(5, Math.ceil(pet.level / 5) * 5);
+    const level = Math.min(uncapped, cap);
+    if (level > pet.level) {
+        pet.breakthrough_completed = false;
+    }
+    pet.level = level;
+    pet.stage = stageForLevel(level);
+    pet.updated_at = new Date().toISOString();
+    return isBreakthroughPending(pet);
+}
+
+export function clampStats(pet: PetState) {
+    pet.stamina = Math.min(MAX_STAMINA, Math.max(0, pet.stamina));
+    pet.mood = Math.min(MAX_MOOD, Math.max(0, pet.mood));
+}
+
+/** Apply stat changes, clamped; returns whether a breakthrough is now required */
+export function grantStats(pet: PetState, { strength = 0, stamina = 0, mood = 0 }: { strength?: number; stamina?: number; mood?: number }): boolean {
+    pet.stamina += stamina;
+    pet.mood += mood;
+    clampStats(pet);
+    return addStrength(pet, strength);
+}
+
+export function questClaimed(pet: PetState, id: DailyQuestRuleId): boolean {
+    return pet[`daily_quest_${id}_completed`];
+}
+
+export function questClaimable(pet: PetState, id: DailyQuestRuleId): boolean {
+    if (questClaimed(pet, id)) return false;
+    const { minSeconds = 0, minSteps = 0 }: DailyQuestRule = DAILY_QUEST_RULES[id];
+    return pet.daily_exercise_seconds >= minSeconds && pet.daily_steps >= minSteps;
+}
+
+/** Whether the previous day's exercise avoids the daily check penalty */
+export function dailyCheckPassed(previousDayExerciseSeconds: number): boolean {
+    return previousDayExerciseSeconds >= DAILY_QUEST_RULES[2].minSeconds;
+}
+
+/**
+ * The backend resets the daily totals lazily, on the first request of a new
+ * day, and the pet wakes up rested (MAX_STAMINA). Returns whether they were reset.
+ */
+export function rollDailyCounters(owner: DailyCounters, date = today()): boolean {
+    if (owner.last_reset_date === date) return false;
+    const { pet } = owner;
+    owner.previous_day_exercise_seconds = pet.daily_exercise_seconds;
+    pet.daily_exercise_seconds = 0;
+    pet.daily_steps = 0;
+    pet.daily_quest_1_completed = false;
+    pet.daily_quest_2_completed = false;
+    pet.daily_quest_3_completed = false;
+    pet.stamina = MAX_STAMINA;
+    owner.last_reset_date = date;
+    return true;
+}
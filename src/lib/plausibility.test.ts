@@ -0,0 +1,176 @@
+import { describe, expect, it } from "vitest";
+import { Activity, MotionFeatures } from "./motion";
+import {
+    createPlausibilityMonitor,
+    excludedTotals,
+    ExcludedSegment,
+    intervalCv,
+    mergeSegment,
+    PlausibilityMonitor,
+} from "./plausibility";
+
+const features = (cadenceHz: number): MotionFeatures => ({
+    sampleCount: 50,
+    meanMag: 3,
+    stdMag: 1,
+    maxMag: 6,
+    peaksMag: Math.round(cadenceHz * 2),
+    peaksZ: 1,
+    cadenceHz,
+    verticalShare: 0.5,
+    verticalReversals: 4,
+});
+
+// Human gait: step intervals wander by a few percent
+const JITTER_MS = [0, 40, -30, 15, -25];
+
+interface Walk {
+    activity?: Activity;
+    cadenceHz?: number;
+    stepsPerSec?: number;
+    /** Every step exactly this far apart (a machine) instead of human jitter */
+    exactIntervalMs?: number;
+    /** Metres covered per second; null without GPS */
+    metresPerSec?: number | null;
+    reliable?: boolean;
+}
+
+/** Drives a monitor second by second, like the exercise page does */
+function simulate(monitor: PlausibilityMonitor, start = { elapsedSec: 0, steps: 0 }) {
+    let elapsedSec = start.elapsedSec;
+    let steps = start.steps;
+    let t = 1_000_000;
+    let distanceM = 0;
+    return {
+        run(seconds: number, walk: Walk = {}) {
+            const { activity = "walking", cadenceHz = 2, stepsPerSec = 2, exactIntervalMs, metresPerSec = null, reliable = true } = walk;
+            for (let i = 0; i < seconds; i++) {
+                for (let s = 0; s < stepsPerSec; s++) {
+                    t += exactIntervalMs ?? 1000 / stepsPerSec + JITTER_MS[steps % JITTER_MS.length];
+                    steps++;
+                    monitor.step(t);
+                }
+                elapsedSec++;
+                distanceM += metresPerSec ?? 0;
+                monitor.observe({
+                    elapsedSec,
+                    steps,
+                    activity,
+                    features: activity === "idle" ? null : features(cadenceHz),
+                    gps: metresPerSec === null ? null : { distanceM, reliable },
+                });
+            }
+            return this;
+        },
+        finish() {
+            monitor.finish(elapsedSec);
+            return monitor.getSegments();
+        },
+    };
+}
+
+describe("intervalCv", () => {
+    it("needs at least two intervals", () => {
+        expect(intervalCv([])).toBeNull();
+        expect(intervalCv([0, 500])).toBeNull();
+    });
+
+    it("is 0 for evenly spaced times", () => {
+        expect(intervalCv([0, 500, 1000, 1500])).toBe(0);
+    });
+
+    it("is the std of the intervals over their mean", () => {
+        // Intervals 400 and 600: mean 500, sample std √20000
+        expect(intervalCv([0, 400, 1000])).toBeCloseTo(Math.sqrt(20000) / 500);
+    });
+});
+
+describe("mergeSegment", () => {
+    const cadence: ExcludedSegment = { startSec: 0, endSec: 10, steps: 40, reason: "cadence" };
+
+    it("extends a touching segment with the same reason", () => {
+        expect(mergeSegment([cadence], { startSec: 10, endSec: 20, steps: 35, reason: "cadence" })).toEqual([
+            { startSec: 0, endSec: 20, steps: 75, reason: "cadence" },
+        ]);
+    });
+
+    it("keeps segments apart when the reason differs or there is a gap", () => {
+        const periodic: ExcludedSegment = { startSec: 10, endSec: 20, steps: 20, reason: "periodic" };
+        const later: ExcludedSegment = { startSec: 30, endSec: 40, steps: 20, reason: "cadence" };
+        expect(mergeSegment([cadence], periodic)).toEqual([cadence, periodic]);
+        expect(mergeSegment([cadence], later)).toEqual([cadence, later]);
+    });
+});
+
+describe("excludedTotals", () => {
+    it("adds up seconds and steps", () => {
+        expect(excludedTotals([])).toEqual({ seconds: 0, steps: 0 });
+        expect(excludedTotals([
+            { startSec: 0, endSec: 10, steps: 40, reason: "cadence" },
+            { startSec: 30, endSec: 45, steps: 5, reason: "sustained" },
+        ])).toEqual({ seconds: 25, steps: 45 });
+    });
+});
+
+describe("createPlausibilityMonitor", () => {
+    it("flags nothing for an ordinary walk", () => {
+        const segments = simulate(createPlausibilityMonitor()).run(120, { metresPerSec: 1.4 }).finish();
+        expect(segments).toEqual([]);
+    });
+
+    it("flags a cadence above the human limit, announcing a growing stretch once", () => {
+        const monitor = createPlausibilityMonitor();
+        const announced: ExcludedSegment[] = [];
+        monitor.subscribe((segment) => announced.push(segment));
+
+        const segments = simulate(monitor).run(10).run(20, { cadenceHz: 4, stepsPerSec: 4 }).run(10).finish();
+        expect(segments).toEqual([{ startSec: 10, endSec: 30, steps: 80, reason: "cadence" }]);
+        expect(announced).toEqual([{ startSec: 10, endSec: 20, steps: 40, reason: "cadence" }]);
+    });
+
+    it("doesn't flag a segment spent standing still", () => {
+        const segments = simulate(createPlausibilityMonitor()).run(20, { activity: "idle", cadenceHz: 4, stepsPerSec: 0 }).finish();
+        expect(segments).toEqual([]);
+    });
+
+    it("flags machine-regular steps once enough of them are seen", () => {
+        const segments = simulate(createPlausibilityMonitor()).run(20, { exactIntervalMs: 500 }).finish();
+        // 30 steps are needed first, so the first segment (20 steps) passes
+        expect(segments).toEqual([{ startSec: 10, endSec: 20, steps: 20, reason: "periodic" }]);
+    });
+
+    it("flags steps that go nowhere outdoors after a full GPS window", () => {
+        const segments = simulate(createPlausibilityMonitor()).run(70, { metresPerSec: 0.05 }).finish();
+        // Judged from the segment that fills the 60 s window
+        expect(segments).toEqual([{ startSec: 50, endSec: 70, steps: 40, reason: "gps_mismatch" }]);
+    });
+
+    it("flags distance covered without steps", () => {
+        const segments = simulate(createPlausibilityMonitor())
+            .run(60, { activity: "unknown", stepsPerSec: 0, metresPerSec: 12 })
+            .finish();
+        expect(segments).toEqual([{ startSec: 50, endSec: 60, steps: 0, reason: "gps_mismatch" }]);
+    });
+
+    it("doesn't judge the stride while GPS fixes are unreliable", () => {
+        const segments = simulate(createPlausibilityMonitor()).run(70, { metresPerSec: 0.05, reliable: false }).finish();
+        expect(segments).toEqual([]);
+    });
+
+    it("flags one activity kept up beyond its limit", () => {
+        const monitor = createPlausibilityMonitor({ maxSustainedSec: { jumping: 15 } });
+        const segments = simulate(monitor).run(30, { activity: "jumping" }).finish();
+        expect(segments).toEqual([{ startSec: 10, endSec: 30, steps: 40, reason: "sustained" }]);
+    });
+
+    it("starts a resumed workout's segments where it left off", () => {
+        const start = { elapsedSec: 300, steps: 400 };
+        const segments = simulate(createPlausibilityMonitor({}, start), start).run(10, { cadenceHz: 4, stepsPerSec: 4 }).finish();
+        expect(segments).toEqual([{ startSec: 300, endSec: 310, steps: 40, reason: "cadence" }]);
+    });
+
+    it("judges the last, partial segment on finish", () => {
+        const segments = simulate(createPlausibilityMonitor()).run(14, { cadenceHz: 4, stepsPerSec: 4 }).finish();
+        expect(segments).toEqual([{ startSec: 0, endSec: 14, steps: 56, reason: "cadence" }]);
+    });
+});
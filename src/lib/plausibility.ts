@@ -0,0 +1,278 @@
+import { Activity, MotionFeatures } from "@/lib/motion";
+
+// ==================
+// Plausibility checks
+// ==================
+// A layer on top of the motion engine that looks for movement a person
+// can't be making: the phone shaken in a hand, left on a washing machine,
+// or carried in a car. The workout is cut into segments of `segmentSec`
+// seconds of workout time. A segment that fails a check is flagged with a
+// reason, and its time and steps are left out of the rewards (see
+// ./rewardRules). The log carries the segments so the backend can tell.
+//
+//   const monitor = createPlausibilityMonitor();
+//   monitor.subscribe((segment) => { ... });  // newly flagged segment
+//   monitor.step(t);                          // per step event of the motion engine
+//   monitor.observe({ elapsedSec, ... });     // once per second of workout time
+//   monitor.finish(elapsedSec);               // when the workout stops
+//
+// Like ./motion it is free of React and browser APIs; time comes from the
+// inputs.
+
+export type PlausibilityReason = "cadence" | "periodic" | "gps_mismatch" | "sustained";
+
+export const PLAUSIBILITY_REASON_LABELS: Record<PlausibilityReason, string> = {
+    cadence: "動作頻率超出人體極限",
+    periodic: "節奏規律得不像人",
+    gps_mismatch: "步數和移動距離對不上",
+    sustained: "同一動作持續過久",
+};
+
+export interface ExcludedSegment {
+    /** Workout seconds, [startSec, endSec) */
+    startSec: number;
+    endSec: number;
+    /** Steps counted during the segment */
+    steps: number;
+    reason: PlausibilityReason;
+}
+
+export interface PlausibilityConfig {
+    segmentSec: number;
+    /** Mean window cadence (peaks per second) above this is not a person moving */
+    maxCadenceHz: number;
+    /** Step intervals more regular than this (std / mean) over periodicMinSteps steps look machine-made */
+    periodicMaxCv: number;
+    periodicMinSteps: number;
+    /** Trailing window for comparing steps with GPS distance */
+    gpsWindowSec: number;
+    /** Fewer metres per step than this while walking means the steps went nowhere */
+    minStrideM: number;
+    /** More metres per step than this can't be on foot */
+    maxStrideM: number;
+    /** Steps needed in the GPS window before the stride is judged */
+    gpsMinSteps: number;
+    /** Distance needed in the GPS window before a missing step count is judged */
+    gpsMinDistanceM: number;
+    /** Longest believable stretch of one activity, in seconds */
+    maxSustainedSec: Partial<Record<Activity, number>>;
+}
+
+export const DEFAULT_PLAUSIBILITY_CONFIG: PlausibilityConfig = {
+    segmentSec: 10,
+    // Window cadence tops out at 4 Hz (peaks at least 250 ms apart); fast running is around 3 Hz
+    maxCadenceHz: 3.7,
+    // Human gait varies a few percent from step to step
+    periodicMaxCv: 0.015,
+    periodicMinSteps: 30,
+    gpsWindowSec: 60,
+    minStrideM: 0.15,
+    maxStrideM: 5,
+    gpsMinSteps: 60,
+    gpsMinDistanceM: 250,
+    maxSustainedSec: {
+        jumping: 20 * 60,
+        skipping: 30 * 60,
+        squat: 10 * 60,
+        stairs: 60 * 60,
+    },
+};
+
+export interface PlausibilityInput {
+    /** Workout seconds so far */
+    elapsedSec: number;
+    /** Steps so far */
+    steps: number;
+    activity: Activity;
+    /** Latest motion window, see MotionState.features */
+    features: MotionFeatures | null;
+    /** Outdoor mode only. `reliable` is false while fixes are stale or inaccurate */
+    gps: { distanceM: number; reliable: boolean } | null;
+}
+
+export interface PlausibilityMonitor {
+    readonly config: PlausibilityConfig;
+    /** A step detected at `t` (ms), as in the motion engine's step event */
+    step(t: number): void;
+    observe(input: PlausibilityInput): void;
+    /** Judge the last, partial segment */
+    finish(elapsedSec: number): void;
+    subscribe(listener: (segment: ExcludedSegment) => void): () => void;
+    /** Flagged segments so far, adjacent ones with the same reason merged */
+    getSegments(): ExcludedSegment[];
+}
+
+// ------------------
+// Pure helpers
+// ------------------
+
+/** Coefficient of variation of the intervals between consecutive times */
+export function intervalCv(times: number[]): number | null {
+    if (times.length < 3) return null;
+    const intervals = times.slice(1).map((t, i) => t - times[i]);
+    const mean = intervals.reduce((a, b) => a + b, 0) / intervals.length;
+    if (mean <= 0) return null;
+    const variance = intervals.reduce((a, b) => a + (b - mean) * (b - mean), 0) / (intervals.length - 1);
+    return Math.sqrt(variance) / mean;
+}
+
+/** Append a segment, merging it into the previous one when they touch and share a reason */
+export function mergeSegment(segments: ExcludedSegment[], segment: ExcludedSegment): ExcludedSegment[] {
+    const last = segments[segments.length - 1];
+    if (last && last.reason === segment.reason && last.endSec === segment.startSec) {
+        return [...segments.slice(0, -1), { ...last, endSec: segment.endSec, steps: last.steps + segment.steps }];
+    }
+    return [...segments, segment];
+}
+
+export function excludedTotals(segments: ExcludedSegment[]): { seconds: number; steps: number } {
+    return segments.reduce(
+        (total, segment) => ({
+            seconds: total.seconds + Math.max(0, segment.endSec - segment.startSec),
+            steps: total.steps + segment.steps,
+        }),
+        { seconds: 0, steps: 0 }
+    );
+}
+
+// ------------------
+// Monitor
+// ------------------
+
+interface SecondRecord {
+    steps: number;
+    gps: PlausibilityInput["gps"];
+}
+
+/** `start`: workout seconds and steps already done, when resuming an interrupted workout */
+export function createPlausibilityMonitor(
+    overrides: Partial<PlausibilityConfig> = {},
+    start: { elapsedSec: number; steps: number } = { elapsedSec: 0, steps: 0 }
+): PlausibilityMonitor {
+    const config: PlausibilityConfig = { ...DEFAULT_PLAUSIBILITY_CONFIG, ...overrides };
+    const listeners: Set<(segment: ExcludedSegment) => void> = new Set();
+
+    let segments: ExcludedSegment[] = [];
+    let stepTimes: number[] = [];
+    // Per second of the trailing GPS window
+    let history: SecondRecord[] = [];
+
+    let lastSteps = start.steps;
+
+    // The segment being filled
+    let segmentStart = start.elapsedSec;
+    let segmentStartSteps = start.steps;
+    let segmentHasSteps = false;
+    let cadenceSum = 0;
+    let cadenceCount = 0;
+    let movingSeconds = 0;
+    let sustainedOver = false;
+
+    // Current run of a single activity
+    let runActivity: Activity | null = null;
+    let runSec = 0;
+
+    const startSegment = (at: number, steps: number) => {
+        segmentStart = at;
+        segmentStartSteps = steps;
+        segmentHasSteps = false;
+        cadenceSum = 0;
+        cadenceCount = 0;
+        movingSeconds = 0;
+        sustainedOver = false;
+    };
+
+    const gpsMismatch = (): boolean => {
+        const records = history.slice(-config.gpsWindowSec);
+        if (records.length < config.gpsWindowSec) return false;
+        if (!records.every((record) => record.gps?.reliable)) return false;
+        const first = records[0];
+        const last = records[records.length - 1];
+
+        const steps = last.steps - first.steps;
+        const distanceM = (last.gps?.distanceM ?? 0) - (first.gps?.distanceM ?? 0);
+        // Steps in place (a shaken phone) or distance without steps (a vehicle)
+        const stepsGoNowhere = steps >= config.gpsMinSteps && distanceM < steps * config.minStrideM;
+        const distanceWithoutSteps = distanceM >= config.gpsMinDistanceM && distanceM > steps * config.maxStrideM;
+        return stepsGoNowhere || distanceWithoutSteps;
+    };
+
+    const judge = (): PlausibilityReason | null => {
+        // Nothing to exclude when the segment was spent standing still
+        if (movingSeconds === 0) return null;
+        if (cadenceCount > 0 && cadenceSum / cadenceCount > config.maxCadenceHz) return "cadence";
+        if (segmentHasSteps) {
+            const recent = stepTimes.slice(-config.periodicMinSteps);
+            const cv = recent.length >= config.periodicMinSteps ? intervalCv(recent) : null;
+            if (cv !== null && cv < config.periodicMaxCv) return "periodic";
+        }
+        if (gpsMismatch()) return "gps_mismatch";
+        if (sustainedOver) return "sustained";
+        return null;
+    };
+
+    const closeSegment = (endSec: number, steps: number) => {
+        if (endSec <= segmentStart) return;
+        const reason = judge();
+        if (reason) {
+            const segment: ExcludedSegment = {
+                startSec: segmentStart,
+                endSec,
+                steps: Math.max(0, steps - segmentStartSteps),
+                reason,
+            };
+            const count = segments.length;
+            segments = mergeSegment(segments, segment);
+            // Announce a new stretch once, not every segment it grows by
+            if (segments.length > count) listeners.forEach((listener) => listener(segment));
+        }
+        startSegment(endSec, steps);
+    };
+
+    return {
+        config,
+
+        step(t) {
+            stepTimes.push(t);
+            if (stepTimes.length > config.periodicMinSteps) stepTimes = stepTimes.slice(-config.periodicMinSteps);
+            segmentHasSteps = true;
+        },
+
+        observe({ elapsedSec, steps, activity, features, gps }) {
+            lastSteps = steps;
+
+            if (activity !== "idle") {
+                movingSeconds++;
+                if (features) {
+                    cadenceSum += features.cadenceHz;
+                    cadenceCount++;
+                }
+            }
+
+            runSec = activity === runActivity ? runSec + 1 : 1;
+            runActivity = activity;
+            const limit = config.maxSustainedSec[activity];
+            if (limit !== undefined && runSec > limit) sustainedOver = true;
+
+            history.push({ steps, gps });
+            if (history.length > config.gpsWindowSec) history = history.slice(-config.gpsWindowSec);
+
+            if (elapsedSec - segmentStart >= config.segmentSec) closeSegment(elapsedSec, steps);
+        },
+
+        finish(elapsedSec) {
+            closeSegment(elapsedSec, lastSteps);
+        },
+
+        subscribe(listener) {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+
+        getSegments() {
+            return segments;
+        },
+    };
+}
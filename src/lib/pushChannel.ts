@@ -0,0 +1,115 @@
+import { z } from "zod";
+import { buildApiUrl, getAuthToken } from "@/lib/apiClient";
+import { PUSH_EVENT_SCHEMAS } from "@/lib/schemas";
+
+// ==================
+// Push channel (server-sent events)
+// ==================
+// Streams pet / quest / check-in changes for one user so other devices and
+// backend jobs (daily-check penalties) show up immediately. When the stream
+// can't be kept open, status goes to "unavailable" and callers fall back to
+// polling; reconnects keep being attempted in the background.
+
+export type PushEventName = keyof typeof PUSH_EVENT_SCHEMAS;
+
+export type PushEvent = {
+    [K in PushEventName]: { type: K } & z.infer<(typeof PUSH_EVENT_SCHEMAS)[K]>;
+}[PushEventName];
+
+/**
+ * connecting  — opening (or reopening) the stream
+ * open        — events are flowing; polling can stop
+ * unavailable — no EventSource, endpoint missing, or repeated failures; poll instead
+ */
+export type PushStatus = "connecting" | "open" | "unavailable";
+
+export interface PushChannelHandlers {
+    onEvent: (event: PushEvent) => void;
+    onStatus?: (status: PushStatus) => void;
+}
+
+// Reconnect with backoff; after this many failures in a row without ever
+// opening, report "unavailable" so polling takes over
+const MAX_FAILURES_BEFORE_FALLBACK = 3;
+const RECONNECT_BASE_MS = 2000;
+const RECONNECT_MAX_MS = 5 * 60 * 1000;
+
+export function isPushSupported(): boolean {
+    return typeof window !== "undefined" && typeof window.EventSource !== "undefined";
+}
+
+/** Open the event stream for a user. Returns a function that closes it for good. */
+export function connectPushChannel(userId: string, handlers: PushChannelHandlers): () => void {
+    const { onEvent, onStatus } = handlers;
+
+    if (!isPushSupported()) {
+        onStatus?.("unavailable");
+        return () => {};
+    }
+
+    let source: EventSource | null = null;
+    let reconnectTimer: number | null = null;
+    let failures = 0;
+    let closed = false;
+
+    const setStatus = (status: PushStatus) => {
+        if (!closed) onStatus?.(status);
+    };
+
+    const handleMessage = (name: PushEventName) => (message: MessageEvent) => {
+        let data: unknown;
+        try {
+            data = JSON.parse(message.data);
+        } catch {
+            console.warn(`[Push] Ignoring non-JSON "${name}" event:`, message.data);
+            return;
+        }
+        const parsed = PUSH_EVENT_SCHEMAS[name].safeParse(data);
+        if (!parsed.success) {
+            console.error(`[Push] Contract error in "${name}" event:`, parsed.error.issues, data);
+            return;
+        }
+        onEvent({ type: name, ...parsed.data } as PushEvent);
+    };
+
+    const scheduleReconnect = () => {
+        const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** (failures - 1));
+        reconnectTimer = window.setTimeout(() => {
+            reconnectTimer = null;
+            open();
+        }, delay);
+    };
+
+    const open = () => {
+        if (closed) return;
+        setStatus(failures >= MAX_FAILURES_BEFORE_FALLBACK ? "unavailable" : "connecting");
+
+        // EventSource can't send headers, so the token goes in the query string
+        source = new EventSource(buildApiUrl(`/users/${userId}/events`, { access_token: getAuthToken() }));
+        source.onopen = () => {
+            failures = 0;
+            setStatus("open");
+        };
+        source.onerror = () => {
+            // EventSource retries on its own, but gives up silently on HTTP errors
+            // (404 when the backend has no stream yet); handle both the same way
+            source?.close();
+            source = null;
+            failures++;
+            setStatus(failures >= MAX_FAILURES_BEFORE_FALLBACK ? "unavailable" : "connecting");
+            scheduleReconnect();
+        };
+        for (const name of Object.keys(PUSH_EVENT_SCHEMAS) as PushEventName[]) {
+            source.addEventListener(name, handleMessage(name));
+        }
+    };
+
+    open();
+
+    return () => {
+        closed = true;
+        if (reconnectTimer !== null) clearTimeout(reconnectTimer);
+        source?.close();
+        source = null;
+    };
+}
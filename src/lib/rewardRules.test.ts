@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { computeRewards, LoggedWorkout, PROGRAM_REWARDS, sessionFromLog } from "./rewardRules";
+import { programDurationSec, WORKOUT_PROGRAMS } from "./workoutPrograms";
+
+const NOW = Date.parse("2026-10-19T12:00:00Z");
+
+const c25k = (log: Partial<LoggedWorkout>): LoggedWorkout => ({
+    duration_seconds: 25 * 60,
+    steps: 0,
+    program_id: "c25k-w1",
+    program_completed: true,
+    program_compliance: 1,
+    ...log,
+});
+
+const programItem = (log: LoggedWorkout) =>
+    computeRewards(sessionFromLog(log, NOW)).items.find((line) => line.kind === "program");
+
+describe("program rewards", () => {
+    it("are not granted for a 1-second log that claims a completed program", () => {
+        const outcome = computeRewards(sessionFromLog(c25k({ duration_seconds: 1 }), NOW));
+        expect(outcome.items.some((line) => line.kind === "program")).toBe(false);
+        expect(outcome.deltas).toEqual({ strength: 0, stamina: 0, mood: 0 });
+    });
+
+    it("are granted when the log covers the whole program", () => {
+        expect(programItem(c25k({}))).toMatchObject({ strength: 50, mood: 15 });
+    });
+
+    it("are not granted when excluded segments leave less than the program's length", () => {
+        const log = c25k({ excluded_segments: [{ start_sec: 0, end_sec: 60, steps: 0, reason: "cadence" }] });
+        expect(programItem(log)).toBeUndefined();
+    });
+
+    it("are not granted below the minimum compliance", () => {
+        expect(programItem(c25k({ program_compliance: 0.5 }))).toBeUndefined();
+    });
+
+    it("use the length of each program's phases", () => {
+        for (const program of WORKOUT_PROGRAMS) {
+            expect(PROGRAM_REWARDS[program.id].durationSec).toBe(programDurationSec(program));
+        }
+    });
+});
@@ -0,0 +1,211 @@
+// ==================
+// Reward rules
+// ==================
+// What a logged workout is worth: stat deltas plus the line items that
+// explain them. The backend is the authority. It runs these rules on the
+// session it receives and applies the deltas itself, and the exercise page
+// only shows what comes back. The page uses the same rules for the live
+// estimate, and the guest store and mock backend (mock/routes.ts) use them
+// as the backend. So this module imports nothing from the app (no "@/"
+// paths) and uses no browser APIs.
+//
+//   const { deltas, items } = computeRewards({ durationSec: 600, ... });
+//   // deltas: { strength: 69, stamina: -69, mood: 46 }
+//   // items:  base, morning bonus, stamina cost...
+
+export interface RewardSession {
+    durationSec: number;
+    /** Seconds flagged as implausible (see ./plausibility); they earn nothing */
+    excludedSec: number;
+    /** Flagged steps already taken out. Not rewarded on their own; the daily step quest counts them */
+    steps: number;
+    /** Seconds per detected activity (ExerciseLogCreate.activity_breakdown) */
+    activityBreakdown: Record<string, number> | null;
+    /** ms since epoch */
+    startedAt: number;
+    /** Conditions during the workout; null when unknown */
+    weather: { raining: boolean } | null;
+    /** Workout program the session followed (see ./workoutPrograms) */
+    program: { id: string; completed: boolean; compliance: number } | null;
+}
+
+export interface StatDeltas {
+    strength: number;
+    stamina: number;
+    mood: number;
+}
+
+export type RewardLineItemKind = "base" | "morning" | "rain" | "program" | "excluded" | "stamina";
+
+export interface RewardLineItem extends StatDeltas {
+    kind: RewardLineItemKind;
+    label: string;
+}
+
+export interface RewardOutcome {
+    /** Sum of the line items */
+    deltas: StatDeltas;
+    items: RewardLineItem[];
+}
+
+export const REWARD_RULES = {
+    secondsPerStrength: 10,
+    secondsPerMood: 15,
+    /** 早雞: workouts started in [start, end) o'clock, Taipei time */
+    morningHours: { start: 6, end: 10 },
+    morningBonusPercent: 15,
+    rainBonusPercent: 10,
+    /** Stamina spent per point of strength gained */
+    staminaPerStrength: 1,
+} as const;
+
+/** Strength per level; the level-up threshold the pet works toward */
+export const STRENGTH_PER_LEVEL = 120;
+
+export interface ProgramRewardRule {
+    /** Total length of the program's phases; the credited workout time has to cover it */
+    durationSec: number;
+    /** Overall compliance (0–1) needed for the reward */
+    minCompliance: number;
+    reward: { strength: number; mood: number };
+}
+
+// Keyed by WorkoutProgram.id; ./workoutPrograms reads its terms from here
+export const PROGRAM_REWARDS: Record<string, ProgramRewardRule> = {
+    "jog-walk-5x": { durationSec: 15 * 60, minCompliance: 0.6, reward: { strength: 30, mood: 10 } },
+    "hiit-7": { durationSec: 12 * 30 + 11 * 10, minCompliance: 0.5, reward: { strength: 25, mood: 15 } },
+    "c25k-w1": { durationSec: 25 * 60, minCompliance: 0.6, reward: { strength: 50, mood: 15 } },
+};
+
+/** The exercise log fields the rules read (ExerciseLogCreate in lib/api) */
+export interface LoggedWorkout {
+    duration_seconds: number;
+    steps: number;
+    activity_breakdown?: Record<string, number> | null;
+    started_at?: string | null;
+    raining?: boolean | null;
+    program_id?: string | null;
+    program_completed?: boolean | null;
+    program_compliance?: number | null;
+    excluded_segments?: Array<{ start_sec: number; end_sec: number; steps: number; reason: string }> | null;
+}
+
+/** A logged workout as the rules see it, received at `now` (ms since epoch) */
+export function sessionFromLog(log: LoggedWorkout, now = Date.now()): RewardSession {
+    // A missing, unparsable or future start time means it just ended
+    const latestStart = now - log.duration_seconds * 1000;
+    const reportedStart = log.started_at ? Date.parse(log.started_at) : NaN;
+    // Clamped to the workout, so a bad segment can't take away more than there was
+    const excluded = (log.excluded_segments ?? []).reduce(
+        (total, segment) => ({
+            seconds: total.seconds + Math.max(0, Math.min(segment.end_sec, log.duration_seconds) - Math.max(0, segment.start_sec)),
+            steps: total.steps + Math.max(0, segment.steps),
+        }),
+        { seconds: 0, steps: 0 }
+    );
+    return {
+        durationSec: log.duration_seconds,
+        excludedSec: Math.min(excluded.seconds, log.duration_seconds),
+        steps: Math.max(0, log.steps - excluded.steps),
+        activityBreakdown: log.activity_breakdown ?? null,
+        startedAt: Number.isFinite(reportedStart) ? Math.min(reportedStart, latestStart) : latestStart,
+        weather: typeof log.raining === "boolean" ? { raining: log.raining } : null,
+        program: log.program_id
+            ? { id: log.program_id, completed: log.program_completed === true, compliance: log.program_compliance ?? 0 }
+            : null,
+    };
+}
+
+// The game runs on Taipei time, wherever the server or the phone is
+const TAIPEI_UTC_OFFSET_MS = 8 * 60 * 60 * 1000;
+
+export function isMorningStart(startedAt: number): boolean {
+    const hour = new Date(startedAt + TAIPEI_UTC_OFFSET_MS).getUTCHours();
+    return hour >= REWARD_RULES.morningHours.start && hour < REWARD_RULES.morningHours.end;
+}
+
+/** Seconds that earn the base reward: time classified as idle or flagged as implausible doesn't count */
+export function activeSeconds(session: RewardSession): number {
+    const idleSec = session.activityBreakdown?.idle ?? 0;
+    return Math.max(0, session.durationSec - idleSec - session.excludedSec);
+}
+
+/** Seconds counted toward the daily exercise quest */
+export function creditedSeconds(session: RewardSession): number {
+    return Math.max(0, session.durationSec - session.excludedSec);
+}
+
+/**
+ * The program's reward, when the session says it was completed with enough
+ * compliance. Those are the client's word, so the credited time also has to
+ * cover the whole program: a short log can't claim it.
+ */
+export function programRewardEarned(session: RewardSession): ProgramRewardRule["reward"] | null {
+    const { program } = session;
+    const rule = program ? PROGRAM_REWARDS[program.id] : undefined;
+    if (!program || !rule || !program.completed || program.compliance < rule.minCompliance) return null;
+    if (creditedSeconds(session) < rule.durationSec) return null;
+    return rule.reward;
+}
+
+const item = (kind: RewardLineItemKind, label: string, deltas: Partial<StatDeltas>): RewardLineItem => ({
+    kind,
+    label,
+    strength: deltas.strength ?? 0,
+    stamina: deltas.stamina ?? 0,
+    mood: deltas.mood ?? 0,
+});
+
+const bonus = (base: RewardLineItem, percent: number) => ({
+    strength: Math.floor((base.strength * percent) / 100),
+    mood: Math.floor((base.mood * percent) / 100),
+});
+
+export function computeRewards(session: RewardSession): RewardOutcome {
+    const activeSec = activeSeconds(session);
+    const base = item("base", `運動 ${activeSec} 秒`, {
+        strength: Math.floor(activeSec / REWARD_RULES.secondsPerStrength),
+        mood: Math.floor(activeSec / REWARD_RULES.secondsPerMood),
+    });
+    const items = [base];
+    if (session.excludedSec > 0) {
+        items.push(item("excluded", `不計入的異常片段 ${session.excludedSec} 秒`, {}));
+    }
+
+    // Bonuses are percentages of the base reward, each on its own
+    if (isMorningStart(session.startedAt)) {
+        items.push(item("morning", `早雞加成 ${REWARD_RULES.morningBonusPercent}%`, bonus(base, REWARD_RULES.morningBonusPercent)));
+    }
+    if (session.weather?.raining) {
+        items.push(item("rain", `雨天加成 ${REWARD_RULES.rainBonusPercent}%`, bonus(base, REWARD_RULES.rainBonusPercent)));
+    }
+
+    const programReward = programRewardEarned(session);
+    if (programReward) {
+        items.push(item("program", "完成課表", programReward));
+    }
+
+    const strengthGained = items.reduce((total, line) => total + line.strength, 0);
+    if (strengthGained > 0) {
+        items.push(item("stamina", "體力消耗", { stamina: -strengthGained * REWARD_RULES.staminaPerStrength }));
+    }
+
+    const deltas = items.reduce<StatDeltas>(
+        (total, line) => ({
+            strength: total.strength + line.strength,
+            stamina: total.stamina + line.stamina,
+            mood: total.mood + line.mood,
+        }),
+        { strength: 0, stamina: 0, mood: 0 }
+    );
+    return { deltas, items };
+}
+
+/** e.g. "力量+60 心情+40 體力-60"; stats that didn't change are left out */
+export function formatStatDeltas({ strength = 0, stamina = 0, mood = 0 }: Partial<StatDeltas>): string {
+    const parts: Array<[string, number]> = [["力量", strength], ["心情", mood], ["體力", stamina]];
+    return parts
+        .filter(([, value]) => value !== 0)
+        .map(([label, value]) => `${label}${value > 0 ? "+" : ""}${value}`)
+        .join(" ");
+}
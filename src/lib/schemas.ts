@@ -0,0 +1,207 @@
+import { z } from "zod";
+
+// ==================
+// Backend response schemas
+// ==================
+// Single source of truth for backend payloads: api.ts exports the inferred
+// types, and apiRequest validates every response against its schema.
+
+// User.id is a TownPass string ID, but older endpoints still serialise it as a number
+const UserIdSchema = z.union([z.string(), z.number()]).transform(String);
+
+export const PetSchema = z.object({
+    id: z.number(),
+    owner_id: UserIdSchema,
+    name: z.string(),
+    strength: z.number(),
+    stamina: z.number(),
+    mood: z.number(),
+    level: z.number(),
+    stage: z.number(),
+    breakthrough_completed: z.boolean(),
+    updated_at: z.string(),
+    last_daily_check: z.string().nullish(),
+    daily_steps: z.number().optional(),  // 今日步數
+    daily_exercise_seconds: z.number().optional(),  // 今日運動秒數
+    daily_quest_1_completed: z.boolean().optional(),
+    daily_quest_2_completed: z.boolean().optional(),
+    daily_quest_3_completed: z.boolean().optional(),
+});
+
+export const ExerciseLogSchema = z.object({
+    id: z.number(),
+    exercise_type: z.string(),
+    duration_seconds: z.number(),
+    volume: z.number(),
+    activity_breakdown: z.record(z.string(), z.number()).nullish(),
+    distance_meters: z.number().nullish(),
+    elevation_gain_meters: z.number().nullish(),
+    route_polyline: z.string().nullish(),
+    program_id: z.string().nullish(),
+    program_completed: z.boolean().nullish(),
+    program_compliance: z.number().nullish(),
+    started_at: z.string().nullish(),
+    raining: z.boolean().nullish(),
+    excluded_segments: z
+        .array(z.object({ start_sec: z.number(), end_sec: z.number(), steps: z.number(), reason: z.string() }))
+        .nullish(),
+    created_at: z.string(),
+    user_id: UserIdSchema,
+    pet_id: z.number(),
+});
+
+export const UserSchema = z.object({
+    id: UserIdSchema,
+    created_at: z.string(),
+    pet: PetSchema.nullish(),
+    exercise_logs: z.array(ExerciseLogSchema).nullish(),
+});
+
+const StatDeltasSchema = z.object({
+    strength: z.number(),
+    stamina: z.number(),
+    mood: z.number(),
+});
+
+/** Matches RewardOutcome in lib/rewardRules; `kind` stays open for rules added on the backend */
+export const RewardOutcomeSchema = z.object({
+    deltas: StatDeltasSchema,
+    items: z.array(StatDeltasSchema.extend({ kind: z.string(), label: z.string() })),
+});
+
+export const ExerciseResultSchema = z.object({
+    pet: PetSchema,
+    breakthrough_required: z.boolean(),
+    message: z.string().nullish(),
+    /** What the workout earned, already applied to `pet` */
+    rewards: RewardOutcomeSchema.nullish(),
+});
+
+export const QuestSchema = z.object({
+    id: z.number(),
+    title: z.string(),
+    description: z.string(),
+    reward_strength: z.number(),
+    reward_stamina: z.number(),
+    reward_mood: z.number(),
+});
+
+export const UserQuestSchema = z.object({
+    id: z.number(),
+    user_id: UserIdSchema,
+    quest_id: z.number(),
+    is_completed: z.boolean(),
+    date: z.string(),
+    quest: QuestSchema,
+});
+
+export const AttractionSchema = z.object({
+    id: z.number(),
+    name: z.string(),
+    description: z.string(),
+    latitude: z.number(),
+    longitude: z.number(),
+    image_url: z.string().nullish(),
+});
+
+export const LeaderboardEntrySchema = z.object({
+    username: z.string(),
+    value: z.number(),
+});
+
+export const DailyCheckResultSchema = z.object({
+    pet: PetSchema,
+    exercised_enough: z.boolean(),
+    message: z.string(),
+});
+
+export const BreakthroughResultSchema = z.object({
+    success: z.boolean(),
+    pet: PetSchema,
+    message: z.string(),
+});
+
+// 每日統計
+export const DailyStatsSchema = z.object({
+    daily_exercise_seconds: z.number(),
+    daily_steps: z.number(),
+    last_reset_date: z.string().nullable(),
+});
+
+export const DAILY_QUEST_IDS = [1, 2, 3] as const;
+export type DailyQuestId = (typeof DAILY_QUEST_IDS)[number];
+
+// 每日任務狀態
+// The backend has shipped both `quest_N_completed` (meaning claimed) and the
+// explicit `quest_N_claimed` / `quest_N_claimable`. Either naming is accepted,
+// but a payload with neither for some quest is a contract error.
+export const DailyQuestStatusSchema = z
+    .object({
+        quest_1_completed: z.boolean().optional(),
+        quest_2_completed: z.boolean().optional(),
+        quest_3_completed: z.boolean().optional(),
+        quest_1_claimed: z.boolean().optional(),
+        quest_2_claimed: z.boolean().optional(),
+        quest_3_claimed: z.boolean().optional(),
+        quest_1_claimable: z.boolean().optional(),
+        quest_2_claimable: z.boolean().optional(),
+        quest_3_claimable: z.boolean().optional(),
+        daily_exercise_seconds: z.number().optional(),
+        daily_steps: z.number().optional(),
+    })
+    .superRefine((data, ctx) => {
+        for (const id of DAILY_QUEST_IDS) {
+            if (data[`quest_${id}_claimed` as const] === undefined && data[`quest_${id}_completed` as const] === undefined) {
+                ctx.addIssue({
+                    code: z.ZodIssueCode.custom,
+                    path: [`quest_${id}_claimed`],
+                    message: `Expected quest_${id}_claimed or quest_${id}_completed`,
+                });
+            }
+        }
+    });
+
+export const ClaimQuestResultSchema = z
+    .object({
+        success: z.boolean(),
+        message: z.string(),
+        pet: PetSchema.nullish(),
+        rewards: z
+            .object({
+                strength: z.number(),
+                stamina: z.number(),
+                mood: z.number(),
+            })
+            .nullish(),
+    })
+    .refine((data) => !data.success || data.rewards, {
+        message: "Successful claim must include rewards",
+        path: ["rewards"],
+    });
+
+export const TravelCheckinSchema = z.object({
+    id: z.number(),
+    user_id: UserIdSchema,
+    quest_id: z.string(),
+    completed_at: z.string(),
+    lat: z.number(),
+    lng: z.number(),
+});
+
+export const TravelCheckinResultSchema = z.object({
+    pet: PetSchema,
+    checkin: TravelCheckinSchema,
+});
+
+// ==================
+// Push events (GET /users/{id}/events, text/event-stream)
+// ==================
+// Each SSE message's `event:` name selects the payload schema for its `data:`
+
+export const PUSH_EVENT_SCHEMAS = {
+    // Pet changed (exercise on another device, daily-check penalty, reward claimed...)
+    pet: z.object({ pet: PetSchema }),
+    // Daily quest status changed; the full status is optional, clients refetch if missing
+    quests: z.object({ status: DailyQuestStatusSchema.nullish() }),
+    checkin: z.object({ checkin: TravelCheckinSchema }),
+};
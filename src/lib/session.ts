@@ -0,0 +1,225 @@
+import { completeBreakthrough, createTravelCheckin, createUser, getUser, logExercise, Pet, User } from "@/lib/api";
+import { ConflictError, NotFoundError } from "@/lib/apiErrors";
+import { setAuthToken } from "@/lib/apiClient";
+import {
+    GUEST_USER_ID,
+    clearGuestData,
+    createGuestData,
+    loadGuestData,
+    removeMigratedCheckin,
+    removeMigratedExerciseLog,
+} from "@/lib/guestStore";
+import type { TownPassUser } from "@/lib/townpassBridge";
+
+// ==================
+// Session
+// ==================
+// A session is the backend user id plus the bearer token sent with every API
+// call. TownPass users are looked up by their TownPass ID (which is also
+// their backend user id) and only created when missing. Outside TownPass the
+// user plays as a guest whose data stays in this browser (see ./guestStore)
+// until they upgrade by signing in with TownPass.
+
+export interface Session {
+    userId: string;
+    /** TownPass token, sent as `Authorization: Bearer`; null for guests */
+    authToken: string | null;
+}
+
+const USER_ID_KEY = "userId";
+const AUTH_TOKEN_KEY = "authToken";
+
+export function loadSession(): Session | null {
+    const userId = localStorage.getItem(USER_ID_KEY);
+    if (!userId) return null;
+    return { userId, authToken: localStorage.getItem(AUTH_TOKEN_KEY) };
+}
+
+export function saveSession(session: Session | null) {
+    if (session) {
+        localStorage.setItem(USER_ID_KEY, session.userId);
+        if (session.authToken) localStorage.setItem(AUTH_TOKEN_KEY, session.authToken);
+        else localStorage.removeItem(AUTH_TOKEN_KEY);
+    } else {
+        localStorage.removeItem(USER_ID_KEY);
+        localStorage.removeItem(AUTH_TOKEN_KEY);
+    }
+}
+
+// ------------------
+// Profiles
+// ------------------
+// Every pet signed in on this device (a shared family phone), with enough to
+// show it in the profile switcher without a request. The session above is
+// the active one; switching just makes another profile's session active.
+
+export interface Profile extends Session {
+    petName: string;
+    stage: number;
+    level: number;
+}
+
+const PROFILES_KEY = "profiles";
+
+export function loadProfiles(): Profile[] {
+    try {
+        const saved = localStorage.getItem(PROFILES_KEY);
+        return saved ? (JSON.parse(saved) as Profile[]) : [];
+    } catch {
+        return [];
+    }
+}
+
+function saveProfiles(profiles: Profile[]) {
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+}
+
+/** Add the session to the device's profiles, or refresh its token / pet summary */
+export function upsertProfile(session: Session, pet?: Pick<Pet, "name" | "stage" | "level"> | null): Profile[] {
+    const profiles = loadProfiles();
+    const existing = profiles.find((p) => p.userId === session.userId);
+    const profile: Profile = {
+        petName: pet?.name ?? existing?.petName ?? "",
+        stage: pet?.stage ?? existing?.stage ?? 1,
+        level: pet?.level ?? existing?.level ?? 1,
+        ...session,
+    };
+    const next = existing
+        ? profiles.map((p) => (p.userId === session.userId ? profile : p))
+        : [...profiles, profile];
+    saveProfiles(next);
+    return next;
+}
+
+export function removeProfile(userId: string): Profile[] {
+    const next = loadProfiles().filter((p) => p.userId !== userId);
+    saveProfiles(next);
+    return next;
+}
+
+function sessionFor(townpassUser: TownPassUser): Session {
+    return { userId: townpassUser.id, authToken: townpassUser.token ?? null };
+}
+
+/** Existing account for this TownPass user, or null if they haven't created a pet yet */
+export async function findTownPassAccount(townpassUser: TownPassUser, signal?: AbortSignal): Promise<{ session: Session; user: User } | null> {
+    if (!townpassUser.id) return null;
+    try {
+        const user = await getUser(townpassUser.id, { signal });
+        return { session: sessionFor(townpassUser), user };
+    } catch (error) {
+        if (error instanceof NotFoundError) return null;
+        throw error;
+    }
+}
+
+/** Create the account for a TownPass user; signs in if it already exists */
+export async function registerTownPassAccount(townpassUser: TownPassUser, petName: string): Promise<Session> {
+    try {
+        await createUser(petName, townpassUser.id);
+    } catch (error) {
+        // Created meanwhile (another device, or a lost response): just sign in
+        if (!(error instanceof ConflictError)) throw error;
+    }
+    return sessionFor(townpassUser);
+}
+
+// ------------------
+// Guest mode
+// ------------------
+
+const GUEST_SESSION: Session = { userId: GUEST_USER_ID, authToken: null };
+
+/** The guest pet saved in this browser, if any */
+export function findGuestAccount(): { session: Session; user: User } | null {
+    const data = loadGuestData();
+    if (!data) return null;
+    return {
+        session: GUEST_SESSION,
+        user: { id: GUEST_USER_ID, created_at: data.created_at, pet: data.pet, exercise_logs: data.exercise_logs },
+    };
+}
+
+/** Start guest mode with a new local-only pet (replaces any previous guest pet) */
+export function startGuestSession(petName: string): Session {
+    createGuestData(petName);
+    return GUEST_SESSION;
+}
+
+/**
+ * Move the guest's history to the TownPass user's account and return its session.
+ * Exercise logs and check-ins are replayed in order (breakthroughs the guest had
+ * done are redone along the way); quest rewards and daily-check penalties are not,
+ * since they belong to days that are over. Each replayed entry is removed from the
+ * guest data right away, so a failed upgrade can simply be retried.
+ */
+export async function upgradeGuestAccount(townpassUser: TownPassUser): Promise<Session> {
+    const guest = loadGuestData();
+    if (!guest) throw new Error("No guest data to upgrade");
+
+    const session = await registerTownPassAccount(townpassUser, guest.pet.name);
+    // The replay runs before signIn, so the token has to be set here
+    setAuthToken(session.authToken);
+    try {
+        // Redo a breakthrough the account is stuck at if the guest already got past it
+        const catchUpBreakthrough = async (pet: Pet) => {
+            const stuck = pet.level >= 5 && pet.level % 5 === 0 && !pet.breakthrough_completed;
+            const guestPassed = guest.pet.level > pet.level
+                || (guest.pet.level === pet.level && guest.pet.breakthrough_completed);
+            if (stuck && guestPassed) await completeBreakthrough(session.userId);
+        };
+
+        for (const log of guest.exercise_logs) {
+            const result = await logExercise(
+                session.userId,
+                {
+                    exercise_type: log.exercise_type,
+                    duration_seconds: log.duration_seconds,
+                    steps: log.volume,
+                    activity_breakdown: log.activity_breakdown ?? undefined,
+                    distance_meters: log.distance_meters ?? undefined,
+                    elevation_gain_meters: log.elevation_gain_meters ?? undefined,
+                    route_polyline: log.route_polyline ?? undefined,
+                    program_id: log.program_id ?? undefined,
+                    program_completed: log.program_completed ?? undefined,
+                    program_compliance: log.program_compliance ?? undefined,
+                    started_at: log.started_at ?? undefined,
+                    raining: log.raining ?? undefined,
+                    excluded_segments: log.excluded_segments?.map(({ start_sec, end_sec, steps, reason }) => ({
+                        start_sec,
+                        end_sec,
+                        steps,
+                        reason,
+                    })),
+                    // Past workouts: the new account can't claim today's daily quests with them
+                    migrated_from_guest: true,
+                },
+                // Keyed by the guest entry, so a retry after a lost response isn't counted twice
+                { idempotencyKey: `guest-${guest.created_at}-exercise-${log.id}` },
+            );
+            await catchUpBreakthrough(result.pet);
+            removeMigratedExerciseLog(log.id);
+        }
+
+        for (const checkin of guest.checkins) {
+            try {
+                const result = await createTravelCheckin(
+                    session.userId,
+                    { quest_id: checkin.quest_id, lat: checkin.lat, lng: checkin.lng },
+                    { idempotencyKey: `guest-${guest.created_at}-checkin-${checkin.id}` },
+                );
+                await catchUpBreakthrough(result.pet);
+            } catch (error) {
+                // The account already has this check-in
+                if (!(error instanceof ConflictError)) throw error;
+            }
+            removeMigratedCheckin(checkin.id);
+        }
+    } catch (error) {
+        setAuthToken(null);
+        throw error;
+    }
+
+    clearGuestData();
+    return session;
+}
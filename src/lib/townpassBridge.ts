@@ -0,0 +1,277 @@
+// ==================
+// TownPass bridge
+// ==================
+// Typed request/response layer over `window.flutterObject`. Messages in both
+// directions are JSON `{ name, data }`; a response is matched to its request
+// by `id` when the app echoes one, otherwise by `name` (oldest request first).
+//
+//   const user = await bridge.call("userinfo");
+//   const location = await bridge.call("location", null, { timeoutMs: 5000 });
+//   bridge.send("notify", { title: "...", content: "..." });
+//
+// Debug logging: bridge.setDebug(true), or `localStorage.bridgeDebug = "1"`.
+
+export type TownPassUser = {
+    id?: string;
+    name?: string;
+    email?: string;
+    phone?: string;
+    token?: string;
+    [key: string]: unknown;
+};
+
+/** A signed-in user has an id; when nobody is signed in the app answers `{ error: "USER_NOT_LOGGED_IN" }` instead */
+export function isTownPassUser(data: unknown): data is TownPassUser & { id: string } {
+    if (!data || typeof data !== "object") return false;
+    const { id } = data as Record<string, unknown>;
+    return typeof id === "string" && id.length > 0;
+}
+
+/** Raw `location` payload. There's no success flag: latitude/longitude are missing on failure. */
+export interface TownPassLocation {
+    latitude?: number;
+    longitude?: number;
+    accuracy?: number;
+    altitude?: number;
+    heading?: number;
+    speed?: number;
+    timestamp?: string | number;
+    error?: string;
+    message?: string;
+}
+
+/** Calls that expect a response: request payload → response payload */
+export interface BridgeCalls {
+    userinfo: { request: null; response: TownPassUser };
+    location: { request: null; response: TownPassLocation };
+}
+
+/** Fire-and-forget messages */
+export interface BridgeMessages {
+    notify: { title: string; content: string };
+}
+
+export type BridgeCallName = keyof BridgeCalls;
+export type BridgeMessageName = keyof BridgeMessages;
+
+export interface BridgeCallOptions {
+    timeoutMs?: number;
+    signal?: AbortSignal;
+}
+
+// ------------------
+// Errors
+// ------------------
+
+export class BridgeError extends Error {
+    readonly call: string;
+
+    constructor(call: string, message: string) {
+        super(message);
+        this.name = "BridgeError";
+        this.call = call;
+    }
+}
+
+/** Not running inside TownPass (no window.flutterObject) */
+export class BridgeUnavailableError extends BridgeError {
+    constructor(call: string) {
+        super(call, "TownPass flutterObject not available");
+        this.name = "BridgeUnavailableError";
+    }
+}
+
+export class BridgeTimeoutError extends BridgeError {
+    readonly timeoutMs: number;
+
+    constructor(call: string, timeoutMs: number) {
+        super(call, `TownPass "${call}" timed out after ${timeoutMs}ms`);
+        this.name = "BridgeTimeoutError";
+        this.timeoutMs = timeoutMs;
+    }
+}
+
+export class BridgeAbortedError extends BridgeError {
+    constructor(call: string) {
+        super(call, `TownPass "${call}" aborted`);
+        this.name = "BridgeAbortedError";
+    }
+}
+
+// ------------------
+// Internals
+// ------------------
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEBUG_STORAGE_KEY = "bridgeDebug";
+
+interface PendingCall {
+    id: string;
+    name: BridgeCallName;
+    resolve: (data: unknown) => void;
+    reject: (error: BridgeError) => void;
+}
+
+// In send order, so name-only responses go to the oldest request
+const pending: PendingCall[] = [];
+let attachedTo: FlutterObject | null = null;
+let nextId = 1;
+let debug = readDebugFlag();
+
+function readDebugFlag(): boolean {
+    try {
+        return typeof localStorage !== "undefined" && localStorage.getItem(DEBUG_STORAGE_KEY) === "1";
+    } catch {
+        return false;
+    }
+}
+
+const log = (...args: unknown[]) => {
+    if (debug) console.debug("[TownPassBridge]", ...args);
+};
+
+function parseMaybeJson(value: unknown): unknown {
+    if (typeof value !== "string") return value;
+    try {
+        return JSON.parse(value);
+    } catch {
+        return value;
+    }
+}
+
+function removePending(call: PendingCall) {
+    const index = pending.indexOf(call);
+    if (index >= 0) pending.splice(index, 1);
+}
+
+function handleMessage(event: MessageEvent) {
+    const message = parseMaybeJson(event.data) as { name?: string; id?: string; data?: unknown } | null;
+    log("←", message);
+    if (!message || typeof message !== "object" || !message.name) return;
+
+    const match = (message.id && pending.find((p) => p.id === message.id))
+        || pending.find((p) => p.name === message.name);
+    if (!match) {
+        log(`Unsolicited "${message.name}" message ignored`);
+        return;
+    }
+
+    removePending(match);
+    // Some TownPass versions double-encode `data`
+    match.resolve(parseMaybeJson(message.data));
+}
+
+// The flutterObject can be injected after load (or swapped by the dev fake),
+// so attach lazily and follow it if it changes
+function ensureListener(flutter: FlutterObject) {
+    if (attachedTo === flutter) return;
+    attachedTo?.removeEventListener("message", handleMessage);
+    flutter.addEventListener("message", handleMessage);
+    attachedTo = flutter;
+}
+
+function post(flutter: FlutterObject, payload: Record<string, unknown>) {
+    const message = JSON.stringify(payload);
+    log("→", message);
+    flutter.postMessage(message);
+}
+
+// ------------------
+// Public API
+// ------------------
+
+export const bridge = {
+    /** True inside the TownPass app (or when the dev fake is installed) */
+    isAvailable(): boolean {
+        return typeof window !== "undefined" && !!window.flutterObject;
+    },
+
+    /**
+     * Send a request and wait for its response. Rejects with BridgeUnavailableError,
+     * BridgeTimeoutError, BridgeAbortedError, or BridgeError if posting fails.
+     */
+    call<N extends BridgeCallName>(
+        name: N,
+        data: BridgeCalls[N]["request"] = null,
+        options: BridgeCallOptions = {}
+    ): Promise<BridgeCalls[N]["response"]> {
+        const { timeoutMs = DEFAULT_TIMEOUT_MS, signal } = options;
+        const flutter = window.flutterObject;
+        if (!flutter) return Promise.reject(new BridgeUnavailableError(name));
+        if (signal?.aborted) return Promise.reject(new BridgeAbortedError(name));
+
+        ensureListener(flutter);
+
+        return new Promise((resolve, reject) => {
+            const id = String(nextId++);
+            let timer: number | null = null;
+
+            const finish = () => {
+                if (timer !== null) clearTimeout(timer);
+                signal?.removeEventListener("abort", onAbort);
+                removePending(call);
+            };
+            const onAbort = () => {
+                finish();
+                log(`"${name}" #${id} aborted`);
+                reject(new BridgeAbortedError(name));
+            };
+
+            const call: PendingCall = {
+                id,
+                name,
+                resolve: (response) => {
+                    finish();
+                    resolve(response as BridgeCalls[N]["response"]);
+                },
+                reject: (error) => {
+                    finish();
+                    reject(error);
+                },
+            };
+            pending.push(call);
+
+            timer = window.setTimeout(() => {
+                log(`"${name}" #${id} timed out`);
+                call.reject(new BridgeTimeoutError(name, timeoutMs));
+            }, timeoutMs);
+            signal?.addEventListener("abort", onAbort, { once: true });
+
+            try {
+                post(flutter, { name, data, id });
+            } catch (err) {
+                call.reject(new BridgeError(name, `Failed to send "${name}": ${(err as Error).message}`));
+            }
+        });
+    },
+
+    /** Fire-and-forget. Returns false when the bridge is unavailable or posting failed. */
+    send<N extends BridgeMessageName>(name: N, data: BridgeMessages[N]): boolean {
+        const flutter = window.flutterObject;
+        if (!flutter) {
+            log(`"${name}" dropped: flutterObject not available`);
+            return false;
+        }
+        try {
+            post(flutter, { name, data });
+            return true;
+        } catch (err) {
+            console.error(`[TownPassBridge] Failed to send "${name}":`, err);
+            return false;
+        }
+    },
+
+    setDebug(enabled: boolean) {
+        debug = enabled;
+        try {
+            if (enabled) localStorage.setItem(DEBUG_STORAGE_KEY, "1");
+            else localStorage.removeItem(DEBUG_STORAGE_KEY);
+        } catch {
+            // storage unavailable (private mode); keep the in-memory flag
+        }
+    },
+
+    isDebug(): boolean {
+        return debug;
+    },
+};
@@ -0,0 +1,267 @@
+import type { TownPassLocation, TownPassUser } from "@/lib/townpassBridge";
+
+// ==================
+// TownPass simulator (dev only)
+// ==================
+// A fake `window.flutterObject` so bridge features (userinfo, location,
+// notify) work in a desktop browser. Turn it on with `?townpassSim=1`
+// (remembered in localStorage, `?townpassSim=0` turns it off); the floating
+// TownPassSimulatorPanel edits its config. Like the real app, responses are
+// `{ name, data }` with `data` JSON-encoded and no request id.
+
+export type SimulatedResponseMode = "respond" | "error" | "timeout";
+
+export type LocationScript =
+    | { kind: "static"; latitude: number; longitude: number; accuracy: number }
+    | { kind: "path"; points: Array<[number, number]>; speedMps: number; accuracy: number }
+    | { kind: "error"; message: string }
+    | { kind: "timeout" };
+
+export interface SimulatorConfig {
+    userinfoMode: SimulatedResponseMode;
+    user: TownPassUser;
+    location: LocationScript;
+    /** Delay before every response */
+    latencyMs: number;
+}
+
+export interface SimulatorLogEntry {
+    at: number;
+    direction: "in" | "out";
+    name: string;
+    data: unknown;
+}
+
+export interface SimulatorState {
+    installed: boolean;
+    config: SimulatorConfig;
+    /** Captured `notify` messages, newest first */
+    notifications: Array<{ at: number; title: string; content: string }>;
+    log: SimulatorLogEntry[];
+    /** When the current walking path started; position is interpolated from here */
+    pathStartedAt: number;
+}
+
+// 大安森林公園外圍一圈（約 2.4 km）
+export const DEMO_WALKING_PATH: Array<[number, number]> = [
+    [25.0330, 121.5315],
+    [25.0330, 121.5378],
+    [25.0268, 121.5378],
+    [25.0268, 121.5315],
+    [25.0330, 121.5315],
+];
+
+export const DEFAULT_SIMULATOR_CONFIG: SimulatorConfig = {
+    userinfoMode: "respond",
+    user: {
+        id: "sim-user-001",
+        name: "模擬使用者",
+        email: "sim@example.com",
+        phone: "0912345678",
+        token: "sim-token",
+    },
+    location: { kind: "static", latitude: 25.0375, longitude: 121.5637, accuracy: 10 },
+    latencyMs: 300,
+};
+
+const ENABLE_QUERY_PARAM = "townpassSim";
+const ENABLE_STORAGE_KEY = "townpassSim";
+const CONFIG_STORAGE_KEY = "townpassSimConfig";
+const MAX_LOG_ENTRIES = 50;
+
+// ------------------
+// State
+// ------------------
+
+let state: SimulatorState = {
+    installed: false,
+    config: loadConfig(),
+    notifications: [],
+    log: [],
+    pathStartedAt: Date.now(),
+};
+const stateListeners: Set<(state: SimulatorState) => void> = new Set();
+
+function loadConfig(): SimulatorConfig {
+    try {
+        const saved = localStorage.getItem(CONFIG_STORAGE_KEY);
+        return saved ? { ...DEFAULT_SIMULATOR_CONFIG, ...JSON.parse(saved) } : DEFAULT_SIMULATOR_CONFIG;
+    } catch {
+        return DEFAULT_SIMULATOR_CONFIG;
+    }
+}
+
+function setState(patch: Partial<SimulatorState>) {
+    state = { ...state, ...patch };
+    stateListeners.forEach((listener) => listener(state));
+}
+
+export function getSimulatorState(): SimulatorState {
+    return state;
+}
+
+export function subscribeSimulator(listener: (state: SimulatorState) => void): () => void {
+    stateListeners.add(listener);
+    return () => {
+        stateListeners.delete(listener);
+    };
+}
+
+export function updateSimulatorConfig(patch: Partial<SimulatorConfig>) {
+    const config = { ...state.config, ...patch };
+    localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(config));
+    // Restart the walk whenever the location script changes
+    setState({ config, pathStartedAt: patch.location ? Date.now() : state.pathStartedAt });
+}
+
+export function resetSimulatorConfig() {
+    localStorage.removeItem(CONFIG_STORAGE_KEY);
+    setState({ config: DEFAULT_SIMULATOR_CONFIG, pathStartedAt: Date.now() });
+}
+
+export function clearSimulatorLog() {
+    setState({ log: [], notifications: [] });
+}
+
+function appendLog(entry: Omit<SimulatorLogEntry, "at">) {
+    setState({ log: [{ ...entry, at: Date.now() }, ...state.log].slice(0, MAX_LOG_ENTRIES) });
+}
+
+// ------------------
+// Location script
+// ------------------
+
+function distanceMeters([lat1, lng1]: [number, number], [lat2, lng2]: [number, number]): number {
+    const R = 6371000;
+    const toRad = (deg: number) => (deg * Math.PI) / 180;
+    const dLat = toRad(lat2 - lat1);
+    const dLng = toRad(lng2 - lng1);
+    const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+    return 2 * R * Math.asin(Math.sqrt(a));
+}
+
+/** Position along a (looping) path after walking for `elapsedMs` at `speedMps` */
+export function positionOnPath(points: Array<[number, number]>, speedMps: number, elapsedMs: number): [number, number] {
+    if (points.length === 0) return [0, 0];
+    if (points.length === 1) return points[0];
+
+    const segments = points.slice(1).map((p, i) => distanceMeters(points[i], p));
+    const total = segments.reduce((sum, d) => sum + d, 0);
+    if (total === 0) return points[0];
+
+    let remaining = ((speedMps * elapsedMs) / 1000) % total;
+    for (let i = 0; i < segments.length; i++) {
+        if (remaining <= segments[i]) {
+            const t = segments[i] === 0 ? 0 : remaining / segments[i];
+            const [lat1, lng1] = points[i];
+            const [lat2, lng2] = points[i + 1];
+            return [lat1 + (lat2 - lat1) * t, lng1 + (lng2 - lng1) * t];
+        }
+        remaining -= segments[i];
+    }
+    return points[points.length - 1];
+}
+
+function currentLocation(): TownPassLocation | null {
+    const script = state.config.location;
+    switch (script.kind) {
+        case "static":
+            return {
+                latitude: script.latitude,
+                longitude: script.longitude,
+                accuracy: script.accuracy,
+                timestamp: Date.now(),
+            };
+        case "path": {
+            const [latitude, longitude] = positionOnPath(script.points, script.speedMps, Date.now() - state.pathStartedAt);
+            return { latitude, longitude, accuracy: script.accuracy, speed: script.speedMps, timestamp: Date.now() };
+        }
+        case "error":
+            return { error: "LOCATION_ERROR", message: script.message };
+        case "timeout":
+            return null;
+    }
+}
+
+// ------------------
+// Fake flutterObject
+// ------------------
+
+function createFakeFlutterObject(): FlutterObject {
+    const listeners: Set<(event: MessageEvent) => void> = new Set();
+
+    const respond = (name: string, data: unknown) => {
+        window.setTimeout(() => {
+            appendLog({ direction: "out", name, data });
+            const event = new MessageEvent("message", { data: JSON.stringify({ name, data: JSON.stringify(data) }) });
+            listeners.forEach((listener) => listener(event));
+        }, state.config.latencyMs);
+    };
+
+    return {
+        postMessage: (message: string) => {
+            let parsed: { name?: string; data?: unknown };
+            try {
+                parsed = JSON.parse(message);
+            } catch {
+                console.warn("[TownPassSim] Non-JSON message:", message);
+                return;
+            }
+            const { name = "(unnamed)", data } = parsed;
+            appendLog({ direction: "in", name, data });
+
+            switch (name) {
+                case "userinfo":
+                    if (state.config.userinfoMode === "respond") respond("userinfo", state.config.user);
+                    else if (state.config.userinfoMode === "error") respond("userinfo", { error: "USER_NOT_LOGGED_IN" });
+                    break;
+                case "location": {
+                    const location = currentLocation();
+                    if (location) respond("location", location);
+                    break;
+                }
+                case "notify": {
+                    const { title = "", content = "" } = (data ?? {}) as { title?: string; content?: string };
+                    setState({ notifications: [{ at: Date.now(), title, content }, ...state.notifications] });
+                    break;
+                }
+                default:
+                    console.warn(`[TownPassSim] Unhandled message "${name}"`);
+            }
+        },
+        addEventListener: (_event, handler) => {
+            listeners.add(handler);
+        },
+        removeEventListener: (_event, handler) => {
+            listeners.delete(handler);
+        },
+    };
+}
+
+/** Install the fake if enabled via ?townpassSim / localStorage and no real flutterObject exists */
+export function installTownPassSimulatorFromUrl() {
+    const url = new URL(window.location.href);
+    const param = url.searchParams.get(ENABLE_QUERY_PARAM);
+    if (param !== null) {
+        if (param === "0") localStorage.removeItem(ENABLE_STORAGE_KEY);
+        else localStorage.setItem(ENABLE_STORAGE_KEY, "1");
+        url.searchParams.delete(ENABLE_QUERY_PARAM);
+        window.history.replaceState(null, "", url.toString());
+    }
+
+    if (localStorage.getItem(ENABLE_STORAGE_KEY) !== "1") return;
+    if (window.flutterObject) {
+        console.info("[TownPassSim] Real flutterObject present, simulator not installed");
+        return;
+    }
+
+    window.flutterObject = createFakeFlutterObject();
+    setState({ installed: true });
+    console.info("[TownPassSim] Fake flutterObject installed (?townpassSim=0 to disable)");
+}
+
+/** Turn the simulator off and reload without it */
+export function disableTownPassSimulator() {
+    localStorage.removeItem(ENABLE_STORAGE_KEY);
+    window.location.reload();
+}
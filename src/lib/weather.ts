@@ -0,0 +1,254 @@
+import { z } from "zod";
+import { getApiProfile } from "@/lib/apiConfig";
+
+// ==================
+// Weather
+// ==================
+// Current conditions and the next 12 hours for a location, from a pluggable
+// provider. Reports are cached per provider and location (rounded to about a
+// kilometre) for WEATHER_CACHE_TTL_MS, and concurrent requests for the same
+// location share one fetch. Components read it through useWeather /
+// useRaining (hooks/useWeather.ts), which is what the rain bonus and the
+// rain animation go by. ./weatherAdvisory judges the conditions for
+// outdoor exercise.
+//
+// Provider resolution order:
+//   1. Runtime config (window.__APP_CONFIG__.weatherProvider)
+//   2. VITE_WEATHER_PROVIDER
+//   3. "stub" with the mock API profile, "open-meteo" otherwise
+//
+// A Central Weather Administration (CWA) provider can be added to
+// WEATHER_PROVIDERS once there is an API key to ship it with.
+
+export type WeatherProviderName = "open-meteo" | "stub";
+
+export interface HourlyWeather {
+    /** Start of the hour, ms since epoch */
+    time: number;
+    temperatureC: number | null;
+    /** Feels-like temperature, with humidity and wind */
+    apparentTemperatureC: number | null;
+    /** mm over the hour */
+    precipitationMm: number;
+    /** 0–100; null when the provider doesn't forecast it */
+    precipitationProbability: number | null;
+    uvIndex: number | null;
+    /** Air quality index on the US EPA scale, which Taiwan's AQI follows; null when unavailable */
+    aqi: number | null;
+}
+
+export interface WeatherReport {
+    provider: WeatherProviderName;
+    lat: number;
+    lng: number;
+    /** ms since epoch */
+    fetchedAt: number;
+    /** The hour we're in */
+    current: HourlyWeather;
+    /** The FORECAST_HOURS hours after the current one */
+    forecast: HourlyWeather[];
+}
+
+export interface WeatherProvider {
+    readonly name: WeatherProviderName;
+    fetchReport(lat: number, lng: number, signal?: AbortSignal): Promise<WeatherReport>;
+}
+
+export const FORECAST_HOURS = 12;
+export const WEATHER_CACHE_TTL_MS = 10 * 60 * 1000;
+/** An hour with at least this much precipitation counts as rain */
+export const RAIN_THRESHOLD_MM = 0.5;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export function isRaining(hour: HourlyWeather): boolean {
+    return hour.precipitationMm >= RAIN_THRESHOLD_MM;
+}
+
+/** e.g. "約 15:00 起可能下雨"; Taipei time, like the rest of the game */
+export function describeUpcomingRain(report: WeatherReport): string {
+    const hour = report.forecast.find(isRaining);
+    if (!hour) return `未來 ${report.forecast.length} 小時無降雨`;
+    const clock = new Date(hour.time).toLocaleTimeString("zh-TW", {
+        timeZone: "Asia/Taipei",
+        hour: "2-digit",
+        minute: "2-digit",
+        hour12: false,
+    });
+    return `約 ${clock} 起可能下雨`;
+}
+
+/** Split hourly data into the hour containing `now` and the hours after it */
+export function splitHours(hours: HourlyWeather[], now: number): Pick<WeatherReport, "current" | "forecast"> | null {
+    const index = hours.findIndex((hour) => hour.time <= now && now < hour.time + HOUR_MS);
+    if (index < 0) return null;
+    return { current: hours[index], forecast: hours.slice(index + 1, index + 1 + FORECAST_HOURS) };
+}
+
+// ------------------
+// Providers
+// ------------------
+
+// No API key needed. Unix times, so the hours don't depend on the device's time zone.
+const OPEN_METEO_URL = "https://api.open-meteo.com/v1/forecast";
+const OPEN_METEO_AIR_QUALITY_URL = "https://air-quality-api.open-meteo.com/v1/air-quality";
+
+const OpenMeteoSchema = z.object({
+    hourly: z.object({
+        time: z.array(z.number()),
+        temperature_2m: z.array(z.number().nullable()),
+        apparent_temperature: z.array(z.number().nullable()).optional(),
+        precipitation: z.array(z.number().nullable()),
+        precipitation_probability: z.array(z.number().nullable()).optional(),
+        uv_index: z.array(z.number().nullable()).optional(),
+    }),
+});
+
+const OpenMeteoAirQualitySchema = z.object({
+    hourly: z.object({
+        time: z.array(z.number()),
+        us_aqi: z.array(z.number().nullable()),
+    }),
+});
+
+/** AQI by hour (ms since epoch). Air quality is a separate service; the report goes without it when that fails */
+async function fetchOpenMeteoAqi(lat: number, lng: number, signal?: AbortSignal): Promise<Map<number, number>> {
+    const params = new URLSearchParams({
+        latitude: String(lat),
+        longitude: String(lng),
+        hourly: "us_aqi",
+        timeformat: "unixtime",
+        forecast_days: "2",
+    });
+    try {
+        const res = await fetch(`${OPEN_METEO_AIR_QUALITY_URL}?${params}`, { signal });
+        if (!res.ok) throw new Error(`open-meteo air quality responded ${res.status}`);
+        const { hourly } = OpenMeteoAirQualitySchema.parse(await res.json());
+        const aqi = new Map<number, number>();
+        hourly.time.forEach((time, i) => {
+            const value = hourly.us_aqi[i];
+            if (value !== null && value !== undefined) aqi.set(time * 1000, value);
+        });
+        return aqi;
+    } catch (err) {
+        console.warn("Air quality unavailable:", err);
+        return new Map();
+    }
+}
+
+export const openMeteoProvider: WeatherProvider = {
+    name: "open-meteo",
+
+    async fetchReport(lat, lng, signal) {
+        const params = new URLSearchParams({
+            latitude: String(lat),
+            longitude: String(lng),
+            hourly: "temperature_2m,apparent_temperature,precipitation,precipitation_probability,uv_index",
+            timeformat: "unixtime",
+            forecast_days: "2",
+        });
+        const [res, aqi] = await Promise.all([
+            fetch(`${OPEN_METEO_URL}?${params}`, { signal }),
+            fetchOpenMeteoAqi(lat, lng, signal),
+        ]);
+        if (!res.ok) throw new Error(`open-meteo responded ${res.status}`);
+        const { hourly } = OpenMeteoSchema.parse(await res.json());
+
+        const hours: HourlyWeather[] = hourly.time.map((time, i) => ({
+            time: time * 1000,
+            temperatureC: hourly.temperature_2m[i] ?? null,
+            apparentTemperatureC: hourly.apparent_temperature?.[i] ?? null,
+            precipitationMm: hourly.precipitation[i] ?? 0,
+            precipitationProbability: hourly.precipitation_probability?.[i] ?? null,
+            uvIndex: hourly.uv_index?.[i] ?? null,
+            aqi: aqi.get(time * 1000) ?? null,
+        }));
+        const fetchedAt = Date.now();
+        const split = splitHours(hours, fetchedAt);
+        if (!split) throw new Error("open-meteo returned no data for the current hour");
+        return { provider: "open-meteo", lat, lng, fetchedAt, ...split };
+    },
+};
+
+/** Fixed weather without network access, for the mock backend and offline development */
+export function createStubWeatherProvider(hour: Partial<Omit<HourlyWeather, "time">> = {}): WeatherProvider {
+    return {
+        name: "stub",
+
+        async fetchReport(lat, lng) {
+            const fetchedAt = Date.now();
+            const firstHour = Math.floor(fetchedAt / HOUR_MS) * HOUR_MS;
+            const hours = Array.from({ length: FORECAST_HOURS + 1 }, (_, i) => ({
+                time: firstHour + i * HOUR_MS,
+                temperatureC: 26,
+                apparentTemperatureC: 27,
+                precipitationMm: 0,
+                precipitationProbability: 10,
+                uvIndex: 3,
+                aqi: 40,
+                ...hour,
+            }));
+            return { provider: "stub", lat, lng, fetchedAt, current: hours[0], forecast: hours.slice(1) };
+        },
+    };
+}
+
+export const WEATHER_PROVIDERS: Record<WeatherProviderName, WeatherProvider> = {
+    "open-meteo": openMeteoProvider,
+    stub: createStubWeatherProvider(),
+};
+
+function isProviderName(value: unknown): value is WeatherProviderName {
+    return typeof value === "string" && value in WEATHER_PROVIDERS;
+}
+
+export function getWeatherProvider(): WeatherProvider {
+    const runtimeProvider = window.__APP_CONFIG__?.weatherProvider;
+    if (isProviderName(runtimeProvider)) return WEATHER_PROVIDERS[runtimeProvider];
+
+    const envProvider = import.meta.env.VITE_WEATHER_PROVIDER;
+    if (isProviderName(envProvider)) return WEATHER_PROVIDERS[envProvider];
+
+    return WEATHER_PROVIDERS[getApiProfile() === "mock" ? "stub" : "open-meteo"];
+}
+
+// ------------------
+// Cache
+// ------------------
+
+const cache = new Map<string, WeatherReport>();
+const inFlight = new Map<string, Promise<WeatherReport>>();
+
+// Two decimals is about a kilometre: close enough to share the weather
+const cacheKey = (provider: WeatherProviderName, lat: number, lng: number) =>
+    `${provider}:${lat.toFixed(2)},${lng.toFixed(2)}`;
+
+export function isFresh(report: WeatherReport | null, now = Date.now()): boolean {
+    return report !== null && now - report.fetchedAt < WEATHER_CACHE_TTL_MS;
+}
+
+/** Cached report for the location when still fresh, otherwise a new one from the provider */
+export async function getWeather(
+    lat: number,
+    lng: number,
+    { force = false, provider = getWeatherProvider() }: { force?: boolean; provider?: WeatherProvider } = {}
+): Promise<WeatherReport> {
+    const key = cacheKey(provider.name, lat, lng);
+    const cached = cache.get(key) ?? null;
+    if (!force && isFresh(cached)) return cached;
+
+    const pending = inFlight.get(key);
+    if (pending) return pending;
+
+    const request = provider
+        .fetchReport(lat, lng)
+        .then((report) => {
+            cache.set(key, report);
+            return report;
+        })
+        .finally(() => {
+            inFlight.delete(key);
+        });
+    inFlight.set(key, request);
+    return request;
+}
@@ -0,0 +1,92 @@
+import { HourlyWeather } from "@/lib/weather";
+
+// ==================
+// Weather advisories
+// ==================
+// Whether the weather is safe for exercising outdoors: heat (the higher of
+// the air and feels-like temperature), UV and air quality, each judged
+// against a caution and a danger threshold. The exercise page shows the
+// advisory before a workout starts, and the travel page recommends the
+// indoor-friendly quests (QuestLocation.indoor) when it says to stay inside.
+//
+//   const advisory = assessWeather(report.current);
+//   if (advisory.level !== "ok") ...        // advisory.reasons: what and why
+//   if (advisory.preferIndoor) ...          // suggest exercising indoors
+
+export type AdvisoryLevel = "ok" | "caution" | "danger";
+export type AdvisoryKind = "heat" | "uv" | "air";
+
+export interface AdvisoryReason {
+    kind: AdvisoryKind;
+    level: Exclude<AdvisoryLevel, "ok">;
+    /** The reading that tripped the threshold */
+    value: number;
+    message: string;
+}
+
+export interface WeatherAdvisory {
+    /** The worst of the reasons */
+    level: AdvisoryLevel;
+    reasons: AdvisoryReason[];
+    /** Exercise indoors rather than out: anything at danger, or air that isn't good */
+    preferIndoor: boolean;
+}
+
+export const ADVISORY_THRESHOLDS: Record<AdvisoryKind, { caution: number; danger: number }> = {
+    // °C; the Central Weather Administration issues heat alerts from 36 °C
+    heat: { caution: 32, danger: 36 },
+    // MOENV UV levels: 8–10 過量級, 11+ 危險級
+    uv: { caution: 8, danger: 11 },
+    // AQI: 101–150 unhealthy for sensitive groups, 151+ unhealthy for everyone
+    air: { caution: 101, danger: 151 },
+};
+
+const MESSAGES: Record<AdvisoryKind, Record<AdvisoryReason["level"], (value: number) => string>> = {
+    heat: {
+        caution: (value) => `高溫 ${value}°C，記得補充水分並避開正午`,
+        danger: (value) => `高溫 ${value}°C，有中暑風險，建議改做室內運動`,
+    },
+    uv: {
+        caution: (value) => `紫外線指數 ${value}（過量級），在戶外請做好防曬`,
+        danger: (value) => `紫外線指數 ${value}（危險級），避免在戶外曝曬`,
+    },
+    air: {
+        caution: (value) => `AQI ${value}，對敏感族群不健康，建議減少戶外運動`,
+        danger: (value) => `AQI ${value}，空氣品質不良，建議改做室內運動`,
+    },
+};
+
+const LEVEL_ORDER: AdvisoryLevel[] = ["ok", "caution", "danger"];
+
+function judge(kind: AdvisoryKind, value: number | null): AdvisoryReason | null {
+    if (value === null) return null;
+    const threshold = ADVISORY_THRESHOLDS[kind];
+    const level = value >= threshold.danger ? "danger" : value >= threshold.caution ? "caution" : null;
+    if (!level) return null;
+    const rounded = Math.round(value);
+    return { kind, level, value: rounded, message: MESSAGES[kind][level](rounded) };
+}
+
+function maxOf(...values: Array<number | null>): number | null {
+    const known = values.filter((value): value is number => value !== null);
+    return known.length > 0 ? Math.max(...known) : null;
+}
+
+/** Readings the provider didn't give are skipped */
+export function assessWeather(hour: HourlyWeather): WeatherAdvisory {
+    const reasons = [
+        judge("heat", maxOf(hour.temperatureC, hour.apparentTemperatureC)),
+        judge("uv", hour.uvIndex),
+        judge("air", hour.aqi),
+    ].filter((reason): reason is AdvisoryReason => reason !== null);
+
+    const level = reasons.reduce<AdvisoryLevel>(
+        (worst, reason) => (LEVEL_ORDER.indexOf(reason.level) > LEVEL_ORDER.indexOf(worst) ? reason.level : worst),
+        "ok"
+    );
+    return {
+        level,
+        reasons,
+        preferIndoor: level === "danger" || reasons.some((reason) => reason.kind === "air"),
+    };
+}
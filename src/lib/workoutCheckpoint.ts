@@ -0,0 +1,122 @@
+import { Activity, ACTIVITIES, emptyActivityTally } from "@/lib/motion";
+import { ExcludedSegment } from "@/lib/plausibility";
+
+// ==================
+// Workout checkpoints
+// ==================
+// The exercise page keeps a running workout in memory only, so a WebView
+// reload or a killed tab used to lose it. While a workout runs the page
+// saves a checkpoint every few seconds (and when it is hidden). When the
+// user comes back to /exercise with a checkpoint left over, they can resume
+// it or submit it as it was.
+//
+// The time between the last checkpoint and the return is unknown: the user
+// may have kept moving for a minute or left the phone for a day. Only a
+// short gap is credited (CHECKPOINT_MAX_GAP_SEC), and never when the workout
+// was paused for inactivity.
+
+/** What a workout amounts to so far; enough to log it */
+export interface WorkoutSnapshot {
+    /** ms since epoch; decides the morning bonus */
+    startedAt: number;
+    /** Raining when the workout started; decides the rain bonus */
+    raining: boolean;
+    durationSec: number;
+    steps: number;
+    activityMs: Record<Activity, number>;
+    /** Outdoor (GPS) mode only */
+    outdoor: {
+        distanceM: number;
+        elevationGainM: number;
+        route: Array<[number, number]>;
+    } | null;
+    /** Stretches flagged as implausible, in workout seconds */
+    excluded: ExcludedSegment[];
+}
+
+export interface WorkoutCheckpoint extends WorkoutSnapshot {
+    version: 1;
+    userId: string;
+    /** ms since epoch */
+    savedAt: number;
+    /** Paused for inactivity when saved */
+    paused: boolean;
+}
+
+export const CHECKPOINT_INTERVAL_MS = 5000;
+/** Most time credited for the gap between the last checkpoint and the user's return */
+export const CHECKPOINT_MAX_GAP_SEC = 60;
+/** A single workout is never credited more than this */
+export const MAX_WORKOUT_SEC = 3 * 60 * 60;
+
+// ------------------
+// Credit
+// ------------------
+
+/** Seconds to credit an interrupted workout with when the user returns at `now` */
+export function creditedDurationSec(checkpoint: WorkoutCheckpoint, now = Date.now()): number {
+    const gapSec = Math.max(0, Math.floor((now - checkpoint.savedAt) / 1000));
+    const gapCredit = checkpoint.paused ? 0 : Math.min(gapSec, CHECKPOINT_MAX_GAP_SEC);
+    // Never more than the wall-clock time since the workout started
+    const wallClockSec = Math.max(0, Math.floor((now - checkpoint.startedAt) / 1000));
+    return Math.min(checkpoint.durationSec + gapCredit, wallClockSec, MAX_WORKOUT_SEC);
+}
+
+export function addActivityMs(a: Record<Activity, number>, b: Record<Activity, number>): Record<Activity, number> {
+    const total = emptyActivityTally();
+    for (const activity of ACTIVITIES) total[activity] = (a[activity] ?? 0) + (b[activity] ?? 0);
+    return total;
+}
+
+/** A resumed outdoor workout: the second leg's route continues the first */
+export function appendOutdoor(
+    earlier: WorkoutSnapshot["outdoor"],
+    later: WorkoutSnapshot["outdoor"]
+): WorkoutSnapshot["outdoor"] {
+    if (!earlier) return later;
+    if (!later) return earlier;
+    return {
+        distanceM: earlier.distanceM + later.distanceM,
+        elevationGainM: earlier.elevationGainM + later.elevationGainM,
+        route: [...earlier.route, ...later.route],
+    };
+}
+
+// ------------------
+// Storage
+// ------------------
+// One checkpoint per user, so switching profiles on a shared phone doesn't
+// hand someone else's workout to the next person.
+
+const checkpointKey = (userId: string) => `workoutCheckpoint:${userId}`;
+
+export function saveCheckpoint(userId: string, snapshot: WorkoutSnapshot, paused: boolean) {
+    const checkpoint: WorkoutCheckpoint = { ...snapshot, version: 1, userId, savedAt: Date.now(), paused };
+    try {
+        localStorage.setItem(checkpointKey(userId), JSON.stringify(checkpoint));
+    } catch (error) {
+        // Quota errors (a very long GPS route) must not break the workout itself
+        console.warn("Failed to save workout checkpoint:", error);
+    }
+}
+
+export function loadCheckpoint(userId: string): WorkoutCheckpoint | null {
+    try {
+        const saved = localStorage.getItem(checkpointKey(userId));
+        if (!saved) return null;
+        const checkpoint = JSON.parse(saved) as WorkoutCheckpoint;
+        if (checkpoint.version !== 1 || checkpoint.userId !== userId) return null;
+        return {
+            ...checkpoint,
+            activityMs: addActivityMs(emptyActivityTally(), checkpoint.activityMs ?? emptyActivityTally()),
+            excluded: checkpoint.excluded ?? [],
+            raining: checkpoint.raining ?? false,
+        };
+    } catch {
+        return null;
+    }
+}
+
+export function clearCheckpoint(userId: string) {
+    localStorage.removeItem(checkpointKey(userId));
+}
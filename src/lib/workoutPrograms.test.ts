@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { Activity } from "./motion";
+import { createProgramRunner, ProgramEvent, WorkoutProgram } from "./workoutPrograms";
+
+// 5 s run, 4 s rest (not checked), 6 s walk
+const SHORT: WorkoutProgram = {
+    id: "short",
+    name: "短課表",
+    description: "",
+    durationSec: 15,
+    minCompliance: 0.6,
+    reward: { strength: 1, mood: 1 },
+    phases: [
+        { label: "跑", durationSec: 5, target: ["running"] },
+        { label: "休息", durationSec: 4, target: null },
+        { label: "走", durationSec: 6, target: ["walking"] },
+    ],
+};
+
+function start() {
+    const runner = createProgramRunner(SHORT);
+    const events: ProgramEvent[] = [];
+    runner.subscribe((event) => events.push(event));
+    runner.start();
+    return { runner, events };
+}
+
+/** One advance per second, with the activity classified for each second */
+function runSeconds(runner: ReturnType<typeof createProgramRunner>, activities: Activity[]) {
+    let elapsed = runner.getState().elapsedSec;
+    for (const activity of activities) runner.advance(++elapsed, activity);
+}
+
+const describeEvent = (event: ProgramEvent) =>
+    event.type === "phase" ? `phase ${event.index}` : event.type === "countdown" ? `${event.index}: ${event.secondsLeft}` : "complete";
+
+describe("createProgramRunner", () => {
+    it("announces each phase, counts down its last 3 seconds and completes", () => {
+        const { runner, events } = start();
+        runSeconds(runner, Array(15).fill("running"));
+
+        expect(events.map(describeEvent)).toEqual([
+            "phase 0", "0: 3", "0: 2", "0: 1",
+            "phase 1", "1: 3", "1: 2", "1: 1",
+            "phase 2", "2: 3", "2: 2", "2: 1",
+            "complete",
+        ]);
+        expect(events[4]).toMatchObject({ phase: { label: "休息" }, next: { label: "走" } });
+        expect(events[8]).toMatchObject({ next: null });
+    });
+
+    it("credits every second of a jump across a phase boundary", () => {
+        const { runner, events } = start();
+        runner.advance(7, "walking");
+
+        expect(events.map(describeEvent)).toEqual(["phase 0", "0: 3", "0: 2", "0: 1", "phase 1", "1: 3", "1: 2"]);
+        expect(runner.getState()).toMatchObject({ phaseIndex: 1, phaseElapsedSec: 2, phaseRemainingSec: 2, elapsedSec: 7, done: false });
+        expect(runner.getResult().phases.map(({ observedSec, onTargetSec }) => [observedSec, onTargetSec])).toEqual([
+            [5, 0],
+            [2, 2],
+            [0, 0],
+        ]);
+    });
+
+    it("ignores time that doesn't move forward and stops at the end", () => {
+        const { runner, events } = start();
+        runner.advance(3, "running");
+        runner.advance(3, "running");
+        runner.advance(2, "running");
+        expect(runner.getState().elapsedSec).toBe(3);
+
+        runner.advance(60, "running");
+        expect(runner.getState()).toMatchObject({ elapsedSec: 15, phaseIndex: 2, phaseRemainingSec: 0, done: true });
+        expect(events.filter((event) => event.type === "complete")).toHaveLength(1);
+    });
+
+    it("weighs compliance by time over the checked phases only", () => {
+        const { runner } = start();
+        // 3 of 5 s running, the rest idle (not checked), then all 6 s walking
+        runSeconds(runner, ["running", "running", "walking", "running", "walking", ...Array(4).fill("idle"), ...Array(6).fill("walking")]);
+
+        const result = runner.getResult();
+        expect(result.phases.map((phase) => phase.compliance)).toEqual([0.6, null, 1]);
+        expect(result.compliance).toBeCloseTo(9 / 11);
+        expect(result).toMatchObject({ programId: "short", completed: true, passed: true });
+    });
+
+    it("doesn't pass a completed program below the minimum compliance", () => {
+        const { runner } = start();
+        runSeconds(runner, [...Array(5).fill("running"), ...Array(10).fill("idle")]);
+
+        const result = runner.getResult();
+        expect(result.compliance).toBeCloseTo(5 / 11);
+        expect(result).toMatchObject({ completed: true, passed: false });
+    });
+
+    it("doesn't pass an unfinished program, judging only the phases reached", () => {
+        const { runner } = start();
+        runSeconds(runner, Array(5).fill("running"));
+
+        const result = runner.getResult();
+        expect(result.phases.map((phase) => phase.compliance)).toEqual([1, null, null]);
+        expect(result).toMatchObject({ completed: false, compliance: 1, passed: false });
+    });
+});
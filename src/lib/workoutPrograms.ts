@@ -0,0 +1,250 @@
+import { Activity } from "@/lib/motion";
+import { PROGRAM_REWARDS, ProgramRewardRule } from "@/lib/rewardRules";
+
+// ==================
+// Workout programs
+// ==================
+// Structured workouts as a timeline of phases ("1 min jog, 2 min walk, ...")
+// and a runner that walks through it, free of React and browser APIs:
+//
+//   const runner = createProgramRunner(getProgram("jog-walk-5x"));
+//   runner.subscribe((event) => { ... });   // phase changes, countdown, complete
+//   runner.start();
+//   runner.advance(elapsedSec, activity);    // once per second of workout time
+//
+// Every second is checked against the phase's target activities (as
+// classified by ./motion), which gives each phase a compliance score. A
+// program that is finished with enough overall compliance earns its reward;
+// the backend grants it when the exercise log says so and the logged time
+// covers the whole program (see ./rewardRules).
+
+export interface ProgramPhase {
+    label: string;
+    durationSec: number;
+    /** Activities that count as doing the phase; null = not checked (rest, or moves the classifier can't see) */
+    target: Activity[] | null;
+}
+
+export interface WorkoutProgram extends ProgramRewardRule {
+    id: string;
+    name: string;
+    description: string;
+    phases: ProgramPhase[];
+}
+
+const JOG: Activity[] = ["running"];
+// Brisk walking and stairs both count as the walking part of an interval
+const WALK: Activity[] = ["walking", "stairs"];
+
+const repeat = (times: number, phases: ProgramPhase[]): ProgramPhase[] =>
+    Array.from({ length: times }, () => phases).flat();
+
+// id plus the reward terms the backend grants for it
+const programTerms = (id: string) => ({ id, ...PROGRAM_REWARDS[id] });
+
+// 7-minute workout (Klika & Jordan 2013): 12 moves × 30 s, 10 s rest in between
+const HIIT_MOVES: Array<[string, Activity[] | null]> = [
+    ["開合跳", ["jumping", "skipping"]],
+    ["靠牆深蹲", null],
+    ["伏地挺身", null],
+    ["捲腹", null],
+    ["登階", ["stairs", "walking"]],
+    ["深蹲", ["squat"]],
+    ["椅子撐體", null],
+    ["棒式", null],
+    ["原地高抬腿", ["running"]],
+    ["弓箭步", null],
+    ["伏地挺身轉體", null],
+    ["側棒式", null],
+];
+
+export const WORKOUT_PROGRAMS: WorkoutProgram[] = [
+    {
+        ...programTerms("jog-walk-5x"),
+        name: "慢跑走路間歇 5 組",
+        description: "慢跑 1 分鐘、走路 2 分鐘，共 5 組（15 分鐘）",
+        phases: repeat(5, [
+            { label: "慢跑", durationSec: 60, target: JOG },
+            { label: "走路", durationSec: 120, target: WALK },
+        ]),
+    },
+    {
+        ...programTerms("hiit-7"),
+        name: "7 分鐘 HIIT",
+        description: "12 個動作各 30 秒，中間休息 10 秒",
+        phases: HIIT_MOVES.flatMap(([label, target], i) => {
+            const move: ProgramPhase = { label, durationSec: 30, target };
+            return i < HIIT_MOVES.length - 1 ? [move, { label: "休息", durationSec: 10, target: null }] : [move];
+        }),
+    },
+    {
+        ...programTerms("c25k-w1"),
+        name: "從沙發到 5K：第 1 週",
+        description: "快走暖身 5 分鐘，接著慢跑 60 秒、走路 90 秒交替 8 組（25 分鐘）",
+        phases: [
+            { label: "快走暖身", durationSec: 300, target: WALK },
+            ...repeat(8, [
+                { label: "慢跑", durationSec: 60, target: JOG },
+                { label: "走路", durationSec: 90, target: WALK },
+            ]),
+        ],
+    },
+];
+
+export function getProgram(id: string): WorkoutProgram | null {
+    return WORKOUT_PROGRAMS.find((program) => program.id === id) ?? null;
+}
+
+export function programDurationSec(program: WorkoutProgram): number {
+    return program.phases.reduce((total, phase) => total + phase.durationSec, 0);
+}
+
+// ------------------
+// Runner
+// ------------------
+
+/** Seconds before a phase ends that get a countdown cue */
+const COUNTDOWN_SEC = 3;
+
+export type ProgramEvent =
+    | { type: "phase"; index: number; phase: ProgramPhase; next: ProgramPhase | null }
+    | { type: "countdown"; index: number; secondsLeft: number }
+    | { type: "complete" };
+
+export interface PhaseResult {
+    label: string;
+    target: Activity[] | null;
+    /** Seconds of the phase that were actually run */
+    observedSec: number;
+    /** Of those, seconds classified as a target activity */
+    onTargetSec: number;
+    /** onTargetSec / observedSec; null for unchecked or not reached phases */
+    compliance: number | null;
+}
+
+export interface ProgramResult {
+    programId: string;
+    /** Ran to the end of the last phase */
+    completed: boolean;
+    /** Time-weighted over the checked phases the user reached; 0 when none */
+    compliance: number;
+    passed: boolean;
+    phases: PhaseResult[];
+}
+
+export interface ProgramState {
+    phaseIndex: number;
+    phase: ProgramPhase;
+    next: ProgramPhase | null;
+    phaseElapsedSec: number;
+    phaseRemainingSec: number;
+    elapsedSec: number;
+    totalSec: number;
+    done: boolean;
+}
+
+export interface ProgramRunner {
+    readonly program: WorkoutProgram;
+    start(): void;
+    /** Move the timeline to `elapsedSec`; every second in between is credited to `activity` */
+    advance(elapsedSec: number, activity: Activity): void;
+    subscribe(listener: (event: ProgramEvent) => void): () => void;
+    getState(): ProgramState;
+    getResult(): ProgramResult;
+}
+
+export function createProgramRunner(program: WorkoutProgram): ProgramRunner {
+    const totalSec = programDurationSec(program);
+    const phaseEnds = program.phases.reduce<number[]>(
+        (ends, phase) => [...ends, (ends[ends.length - 1] ?? 0) + phase.durationSec],
+        []
+    );
+    const listeners: Set<(event: ProgramEvent) => void> = new Set();
+
+    let elapsed = 0;
+    let phaseIndex = 0;
+    let done = false;
+    const tallies = program.phases.map(() => ({ observedSec: 0, onTargetSec: 0 }));
+
+    const emit = (event: ProgramEvent) => {
+        listeners.forEach((listener) => listener(event));
+    };
+
+    const nextPhase = (index: number) => program.phases[index + 1] ?? null;
+
+    return {
+        program,
+
+        start() {
+            emit({ type: "phase", index: 0, phase: program.phases[0], next: nextPhase(0) });
+        },
+
+        advance(elapsedSec, activity) {
+            while (elapsed < elapsedSec && !done) {
+                const phase = program.phases[phaseIndex];
+                const tally = tallies[phaseIndex];
+                tally.observedSec++;
+                if (phase.target === null || phase.target.includes(activity)) tally.onTargetSec++;
+                elapsed++;
+
+                const secondsLeft = phaseEnds[phaseIndex] - elapsed;
+                if (secondsLeft > 0 && secondsLeft <= COUNTDOWN_SEC) {
+                    emit({ type: "countdown", index: phaseIndex, secondsLeft });
+                } else if (secondsLeft <= 0) {
+                    phaseIndex++;
+                    if (phaseIndex >= program.phases.length) {
+                        done = true;
+                        phaseIndex = program.phases.length - 1;
+                        emit({ type: "complete" });
+                    } else {
+                        emit({ type: "phase", index: phaseIndex, phase: program.phases[phaseIndex], next: nextPhase(phaseIndex) });
+                    }
+                }
+            }
+        },
+
+        subscribe(listener) {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+
+        getState() {
+            const phase = program.phases[phaseIndex];
+            const phaseStart = phaseEnds[phaseIndex] - phase.durationSec;
+            return {
+                phaseIndex,
+                phase,
+                next: nextPhase(phaseIndex),
+                phaseElapsedSec: Math.min(phase.durationSec, elapsed - phaseStart),
+                phaseRemainingSec: Math.max(0, phaseEnds[phaseIndex] - elapsed),
+                elapsedSec: elapsed,
+                totalSec,
+                done,
+            };
+        },
+
+        getResult() {
+            const phases: PhaseResult[] = program.phases.map((phase, i) => ({
+                label: phase.label,
+                target: phase.target,
+                observedSec: tallies[i].observedSec,
+                onTargetSec: tallies[i].onTargetSec,
+                compliance: phase.target && tallies[i].observedSec > 0
+                    ? tallies[i].onTargetSec / tallies[i].observedSec
+                    : null,
+            }));
+            const checked = phases.filter((p) => p.compliance !== null);
+            const checkedSec = checked.reduce((a, p) => a + p.observedSec, 0);
+            const compliance = checkedSec > 0 ? checked.reduce((a, p) => a + p.onTargetSec, 0) / checkedSec : 0;
+            return {
+                programId: program.id,
+                completed: done,
+                compliance,
+                passed: done && compliance >= program.minCompliance,
+                phases,
+            };
+        },
+    };
+}
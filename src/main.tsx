@@ -4,4 +4,15 @@ import "./index.css";
 import "leaflet/dist/leaflet.css";
 import "./styles/map.css";
 
-createRoot(document.getElementById("root")!).render(<App />);
+const render = () => createRoot(document.getElementById("root")!).render(<App />);
+
+if (import.meta.env.DEV) {
+  // Install the TownPass simulator before anything talks to the bridge, and load
+  // ?mockScenario= into the mock backend before UserProvider reads userId
+  Promise.all([
+    import("./lib/townpassSimulator").then(({ installTownPassSimulatorFromUrl }) => installTownPassSimulatorFromUrl()),
+    import("./lib/mockScenario").then(({ applyMockScenarioFromUrl }) => applyMockScenarioFromUrl()),
+  ]).finally(render);
+} else {
+  render();
+}
@@ -1,23 +1,63 @@
-import { useEffect, useRef, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { ArrowLeft, Play, Square, Code } from "lucide-react";
+import { ArrowLeft, Play, Square, Code, Gauge } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { toast } from "sonner";
 import { useUser } from "@/hooks/useUser";
-import { useLocation } from "@/hooks/useLocation";
-import { useManualRain } from "@/hooks/useWeather";
-import { logExercise, updateUserPet, getDailyStats } from "@/lib/api";
+import { useRaining } from "@/hooks/useWeather";
+import { describeUpcomingRain } from "@/lib/weather";
+import { assessWeather } from "@/lib/weatherAdvisory";
+import { NotFoundError, ValidationError } from "@/lib/apiErrors";
+import { useDailyStatsQuery, useLogExerciseMutation } from "@/hooks/queries";
+import { ExerciseLogCreate } from "@/lib/api";
+import { computeRewards, formatStatDeltas, sessionFromLog } from "@/lib/rewardRules";
+import PendingSyncBadge from "@/components/PendingSyncBadge";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
-
-type Activity = "idle" | "walking" | "jumping" | "unknown";
+import { Activity, ACTIVITY_LABELS, activityBreakdownSeconds, createMotionEngine, dominantActivity } from "@/lib/motion";
+import { createTraceRecorder, MotionTrace, TraceRecorder } from "@/lib/motionTrace";
+import MotionTracePanel from "@/components/MotionTracePanel";
+import CalibrationWizard from "@/components/CalibrationWizard";
+import { useMotionCalibration } from "@/hooks/useMotionCalibration";
+import { GpsWorkoutResult, useGpsWorkout } from "@/hooks/useGpsWorkout";
+import { encodePolyline, formatPace, paceSecPerKm } from "@/lib/gpsTrack";
+import WorkoutRouteMap from "@/components/WorkoutRouteMap";
+import InterruptedWorkoutDialog from "@/components/InterruptedWorkoutDialog";
+import WorkoutReceiptDialog, { WorkoutReceipt } from "@/components/WorkoutReceiptDialog";
+import WorkoutProgramPanel from "@/components/WorkoutProgramPanel";
+import WeatherAdvisoryDialog from "@/components/WeatherAdvisoryDialog";
+import {
+  createProgramRunner,
+  getProgram,
+  ProgramEvent,
+  ProgramResult,
+  ProgramRunner,
+  ProgramState,
+  WorkoutProgram,
+} from "@/lib/workoutPrograms";
+import { speakCue, vibrateCue } from "@/lib/cues";
+import { createPlausibilityMonitor, ExcludedSegment, PlausibilityMonitor, PLAUSIBILITY_REASON_LABELS } from "@/lib/plausibility";
+import {
+  addActivityMs,
+  appendOutdoor,
+  CHECKPOINT_INTERVAL_MS,
+  clearCheckpoint,
+  creditedDurationSec,
+  loadCheckpoint,
+  saveCheckpoint,
+  WorkoutCheckpoint,
+  WorkoutSnapshot,
+} from "@/lib/workoutCheckpoint";
+
+// GPS is sampled every 5 s; a fix older than this means the signal was lost
+const GPS_FIX_MAX_AGE_MS = 15000;
 
 const Exercise: React.FC = () => {
   const navigate = useNavigate();
-  const { userId, pet, refreshPet } = useUser();
-  const { getLocation } = useLocation();
-  const { manualRain, setManualRain } = useManualRain();
+  const { userId, pet } = useUser();
+  // 雨天加成：自動偵測的天氣或手動標示下雨（與寵物頁的下雨動畫同一來源）
+  const { raining, detected: isRainingDetected, manualRain, setManualRain, weather } = useRaining();
 
   const [isExercising, setIsExercising] = useState(false);
   const isExercisingRef = useRef(false);
@@ -27,9 +67,12 @@ const Exercise: React.FC = () => {
 
   const [steps, setSteps] = useState(0);
 
-  // 今日累計數據
-  const [dailyMinutes, setDailyMinutes] = useState(0);
-  const [dailySteps, setDailySteps] = useState(0);
+  // 今日累計數據（log_exercise 成功後由 mutation 自動重新載入）
+  const { data: dailyStats } = useDailyStatsQuery(userId);
+  const dailyMinutes = Math.floor((dailyStats?.daily_exercise_seconds ?? 0) / 60);
+  const dailySteps = dailyStats?.daily_steps ?? 0;
+
+  const logExerciseMutation = useLogExerciseMutation(userId);
 
   // Wake Lock 相關
   const wakeLockRef = useRef<WakeLockSentinel | null>(null);
@@ -42,147 +85,63 @@ const Exercise: React.FC = () => {
   // 開發者模式
   const [devMode, setDevMode] = useState(false);
 
+  // 開發者模式：錄製原始感測器資料，供下載或重播調整門檻
+  const [recordTrace, setRecordTrace] = useState(false);
+  const traceRecorderRef = useRef<TraceRecorder | null>(null);
+  const [recordedTrace, setRecordedTrace] = useState<MotionTrace | null>(null);
+
+  // 戶外模式：用 GPS 記錄距離、配速、爬升與路線
+  const [outdoorMode, setOutdoorMode] = useState(false);
+  const gpsWorkout = useGpsWorkout();
+
   // activity state
   const [activity, setActivity] = useState<Activity>("idle");
+  const activityRef = useRef<Activity>("idle");
 
-  // useRef for last magnitude and last step time to avoid stale closure
-  const lastMagRef = useRef<number>(0);
-  const lastStepTimeRef = useRef<number>(0);
+  // 課表（null = 自由運動）；課表依運動秒數推進，每秒對照目前偵測到的活動
+  const [programId, setProgramId] = useState<string | null>(null);
+  const programRunnerRef = useRef<ProgramRunner | null>(null);
+  const [programState, setProgramState] = useState<ProgramState | null>(null);
+  const [programResult, setProgramResult] = useState<ProgramResult | null>(null);
 
   // handler ref so we can remove listener later
   const motionHandlerRef = useRef<(e: DeviceMotionEvent) => void | null>(null);
 
-  // --- Hard-coded calibration results (from your runs) ---
-  // walking: mean mag: 3.35, std:1.21, max:6.45, peaks:22, cadence:2.76Hz
-  // jumping: mean mag: 20.85, std:16.24, max:83.68, peaks:18, cadence:2.26Hz
-  // Derived recommended thresholds (hard-coded)
-  const WALK_CAL = { mean: 2.35, std: 1.21, max: 6.45, peaks: 22, cadence: 1 };
-  const JUMP_CAL = { mean: 20.85, std: 16.24, max: 83.68, peaks: 18, cadence: 1.13 };
-
-  // Use recommended thresholds derived from calibration
-  const [stepThreshold] = useState<number>(Math.round((WALK_CAL.mean + WALK_CAL.std * 0.25) * 100) / 100); // ~3.65
-  const [magPeakThreshold] = useState<number>(Math.round((WALK_CAL.mean + WALK_CAL.std * 0.45) * 100) / 100); // ~3.89
-  const [jumpAmpThreshold] = useState<number>(Math.round(JUMP_CAL.max * 0.75)); // ~63
-  const [verticalPeakRatioForJump] = useState<number>(0.5);
-  const [cadenceWalkingMin] = useState<number>(Math.round((WALK_CAL.cadence - 0.6) * 100) / 100); // ~2.16
-  const [cadenceWalkingMax] = useState<number>(Math.round((WALK_CAL.cadence + 0.6) * 100) / 100); // ~3.36
-
-  // min interval for steps
-  const minStepInterval = 400; // ms 
-
-  // buffer for sliding window (store linear accel mag)
-  const samplesRef = useRef<
-    Array<{ t: number; lax: number; lay: number; laz: number; mag: number }>
-  >([]);
-
-  // gravity estimate for simple high-pass (low-pass for gravity)
-  const gravityRef = useRef<{ x: number; y: number; z: number }>({ x: 0, y: 0, z: 0 });
-
-  // feature timer ref so we can clear properly
-  const featureTimerRef = useRef<number | null>(null);
+  // 這支手機的校準（沒有的話用內建值）
+  const { stored: storedCalibration, calibration, save: saveCalibration, reset: resetCalibration } = useMotionCalibration(userId);
+  const [calibrationOpen, setCalibrationOpen] = useState(false);
 
-  // Pause detection: track idle time
-  const idleStartTimeRef = useRef<number | null>(null);
-  const [isPaused, setIsPaused] = useState<boolean>(false);
-  const isPausedRef = useRef<boolean>(false);
-
-  // Optional debug flag (kept but default off)
-  const [DEBUG] = useState<boolean>(false);
+  // Step counting / activity classification (see lib/motion); the page only reacts to its events
+  const motionEngine = useMemo(() => createMotionEngine(calibration ? { calibration } : {}), [calibration]);
+  const motionThresholds = motionEngine.thresholds;
+  const WALK_CAL = motionEngine.config.calibration.walk;
+  const JUMP_CAL = motionEngine.config.calibration.jump;
 
-  // minimal UI controls: user can mark "raining" for rewards
-  // manualRain 已改用全局 hook (useManualRain)，在上方宣告
-
-  // automatic weather detection state
-  const [isRainingDetected, setIsRainingDetected] = useState<boolean>(false);
-  const [weatherChecking, setWeatherChecking] = useState<boolean>(false);
+  // ticks the motion engine so it still classifies (and pauses) when samples stop
+  const featureTimerRef = useRef<number | null>(null);
 
-  // bonuses (percent) — keep defaults
-  const [morningBonusPercent] = useState<number>(15);
-  const [rainyBonusPercent] = useState<number>(10);
+  // Paused by the motion engine after 10 s without activity
+  const [isPaused, setIsPaused] = useState<boolean>(false);
 
   // start time ref to decide morning overlap
   const startTimeRef = useRef<number | null>(null);
-
-  // simple helper: magnitude
-  const mag = (ax: number, ay: number, az: number) => Math.sqrt(ax * ax + ay * ay + az * az);
-
-  // Weather detection using open-meteo (no API key). Attempts to get location and checks hourly precipitation.
-  const detectWeatherNow = async () => {
-    setWeatherChecking(true);
-
-    try {
-      const locationData = await getLocation();
-
-      if (!locationData || !locationData.success || !locationData.latitude || !locationData.longitude) {
-        setIsRainingDetected(false);
-        setWeatherChecking(false);
-        toast.error("無法取得位置資訊");
-        return;
-      }
-
-      const lat = locationData.latitude;
-      const lon = locationData.longitude;
-
-      // request hourly precipitation and timezone=auto so times match local
-      const url = `https://api.open-meteo.com/v1/forecast?latitude=${lat}&longitude=${lon}&hourly=precipitation&current_weather=true&timezone=auto`;
-      const res = await fetch(url);
-      if (!res.ok) throw new Error("Weather API error");
-      const data = await res.json();
-
-      // find nearest hourly index for now
-      const times: string[] = data.hourly?.time ?? [];
-      const prec: number[] = data.hourly?.precipitation ?? [];
-      if (!times.length || !prec || !prec.length) {
-        setIsRainingDetected(false);
-        setWeatherChecking(false);
-        toast.error("無法取得天氣資料");
-        return;
-      }
-
-      // find index closest to current local time (hour aligned)
-      const now = new Date();
-      const nearestIndex = times.reduce((bestIdx: number, t, i) => {
-        const dt = Math.abs(new Date(t).getTime() - now.getTime());
-        return dt < Math.abs(new Date(times[bestIdx]).getTime() - now.getTime()) ? i : bestIdx;
-      }, 0);
-      const precipitationNow = prec[nearestIndex] ?? 0;
-
-      // consider raining if precipitation >= 0.5 mm/h
-      const raining = precipitationNow >= 0.5;
-      setIsRainingDetected(raining);
-      setWeatherChecking(false);
-      toast.success(`天氣偵測完成：${raining ? "偵測到降雨" : "無降雨"}`);
-    } catch (err) {
-      console.error(err);
-      setIsRainingDetected(false);
-      setWeatherChecking(false);
-      toast.error("取得天氣資訊失敗");
-    }
-  };
-
-  // call weather detection automatically when the page/component mounts
-  useEffect(() => {
-    // run detection once on mount
-    detectWeatherNow();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
-
-  // 載入今日累計數據
-  useEffect(() => {
-    const loadDailyStats = async () => {
-      if (!userId) return;
-
-      try {
-        const stats = await getDailyStats(userId);
-        setDailyMinutes(Math.floor(stats.daily_exercise_seconds / 60));
-        setDailySteps(stats.daily_steps);
-      } catch (error) {
-        console.error('Failed to load daily stats:', error);
-      }
-    }; loadDailyStats();
-  }, [userId]);
-
-  const startExercise = () => {
+  // 雨天加成看開始運動時有沒有下雨，不看送出時
+  const rainingAtStartRef = useRef(false);
+
+  // 續接中斷的運動時，中斷前的部分（時長、步數、活動、路線都從這裡接著算）
+  const resumedFromRef = useRef<WorkoutSnapshot | null>(null);
+  // 上次頁面被重新載入或關閉時留下的運動
+  const [interruptedWorkout, setInterruptedWorkout] = useState<WorkoutCheckpoint | null>(null);
+  // 不合理動作偵測（搖手機、放在洗衣機上、搭車），被標記的片段不計入獎勵
+  const plausibilityRef = useRef<PlausibilityMonitor | null>(null);
+  // 運動結束後的結算單
+  const [receipt, setReceipt] = useState<WorkoutReceipt | null>(null);
+  // 高溫、紫外線、空品提醒：開始運動前顯示
+  const advisory = useMemo(() => (weather.report ? assessWeather(weather.report.current) : null), [weather.report]);
+  const [advisoryOpen, setAdvisoryOpen] = useState(false);
+
+  // outdoor: 這次是否用戶外模式（從天氣提醒改做室內運動時不等 state 更新）
+  const startExercise = (resumeFrom: WorkoutSnapshot | null = null, outdoor = outdoorMode) => {
     // 檢查體力是否足夠
     if (pet && pet.stamina <= 0) {
       toast.error("體力不足！無法開始運動");
@@ -192,27 +151,33 @@ const Exercise: React.FC = () => {
     setIsExercising(true);
     isExercisingRef.current = true;
 
-    setDuration(0);
-    setSteps(0);
-    lastMagRef.current = 0;
-    lastStepTimeRef.current = 0;
+    resumedFromRef.current = resumeFrom;
+    setDuration(resumeFrom?.durationSec ?? 0);
+    setSteps(resumeFrom?.steps ?? 0);
     setActivity("idle");
-    samplesRef.current = [];
-    gravityRef.current = { x: 0, y: 0, z: 0 };
-    startTimeRef.current = Date.now();
-    idleStartTimeRef.current = null;
+    activityRef.current = "idle";
+    motionEngine.reset();
+    traceRecorderRef.current = devMode && recordTrace ? createTraceRecorder() : null;
+    if (resumeFrom ? resumeFrom.outdoor : outdoor) gpsWorkout.start();
+    startTimeRef.current = resumeFrom?.startedAt ?? Date.now();
+    rainingAtStartRef.current = resumeFrom?.raining ?? raining;
     setIsPaused(false);
-    isPausedRef.current = false;
 
-    toast.success("運動開始！保持節奏~");
+    plausibilityRef.current = startPlausibilityMonitor(resumeFrom);
+
+    // 續接中斷的運動時不接續課表
+    setProgramResult(null);
+    const program = !resumeFrom && programId ? getProgram(programId) : null;
+    programRunnerRef.current = program ? startProgram(program) : null;
+
+    toast.success(resumeFrom ? "已接續上次的運動，繼續加油！" : "運動開始！保持節奏~");
 
     // 開始時間計時器
     if (durationIntervalRef.current) {
       window.clearInterval(durationIntervalRef.current);
+      durationIntervalRef.current = null;
     }
-    durationIntervalRef.current = window.setInterval(() => {
-      setDuration((prev) => prev + 1);
-    }, 1000);
+    startDurationTimer();
 
     // iOS 需要 requestPermission（必須在 user gesture 才能成功）
     if (typeof (DeviceMotionEvent as any).requestPermission === "function") {
@@ -269,14 +234,20 @@ const Exercise: React.FC = () => {
     setUnlockProgress(0);
   };
 
+  // 開始按鈕：天氣有疑慮時先提醒（體力不足則直接交給 startExercise 提示）
+  const requestStart = () => {
+    if (advisory && advisory.level !== "ok" && !(pet && pet.stamina <= 0)) {
+      setAdvisoryOpen(true);
+      return;
+    }
+    startExercise();
+  };
+
   const stopExercise = () => {
     setIsExercising(false);
     isExercisingRef.current = false;
     setIsScreenLocked(false); // 停止運動時解除鎖定
 
-    // 記錄運動前的力量值
-    const strengthBefore = pet?.strength || 0;
-
     // 清理計時器
     if (durationIntervalRef.current) {
       clearInterval(durationIntervalRef.current);
@@ -296,242 +267,289 @@ const Exercise: React.FC = () => {
     }
 
     // 重置暫停狀態
-    idleStartTimeRef.current = null;
     setIsPaused(false);
-    isPausedRef.current = false;
-
-    // 計算獎勵（基本）
-    const stamina = Math.floor(duration / 10);
-    const mood = Math.floor(duration / 15);
-
-    // 套用早雞加成（若在早上 6-10 點 start 時段）
-    let totalMultiplier = 1;
-    const startTs = startTimeRef.current ? new Date(startTimeRef.current) : new Date();
-    const startHour = startTs.getHours();
-    if (startHour >= 6 && startHour < 10) {
-      totalMultiplier *= 1 + morningBonusPercent / 100;
-    }
 
-    // 判定雨天戶外獎勵（需自動或手動標示下雨）
-    const raining = manualRain || isRainingDetected;
-    if (raining) {
-      totalMultiplier *= 1 + rainyBonusPercent / 100;
+    if (traceRecorderRef.current) {
+      setRecordedTrace(traceRecorderRef.current.finish());
+      traceRecorderRef.current = null;
     }
 
-    // apply multiplier and compute final increments (取整數)
-    const finalStamina = Math.floor(stamina * totalMultiplier);
-    const finalMood = Math.floor(mood * totalMultiplier);
+    plausibilityRef.current?.finish(duration);
+    const snapshot = currentSnapshot(gpsWorkout.isTracking ? gpsWorkout.stop() : null);
+    resumedFromRef.current = null;
+    plausibilityRef.current = null;
 
-    // 提交到後端API
-    if (userId && duration > 0) {
-      logExercise(userId, {
-        exercise_type: activity || "unknown",
-        duration_seconds: duration,
-        steps: steps,
-      })
-        .then(async (result) => {
-          // 計算力量增長 = 運動後力量 - 運動前力量
-          const strengthAfter = result.pet?.strength || 0;
-          const strengthGained = strengthAfter - strengthBefore;
-
-          // 計算體力消耗：每增加1點力量就減少1點體力
-          if (strengthGained > 0 && result.pet) {
-            const staminaLoss = strengthGained;
-            const newStamina = Math.max(0, result.pet.stamina - staminaLoss);
-
-            // 更新寵物的體力值
-            try {
-              await updateUserPet(userId, {
-                stamina: newStamina
-              });
-
-              toast.success(
-                `運動完成！偵測到活動: ${activity}。獲得：力量+${strengthGained}${finalMood > 0 ? ` 心情+${finalMood}` : ""} 體力-${staminaLoss}`
-              );
-            } catch (error) {
-              console.error("Failed to update stamina:", error);
-              toast.success(
-                `運動完成！偵測到活動: ${activity}。獲得：力量+${strengthGained}${finalMood > 0 ? ` 心情+${finalMood}` : ""}`
-              );
-            }
-          } else {
-            toast.success(
-              `運動完成！偵測到活動: ${activity}。獲得：力量+${strengthGained}${finalMood > 0 ? ` 心情+${finalMood}` : ""}`
-            );
-          }
+    const programRun = programRunnerRef.current?.getResult() ?? null;
+    programRunnerRef.current = null;
+    setProgramState(null);
+    setProgramResult(programRun);
 
-          if (result.breakthrough_required) {
-            toast.info("恭喜達到突破等級！請前往旅遊完成突破任務");
-          }
+    submitWorkout(snapshot, programRun);
+  };
+  // 課表跑完時從 runner 的事件裡結束運動
+  const stopExerciseRef = useRef(stopExercise);
+  stopExerciseRef.current = stopExercise;
+
+  const handleProgramEvent = (event: ProgramEvent) => {
+    switch (event.type) {
+      case "phase":
+        speakCue(`${event.phase.label}，${event.phase.durationSec} 秒`);
+        vibrateCue([200, 100, 200]);
+        toast.info(`${event.phase.label}（${event.phase.durationSec} 秒）${event.next ? `，接著：${event.next.label}` : ""}`);
+        break;
+      case "countdown":
+        speakCue(String(event.secondsLeft));
+        vibrateCue(100);
+        break;
+      case "complete":
+        speakCue("課表完成！");
+        vibrateCue([300, 100, 300, 100, 300]);
+        // 讓目前這次推進先跑完再結束
+        window.setTimeout(() => {
+          if (isExercisingRef.current) stopExerciseRef.current();
+        }, 0);
+        break;
+    }
+  };
 
-          // 刷新寵物數據（運動統計已在後端 log_exercise 中自動更新）
-          await refreshPet();
+  const startProgram = (program: WorkoutProgram) => {
+    const runner = createProgramRunner(program);
+    runner.subscribe(handleProgramEvent);
+    runner.start();
+    setProgramState(runner.getState());
+    return runner;
+  };
 
-          // 重新載入今日累計數據
-          try {
-            const stats = await getDailyStats(userId);
-            setDailyMinutes(Math.floor(stats.daily_exercise_seconds / 60));
-            setDailySteps(stats.daily_steps);
-          } catch (error) {
-            console.error('Failed to reload daily stats:', error);
-          }
-        })
-        .catch((error) => {
-          console.error("Failed to log exercise:", error);
-          toast.error("提交運動記錄失敗");
-        });
-    } else {
-      toast.success(
-        `運動完成！偵測到活動: ${activity}。獲得：心情+${finalMood}`
-      );
-    }
+  // 每過一秒運動時間就推進課表
+  useEffect(() => {
+    const runner = programRunnerRef.current;
+    if (!runner || !isExercisingRef.current) return;
+    runner.advance(duration, activityRef.current);
+    setProgramState(runner.getState());
+  }, [duration]);
+
+  const startPlausibilityMonitor = (resumeFrom: WorkoutSnapshot | null) => {
+    const monitor = createPlausibilityMonitor({}, {
+      elapsedSec: resumeFrom?.durationSec ?? 0,
+      steps: resumeFrom?.steps ?? 0,
+    });
+    monitor.subscribe((segment: ExcludedSegment) => {
+      toast.warning(`${PLAUSIBILITY_REASON_LABELS[segment.reason]}，這段運動不計入獎勵`);
+    });
+    return monitor;
+  };
+
+  // 把目前的動作與 GPS 狀態交給不合理動作偵測（透過 ref 讀最新的步數與感測器狀態）
+  const observePlausibilityRef = useRef<(elapsedSec: number) => void>(() => {});
+  observePlausibilityRef.current = (elapsedSec) => {
+    const monitor = plausibilityRef.current;
+    if (!monitor || !isExercisingRef.current) return;
+    const { lastFix } = gpsWorkout;
+    monitor.observe({
+      elapsedSec,
+      steps,
+      activity: activityRef.current,
+      features: motionEngine.getState().features,
+      gps: gpsWorkout.isTracking
+        ? {
+          distanceM: gpsWorkout.summary.distanceM,
+          // 定位太久沒更新或精度太差時不比對步數與距離
+          reliable: lastFix !== null
+            && Date.now() - lastFix.t <= GPS_FIX_MAX_AGE_MS
+            && (lastFix.accuracy ?? 0) <= gpsWorkout.config.maxAccuracyM,
+        }
+        : null,
+    });
   };
 
-  // 開發者模式：快速增加力量
-  const handleDevModeBoost = async () => {
-    if (!userId || !pet) {
-      toast.error("請先登入");
+  // 每過一秒運動時間檢查一次
+  useEffect(() => {
+    observePlausibilityRef.current(duration);
+  }, [duration]);
+
+  // 目前這次運動的內容（續接時包含中斷前的部分）
+  const currentSnapshot = (gpsTrack: GpsWorkoutResult | null): WorkoutSnapshot => {
+    const base = resumedFromRef.current;
+    const { activityMs } = motionEngine.getState();
+    const outdoor = gpsTrack
+      ? { distanceM: gpsTrack.summary.distanceM, elevationGainM: gpsTrack.summary.elevationGainM, route: gpsTrack.route }
+      : null;
+    return {
+      startedAt: startTimeRef.current ?? Date.now(),
+      raining: rainingAtStartRef.current,
+      durationSec: duration,
+      steps,
+      activityMs: base ? addActivityMs(base.activityMs, activityMs) : activityMs,
+      outdoor: appendOutdoor(base?.outdoor ?? null, outdoor),
+      excluded: [...(base?.excluded ?? []), ...(plausibilityRef.current?.getSegments() ?? [])],
+    };
+  };
+
+  // 送出的運動記錄（運動中也用它預估獎勵）
+  const buildExerciseLog = (workout: WorkoutSnapshot, program: ProgramResult | null): ExerciseLogCreate => ({
+    // 本次運動主要的活動與各活動秒數（不是最後一個偵測窗的結果）
+    exercise_type: dominantActivity(workout.activityMs),
+    duration_seconds: workout.durationSec,
+    steps: workout.steps,
+    activity_breakdown: activityBreakdownSeconds(workout.activityMs),
+    started_at: new Date(workout.startedAt).toISOString(),
+    // 雨天加成：開始運動時自動偵測或手動標示下雨
+    raining: workout.raining,
+    // 戶外模式：附上距離、爬升與路線
+    ...(workout.outdoor && workout.outdoor.route.length > 0
+      ? {
+        distance_meters: Math.round(workout.outdoor.distanceM),
+        elevation_gain_meters: Math.round(workout.outdoor.elevationGainM),
+        route_polyline: encodePolyline(workout.outdoor.route),
+      }
+      : {}),
+    // 被標記為不合理的片段與原因
+    ...(workout.excluded.length > 0
+      ? {
+        excluded_segments: workout.excluded.map((segment) => ({
+          start_sec: segment.startSec,
+          end_sec: segment.endSec,
+          steps: segment.steps,
+          reason: segment.reason,
+        })),
+      }
+      : {}),
+    // 依課表運動：回報是否完成與達成率，由後端決定課表獎勵
+    ...(program
+      ? {
+        program_id: program.programId,
+        program_completed: program.completed,
+        program_compliance: Math.round(program.compliance * 1000) / 1000,
+      }
+      : {}),
+  });
+
+  // 提交一次運動（剛結束的，或中斷後直接送出的）；獎勵由後端結算，結算單只顯示後端回傳的結果
+  // 存檔在送出（或暫存到 outbox）之後才清掉；送出失敗時留下這次運動，回到運動頁時可以再送一次
+  const submitWorkout = (workout: WorkoutSnapshot, program: ProgramResult | null = null) => {
+    if (!userId || workout.durationSec <= 0) {
+      if (userId) clearCheckpoint(userId);
+      setReceipt({ workout, result: null, queued: false });
       return;
     }
 
-    try {
-      const newStrength = pet.strength + 500;
-      await updateUserPet(userId, {
-        strength: newStrength
+    // 提交到後端API（離線時暫存到 outbox，恢復連線後自動補送）
+    logExerciseMutation
+      .mutateAsync(buildExerciseLog(workout, program))
+      .then((submission) => {
+        // 已經開始下一次運動時，存檔是那一次的
+        if (!isExercisingRef.current) clearCheckpoint(userId);
+        setReceipt(
+          submission.status === "queued"
+            ? { workout, result: null, queued: true }
+            : { workout, result: submission.result, queued: false }
+        );
+      })
+      .catch((error) => {
+        console.error("Failed to log exercise:", error);
+        // 存下結束時的內容（不再補算中斷的時間），取代運動中最後一次存檔
+        if (!isExercisingRef.current) saveCheckpoint(userId, workout, true);
+        if (error instanceof ValidationError) {
+          toast.error(`提交運動記錄失敗：${error.message}`);
+        } else if (error instanceof NotFoundError) {
+          toast.error("找不到帳號，請重新登入");
+        } else {
+          toast.error("提交運動記錄失敗");
+        }
       });
-      await refreshPet();
-      toast.success(`開發者模式：力量 +500！(${pet.strength} → ${newStrength})`);
-    } catch (error) {
-      console.error("Failed to boost strength:", error);
-      toast.error("更新失敗");
-    }
   };
 
-  // count peaks naive: a sample is a peak when v > neighbors and > threshold, and respect min interval
-  const countPeaks = (
-    seq: Array<{ t: number; v: number }>,
-    threshold: number,
-    minIntervalMs = 250
-  ) => {
-    let count = 0;
-    let lastPeakT = -Infinity;
-    for (let i = 1; i < seq.length - 1; i++) {
-      const prev = seq[i - 1].v;
-      const cur = seq[i].v;
-      const next = seq[i + 1].v;
-      if (cur > prev && cur > next && cur > threshold && seq[i].t - lastPeakT > minIntervalMs) {
-        count++;
-        lastPeakT = seq[i].t;
-      }
-    }
-    return count;
+  const startDurationTimer = () => {
+    if (durationIntervalRef.current) return;
+    durationIntervalRef.current = window.setInterval(() => {
+      setDuration((prev) => prev + 1);
+    }, 1000);
   };
 
-  // compute features on sliding window and classify
-  const computeFeaturesAndClassify = () => {
-    const now = Date.now();
-    const windowSize = 2000; // fixed window aligned to hard-coded setup
-    const cutoff = now - windowSize;
-    const buf = samplesRef.current.filter((s) => s.t >= cutoff);
-    samplesRef.current = buf; // save trimmed buffer
-
-    if (buf.length < 4) {
-      setActivity("idle");
-      // Start tracking idle time
-      if (!idleStartTimeRef.current) {
-        idleStartTimeRef.current = Date.now();
-      } else {
-        const idleDuration = (Date.now() - idleStartTimeRef.current) / 1000;
-        // Pause timer if idle for more than 10 seconds
-        if (idleDuration >= 10 && !isPausedRef.current) {
+  // React to the motion engine: steps, activity label and idle pause / resume
+  useEffect(() => {
+    return motionEngine.subscribe((event) => {
+      switch (event.type) {
+        case "step":
+          setSteps((resumedFromRef.current?.steps ?? 0) + event.steps);
+          plausibilityRef.current?.step(event.t);
+          break;
+        case "activity":
+          setActivity(event.activity);
+          activityRef.current = event.activity;
+          break;
+        case "pause":
+          // 課表自己掌控時間軸（休息、棒式本來就不動），不因靜止暫停
+          if (programRunnerRef.current) break;
           setIsPaused(true);
-          isPausedRef.current = true;
           if (durationIntervalRef.current) {
             clearInterval(durationIntervalRef.current);
             durationIntervalRef.current = null;
           }
           toast.info("偵測到連續10秒無活動，計時器已暫停");
-        }
+          break;
+        case "resume":
+          setIsPaused(false);
+          startDurationTimer();
+          toast.success("偵測到活動恢復，計時器繼續");
+          break;
       }
-      return;
-    }
+    });
+  }, [motionEngine]);
+
+  // 運動中定期存檔（以及頁面被切到背景時），重新載入後可以續接
+  const saveCheckpointRef = useRef<() => void>(() => {});
+  saveCheckpointRef.current = () => {
+    if (!userId || !isExercisingRef.current) return;
+    const gpsTrack = gpsWorkout.isTracking ? { summary: gpsWorkout.summary, route: gpsWorkout.route } : null;
+    saveCheckpoint(userId, currentSnapshot(gpsTrack), isPaused);
+  };
 
-    const mags = buf.map((s) => s.mag);
-    const meanMag = mags.reduce((a, b) => a + b, 0) / mags.length;
-    const variance =
-      mags.reduce((a, b) => a + (b - meanMag) * (b - meanMag), 0) / Math.max(1, mags.length - 1);
-    const stdMag = Math.sqrt(variance);
-    const maxMag = Math.max(...mags);
-
-    const peaksMag = countPeaks(buf.map((s) => ({ t: s.t, v: s.mag })), magPeakThreshold, 250);
-    const peaksZ = countPeaks(buf.map((s) => ({ t: s.t, v: Math.abs(s.laz) })), magPeakThreshold, 250);
-
-    const windowSec = Math.max(0.001, (buf[buf.length - 1].t - buf[0].t) / 1000);
-    const cadenceHz = peaksMag / windowSec;
-
-    // classification using hard-coded thresholds
-    const isLikelyJump =
-      maxMag > jumpAmpThreshold && peaksMag >= 2 && peaksZ / Math.max(1, peaksMag) >= verticalPeakRatioForJump;
-
-    const isLikelyWalk =
-      cadenceHz >= cadenceWalkingMin &&
-      cadenceHz <= cadenceWalkingMax &&
-      stdMag < Math.max(6, WALK_CAL.std * 3) &&
-      peaksMag >= 1;
-
-    let detectedActivity: Activity = "unknown";
-
-    if (isLikelyJump) {
-      detectedActivity = "jumping";
-    } else if (isLikelyWalk) {
-      detectedActivity = "walking";
-    } else if (maxMag < 0.9 && stdMag < 0.6) {
-      detectedActivity = "idle";
-    }
+  useEffect(() => {
+    if (!isExercising) return;
+    const save = () => saveCheckpointRef.current();
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") save();
+    };
+    const timer = window.setInterval(save, CHECKPOINT_INTERVAL_MS);
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    window.addEventListener("pagehide", save);
+    return () => {
+      window.clearInterval(timer);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      window.removeEventListener("pagehide", save);
+    };
+  }, [isExercising]);
 
-    setActivity(detectedActivity);
+  // 回到運動頁時檢查有沒有中斷的運動
+  useEffect(() => {
+    if (!userId || isExercisingRef.current) return;
+    setInterruptedWorkout(loadCheckpoint(userId));
+  }, [userId]);
 
-    // Handle pause/resume based on idle detection
-    if (detectedActivity === "idle") {
-      if (!idleStartTimeRef.current) {
-        idleStartTimeRef.current = Date.now();
-      } else {
-        const idleDuration = (Date.now() - idleStartTimeRef.current) / 1000;
-        // Pause timer if idle for more than 10 seconds
-        if (idleDuration >= 10 && !isPausedRef.current) {
-          setIsPaused(true);
-          isPausedRef.current = true;
-          if (durationIntervalRef.current) {
-            clearInterval(durationIntervalRef.current);
-            durationIntervalRef.current = null;
-          }
-          toast.info("偵測到連續10秒無活動，計時器已暫停");
-        }
-      }
-    } else {
-      // Active movement detected - reset idle timer and resume if paused
-      idleStartTimeRef.current = null;
-      if (isPausedRef.current) {
-        setIsPaused(false);
-        isPausedRef.current = false;
-        if (!durationIntervalRef.current) {
-          durationIntervalRef.current = window.setInterval(() => {
-            setDuration((prev) => prev + 1);
-          }, 1000);
-        }
-        toast.success("偵測到活動恢復，計時器繼續");
-      }
-    }
+  const resumeInterruptedWorkout = () => {
+    if (!interruptedWorkout) return;
+    const credited = creditedDurationSec(interruptedWorkout);
+    setOutdoorMode(!!interruptedWorkout.outdoor);
+    setInterruptedWorkout(null);
+    startExercise({ ...interruptedWorkout, durationSec: credited });
   };
 
-  // setup motion listener and periodic feature compute
-  const setupMotionDetection = () => {
-    lastMagRef.current = 0;
-    lastStepTimeRef.current = 0;
-    samplesRef.current = [];
-    gravityRef.current = { x: 0, y: 0, z: 0 };
+  const submitInterruptedWorkout = () => {
+    if (!interruptedWorkout || !userId) return;
+    const credited = creditedDurationSec(interruptedWorkout);
+    setInterruptedWorkout(null);
+    submitWorkout({ ...interruptedWorkout, durationSec: credited });
+  };
 
-    const alpha = 0.85; // low-pass alpha for gravity estimation
+  const discardInterruptedWorkout = () => {
+    if (userId) clearCheckpoint(userId);
+    setInterruptedWorkout(null);
+  };
+
+  // setup motion listener and periodic engine tick
+  const setupMotionDetection = () => {
+    const engine = motionEngine;
 
     const handleMotion = (event: DeviceMotionEvent) => {
       if (!isExercisingRef.current) return;
@@ -539,42 +557,15 @@ const Exercise: React.FC = () => {
       const a = event.acceleration ?? event.accelerationIncludingGravity;
       if (!a) return;
 
-      const ax = a.x ?? 0;
-      const ay = a.y ?? 0;
-      const az = a.z ?? 0;
-
-      // update gravity estimate (low-pass)
-      gravityRef.current.x = alpha * gravityRef.current.x + (1 - alpha) * ax;
-      gravityRef.current.y = alpha * gravityRef.current.y + (1 - alpha) * ay;
-      gravityRef.current.z = alpha * gravityRef.current.z + (1 - alpha) * az;
-
-      // linear acceleration = raw - gravity
-      const lax = ax - gravityRef.current.x;
-      const lay = ay - gravityRef.current.y;
-      const laz = az - gravityRef.current.z;
-
-      // magnitude on linear acceleration
-      const linearMag = mag(lax, lay, laz);
-      const now = Date.now();
-
-      // add to buffer
-      samplesRef.current.push({ t: now, lax, lay, laz, mag: linearMag });
-
-      // naive step detection on linear magnitude (still kept)
-      const last = lastMagRef.current || linearMag;
-      const delta = Math.abs(linearMag - last);
-      lastMagRef.current = linearMag;
+      const sample = { t: Date.now(), x: a.x ?? 0, y: a.y ?? 0, z: a.z ?? 0 };
+      engine.push(sample);
+      traceRecorderRef.current?.add(sample, event.interval);
 
-      if (delta > stepThreshold && now - lastStepTimeRef.current > minStepInterval) {
-        setSteps((prev) => prev + 1);
-        lastStepTimeRef.current = now;
-      }
-
-      // start periodic feature computation timer if not exist
+      // keep classifying even if devicemotion stops firing
       if (!featureTimerRef.current) {
         featureTimerRef.current = window.setInterval(() => {
-          computeFeaturesAndClassify();
-        }, 600) as unknown as number;
+          engine.tick(Date.now());
+        }, engine.config.classifyEveryMs);
       }
     };
 
@@ -597,6 +588,18 @@ const Exercise: React.FC = () => {
     };
   }, []);
 
+  // 戶外模式即時數據（續接時加上中斷前的路線）
+  const liveOutdoor = appendOutdoor(resumedFromRef.current?.outdoor ?? null, {
+    distanceM: gpsWorkout.summary.distanceM,
+    elevationGainM: gpsWorkout.summary.elevationGainM,
+    route: gpsWorkout.route,
+  });
+
+  // 預估獎勵：與後端同一套規則（不含課表獎勵），實際以後端結算為準
+  const rewardPreview = isExercising
+    ? computeRewards(sessionFromLog(buildExerciseLog(currentSnapshot(null), null)))
+    : null;
+
   return (
     <div className="min-h-screen bg-game-bg p-4">
       {/* 鎖定畫面覆蓋層 */}
@@ -659,6 +662,9 @@ const Exercise: React.FC = () => {
 
         <Card className="p-6 space-y-4">
           <h1 className="text-2xl font-bold text-center text-primary">運動模式</h1>
+          <div className="flex justify-center">
+            <PendingSyncBadge userId={userId} />
+          </div>
 
           {/* 開發者模式開關 */}
           <Card className="p-3" style={{ backgroundColor: 'var(--tp-white)', borderColor: 'var(--tp-grayscale-300)' }}>
@@ -678,15 +684,21 @@ const Exercise: React.FC = () => {
                 <p className="tp-caption" style={{ color: 'var(--tp-warning-600)' }}>
                   已啟用開發者模式
                 </p>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  className="w-full"
-                  onClick={handleDevModeBoost}
-                  disabled={!userId || !pet}
-                >
-                  +500 力量值
-                </Button>
+                <p className="tp-caption" style={{ color: 'var(--tp-grayscale-500)' }}>
+                  數值只能由後端結算。測試突破請用模擬後端的情境：網址加上 ?apiProfile=mock&mockScenario=breakthrough-pending
+                </p>
+                <div className="flex items-center justify-between pt-2">
+                  <Label htmlFor="record-trace" className="tp-caption" style={{ color: 'var(--tp-grayscale-700)' }}>
+                    錄製感測器資料（下次開始運動時）
+                  </Label>
+                  <Switch
+                    id="record-trace"
+                    checked={recordTrace}
+                    onCheckedChange={setRecordTrace}
+                    disabled={isExercising}
+                  />
+                </div>
+                <MotionTracePanel recordedTrace={recordedTrace} calibration={calibration} />
               </div>
             )}
           </Card>
@@ -705,6 +717,39 @@ const Exercise: React.FC = () => {
               </div>
             </div>
 
+            {rewardPreview && (
+              <p className="tp-caption text-center" style={{ color: 'var(--tp-grayscale-600)' }}>
+                預估獎勵：{formatStatDeltas(rewardPreview.deltas) || "尚無"}（以結算為準）
+              </p>
+            )}
+
+            {/* 戶外模式：距離 / 配速 / 爬升與路線 */}
+            {outdoorMode && liveOutdoor && (isExercising || liveOutdoor.route.length > 0) && (
+              <div className="space-y-2">
+                <div className="grid grid-cols-3 gap-2">
+                  <div className="bg-muted rounded-lg p-3 text-center">
+                    <div className="text-xl font-bold text-primary">{(liveOutdoor.distanceM / 1000).toFixed(2)}</div>
+                    <div className="text-xs text-muted-foreground mt-1">距離 (km)</div>
+                  </div>
+                  <div className="bg-muted rounded-lg p-3 text-center">
+                    <div className="text-xl font-bold text-primary">{formatPace(paceSecPerKm(duration, liveOutdoor.distanceM))}</div>
+                    <div className="text-xs text-muted-foreground mt-1">配速 (/km)</div>
+                  </div>
+                  <div className="bg-muted rounded-lg p-3 text-center">
+                    <div className="text-xl font-bold text-primary">{Math.round(liveOutdoor.elevationGainM)}</div>
+                    <div className="text-xs text-muted-foreground mt-1">爬升 (m)</div>
+                  </div>
+                </div>
+                <WorkoutRouteMap route={liveOutdoor.route} current={gpsWorkout.lastFix} />
+                {isExercising && gpsWorkout.lastFix?.accuracy !== undefined && (
+                  <p className="tp-caption text-center" style={{ color: 'var(--tp-grayscale-500)' }}>
+                    GPS 精度 ±{Math.round(gpsWorkout.lastFix.accuracy)}m
+                    {gpsWorkout.lastFix.accuracy > gpsWorkout.config.maxAccuracyM && "（訊號不佳，暫不計入距離）"}
+                  </p>
+                )}
+              </div>
+            )}
+
             {/* 今日累計數據 */}
             <div className="grid grid-cols-2 gap-4">
               <div className="bg-primary/10 rounded-lg p-4 text-center border-2 border-primary/20">
@@ -732,13 +777,7 @@ const Exercise: React.FC = () => {
             <div className="inline-block px-3 py-1 rounded bg-muted text-sm">
               偵測到活動：{" "}
               <span className="font-semibold">
-                {activity === "idle"
-                  ? "靜止"
-                  : activity === "walking"
-                    ? "走路"
-                    : activity === "jumping"
-                      ? "開合跳"
-                      : "未知"}
+                {ACTIVITY_LABELS[activity]}
               </span>
             </div>
             {isPaused && (
@@ -748,11 +787,20 @@ const Exercise: React.FC = () => {
             )}
           </div>
 
+          <WorkoutProgramPanel
+            programId={programId}
+            onProgramChange={setProgramId}
+            isExercising={isExercising}
+            state={programState}
+            result={programResult}
+            activity={activity}
+          />
+
           <Button
             size="lg"
             className="w-full h-16 text-lg"
             variant={isExercising ? "destructive" : "default"}
-            onClick={isExercising ? stopExercise : startExercise}
+            onClick={isExercising ? stopExercise : requestStart}
           >
             {isExercising ? (
               <>
@@ -767,6 +815,19 @@ const Exercise: React.FC = () => {
             )}
           </Button>
 
+          {/* 戶外模式開關（開始前選擇） */}
+          <div className="flex items-center justify-between">
+            <Label htmlFor="outdoor-mode" className="tp-body-regular" style={{ color: 'var(--tp-grayscale-700)' }}>
+              戶外模式（GPS 記錄距離與路線）
+            </Label>
+            <Switch
+              id="outdoor-mode"
+              checked={outdoorMode}
+              onCheckedChange={setOutdoorMode}
+              disabled={isExercising}
+            />
+          </div>
+
           {/* 鎖定按鈕 (僅在運動中顯示) */}
           {isExercising && !isScreenLocked && (
             <Button
@@ -785,6 +846,7 @@ const Exercise: React.FC = () => {
               <input
                 type="checkbox"
                 checked={manualRain}
+                disabled={isExercising}
                 onChange={(e) => {
                   setManualRain(e.target.checked);
                 }}
@@ -794,22 +856,86 @@ const Exercise: React.FC = () => {
             </label>
           </div>
 
-          {/* Show the hard-coded calibration summary for transparency */}
+          {/* Show the calibration in use for transparency */}
           <div className="mt-3 p-3 bg-accent/5 rounded text-xs text-muted-foreground">
-            <div className="font-medium">校準（已內建）</div>
+            <div className="flex items-center justify-between">
+              <span className="font-medium">
+                {storedCalibration
+                  ? `校準（本機，${new Date(storedCalibration.calibratedAt).toLocaleDateString()}）`
+                  : "校準（已內建）"}
+              </span>
+              <span className="flex gap-1">
+                {storedCalibration && (
+                  <Button size="sm" variant="ghost" className="h-7 px-2" disabled={isExercising} onClick={resetCalibration}>
+                    改用內建
+                  </Button>
+                )}
+                <Button size="sm" variant="outline" className="h-7 px-2" disabled={isExercising || !userId} onClick={() => setCalibrationOpen(true)}>
+                  <Gauge className="w-3 h-3 mr-1" />
+                  校準感測器
+                </Button>
+              </span>
+            </div>
             <div>走路 — mean: {WALK_CAL.mean}, std: {WALK_CAL.std}, max: {WALK_CAL.max}, cadence: {WALK_CAL.cadence}Hz</div>
             <div className="mt-1">開合跳 — mean: {JUMP_CAL.mean}, std: {JUMP_CAL.std}, max: {JUMP_CAL.max}, cadence: {JUMP_CAL.cadence}Hz</div>
             <div className="mt-2 text-xs">
-              使用已套用參數：stepThreshold={stepThreshold}, magPeakThreshold={magPeakThreshold}, jumpAmpThreshold={jumpAmpThreshold}
+              使用已套用參數：stepThreshold={motionThresholds.step}, magPeakThreshold={motionThresholds.magPeak}, jumpAmpThreshold={motionThresholds.jumpAmp}
             </div>
 
             <div className="mt-2 text-xs">
               自動天氣偵測：{" "}
-              {weatherChecking ? "偵測中..." : isRainingDetected ? "自動：下雨" : "自動：無降雨"}
+              {weather.loading
+                ? "偵測中..."
+                : weather.error
+                  ? weather.error
+                  : weather.report
+                    ? `${isRainingDetected ? "自動：下雨" : "自動：無降雨"}・${describeUpcomingRain(weather.report)}`
+                    : "尚未偵測"}
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-6 px-2 ml-1"
+                disabled={weather.loading}
+                onClick={() => weather.refresh(true)}
+              >
+                重新偵測
+              </Button>
             </div>
           </div>
         </Card>
 
+        <WorkoutReceiptDialog
+          receipt={receipt}
+          onClose={() => setReceipt(null)}
+          onBreakthrough={() => navigate("/travel")}
+        />
+
+        <WeatherAdvisoryDialog
+          advisory={advisoryOpen ? advisory : null}
+          outdoorMode={outdoorMode}
+          onStart={() => {
+            setAdvisoryOpen(false);
+            startExercise();
+          }}
+          onStartIndoor={() => {
+            setAdvisoryOpen(false);
+            setOutdoorMode(false);
+            startExercise(null, false);
+          }}
+          onFindVenue={() => navigate("/travel")}
+          onCancel={() => setAdvisoryOpen(false)}
+        />
+
+        <InterruptedWorkoutDialog
+          workout={interruptedWorkout}
+          creditedSec={interruptedWorkout ? creditedDurationSec(interruptedWorkout) : 0}
+          onResume={resumeInterruptedWorkout}
+          onSubmit={submitInterruptedWorkout}
+          onDiscard={discardInterruptedWorkout}
+        />
+
+        <CalibrationWizard open={calibrationOpen} onOpenChange={setCalibrationOpen} onSave={saveCalibration} />
+
         <Card className="p-4 bg-accent/10 border-accent">
           <p className="text-sm text-center text-accent-foreground">
             💡 使用手機加速度與定位（需允許）實時偵測您的運動步數與活動類型！（僅支援實機、HTTPS / localhost）
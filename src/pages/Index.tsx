@@ -32,14 +32,20 @@ import {
 import { Input } from "@/components/ui/input";
 import TPButton from "@/components/TPButton/TPButton";
 import { useUser } from "@/hooks/useUser";
-import { useManualRain } from "@/hooks/useWeather";
-import { updateUserPet, performDailyCheck, getStageName as getAPIStageNameFunc } from "@/lib/api";
+import { useRaining } from "@/hooks/useWeather";
+import { MAX_MOOD, MAX_STAMINA } from "@/lib/petRules";
+import { performDailyCheck, getStageName as getAPIStageNameFunc } from "@/lib/api";
+import { useUpdatePetMutation } from "@/hooks/queries";
+import { bridge } from "@/lib/townpassBridge";
 import { useToast } from "@/hooks/use-toast";
+import PendingSyncBadge from "@/components/PendingSyncBadge";
+import GuestUpgradeCard from "@/components/GuestUpgradeCard";
 
 const Index = () => {
   const navigate = useNavigate();
-  const { userId, pet, refreshPet, isLoading } = useUser();
-  const { manualRain } = useManualRain();
+  const { userId, pet, setPet, isLoading } = useUser();
+  const updatePetMutation = useUpdatePetMutation(userId);
+  const { raining: isRaining } = useRaining();
   const { toast } = useToast();
   const [editingName, setEditingName] = useState("");
   const [namePopoverOpen, setNamePopoverOpen] = useState(false);
@@ -49,9 +55,6 @@ const Index = () => {
   const [typedText, setTypedText] = useState("");
   const [showBreakthroughDialog, setShowBreakthroughDialog] = useState(false);
 
-  // Rain effect - 使用全局的 manualRain 狀態
-  const isRaining = manualRain;
-
   // Perform daily check when component mounts
   useEffect(() => {
     const checkDaily = async () => {
@@ -75,7 +78,7 @@ const Index = () => {
               variant: "destructive",
             });
           }
-          await refreshPet();
+          setPet(result.pet);
           setHasCheckedDaily(true);
         } catch (error) {
           console.error("Daily check failed:", error);
@@ -83,7 +86,7 @@ const Index = () => {
       }
     };
     checkDaily();
-  }, [userId, hasCheckedDaily, pet, refreshPet, toast]);
+  }, [userId, hasCheckedDaily, pet, setPet, toast]);
 
   // 檢測是否需要突破任務
   useEffect(() => {
@@ -100,7 +103,7 @@ const Index = () => {
     return () => clearTimeout(timer);
   }, []);
 
-  // Rain effect 現在使用全局 useManualRain hook，不需要 localStorage listener
+  // Rain effect 使用全局 useRaining hook（偵測到的天氣或手動下雨），不需要 localStorage listener
 
   const getStageName = (stage: number) => {
     const stageNames: Record<number, string> = {
@@ -143,20 +146,12 @@ const Index = () => {
       // Demo: 1-5
       const isEarlyBirdTime = true;
 
-      if (isEarlyBirdTime && window.flutterObject && !alreadyNotifiedRef.current) {
-        try {
-          const message = JSON.stringify({
-            name: "notify",
-            data: {
-              title: "🐔 早雞時段！",
-              content: "現在運動可獲得 +15% 加成！"
-            }
-          });
-          window.flutterObject.postMessage(message);
-          alreadyNotifiedRef.current = true;
-        } catch (error) {
-          console.error("[早雞通知] 發送失敗:", error);
-        }
+      if (isEarlyBirdTime && bridge.isAvailable() && !alreadyNotifiedRef.current) {
+        const sent = bridge.send("notify", {
+          title: "🐔 早雞時段！",
+          content: "現在運動可獲得 +15% 加成！"
+        });
+        if (sent) alreadyNotifiedRef.current = true;
       }
 
       // 如果時段結束 -> 重置
@@ -210,8 +205,7 @@ const Index = () => {
   const handleNameEdit = async () => {
     if (editingName.trim() && userId) {
       try {
-        await updateUserPet(userId, { name: editingName.trim() });
-        await refreshPet();
+        await updatePetMutation.mutateAsync({ name: editingName.trim() });
         setNamePopoverOpen(false);
         setEditingName("");
         toast({
@@ -402,6 +396,8 @@ const Index = () => {
                 {getStageName(pet.stage)}
               </span>
 
+              <PendingSyncBadge userId={userId} className="ml-auto" />
+
               <div
                 className="ml-auto px-3 py-1 rounded-full tp-body-semibold"
                 style={{
@@ -416,6 +412,8 @@ const Index = () => {
 
           <main className="flex-1 p-4 overflow-auto">
             <div className="max-w-md mx-auto space-y-4">
+              <GuestUpgradeCard />
+
               {/* Stats */}
               <Card className="p-6 space-y-4" style={{ backgroundColor: 'var(--tp-white)', borderColor: 'var(--tp-primary-200)' }}>
                 <StatBar
@@ -427,13 +425,13 @@ const Index = () => {
                 <StatBar
                   label="體力值"
                   value={pet.stamina}
-                  max={900}
+                  max={MAX_STAMINA}
                   icon="❤️"
                 />
                 <StatBar
                   label="心情"
                   value={pet.mood}
-                  max={100}
+                  max={MAX_MOOD}
                   icon="😊"
                 />
               </Card>
@@ -446,7 +444,7 @@ const Index = () => {
                   strength={currentLevelStrength}
                   strengthMax={120}
                   stamina={pet.stamina}
-                  staminaMax={900}
+                  staminaMax={MAX_STAMINA}
                   startMessageTimer={!showEntrance}
                 />
               </div>
@@ -6,6 +6,7 @@ import { useUser } from "@/hooks/useUser";
 import { getUser } from "@/lib/api";
 import { useEffect, useState } from "react";
 import DailyQuests from "@/components/DailyQuests";
+import { MAX_STAMINA } from "@/lib/petRules";
 
 // Format seconds into H:MM:SS or M:SS
 function formatDuration(totalSeconds: number): string {
@@ -20,7 +21,7 @@ function formatDuration(totalSeconds: number): string {
 
 const Status = () => {
   const navigate = useNavigate();
-  const { userId, pet, refreshPet } = useUser();
+  const { userId, pet } = useUser();
 
   if (!pet) {
     return (
@@ -88,13 +89,13 @@ const Status = () => {
           <div className="space-y-2">
             <div className="flex justify-between tp-body-regular">
               <span style={{ color: 'var(--tp-grayscale-600)' }}>剩餘體力</span>
-              <span style={{ color: 'var(--tp-primary-600)' }}>{pet.stamina}/900</span>
+              <span style={{ color: 'var(--tp-primary-600)' }}>{pet.stamina}/{MAX_STAMINA}</span>
             </div>
             <div className="h-2 rounded-full overflow-hidden" style={{ backgroundColor: 'var(--tp-grayscale-200)' }}>
               <div
                 className="h-full transition-all"
                 style={{
-                  width: `${(pet.stamina / 900) * 100}%`,
+                  width: `${(pet.stamina / MAX_STAMINA) * 100}%`,
                   backgroundColor: pet.stamina > 300 ? 'var(--tp-primary-500)' : 'var(--tp-orange-500)'
                 }}
               />
@@ -119,7 +120,7 @@ const Status = () => {
         </Card>
 
         {/* Daily Quests */}
-        <DailyQuests userId={userId} onQuestCompleted={refreshPet} />
+        <DailyQuests userId={userId} />
       </div>
     </div>
   );
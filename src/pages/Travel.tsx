@@ -1,6 +1,6 @@
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { ArrowLeft, MapPin, Trophy, Navigation, Map, Code, Search } from "lucide-react";
+import { ArrowLeft, MapPin, Trophy, Navigation, Map, Code, Search, CloudSun } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { useState, useMemo, useEffect, useCallback } from "react";
 import TPButton from "@/components/TPButton/TPButton";
@@ -12,8 +12,11 @@ import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { useInView } from "react-intersection-observer";
 import questsData from "@/data/quests.json";
-import { getUserTravelCheckins, createTravelCheckin, completeBreakthrough } from "@/lib/api";
+import { ConflictError, RequestAbortedError, ValidationError } from "@/lib/apiErrors";
 import { useUser } from "@/hooks/useUser";
+import { useCheckinsQuery, useTravelCheckinMutation } from "@/hooks/queries";
+import { useWeather } from "@/hooks/useWeather";
+import { assessWeather } from "@/lib/weatherAdvisory";
 
 interface QuestData {
   id: string;
@@ -21,20 +24,19 @@ interface QuestData {
   description: string;
   bonus: { strength?: number; mood?: number };
   category: "景點" | "公園" | "運動場館";
+  indoor?: boolean;
   lat: number;
   lng: number;
 }
 
 const Travel = () => {
   const navigate = useNavigate();
-  const { userId, pet, refreshPet } = useUser();
-  const [quests, setQuests] = useState<QuestLocation[]>([]);
+  const { userId, pet } = useUser();
   const [viewMode, setViewMode] = useState<"map" | "list">("map");
   const [devMode, setDevMode] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
   const [displayedCount, setDisplayedCount] = useState(10);
   const [flyToQuest, setFlyToQuest] = useState<QuestLocation | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
   const [activeQuestId, setActiveQuestId] = useState<string | null>(null);
 
   const { ref: loadMoreRef, inView } = useInView({
@@ -42,51 +44,37 @@ const Travel = () => {
   });
 
   // 從後端載入已完成的打卡記錄
-  useEffect(() => {
-    const loadQuestsWithStatus = async () => {
-      if (!userId) {
-        setIsLoading(false);
-        return;
-      }
+  const checkinsQuery = useCheckinsQuery(userId);
+  const checkinMutation = useTravelCheckinMutation(userId);
+  const isLoading = !!userId && checkinsQuery.isLoading;
 
-      try {
-        // 獲取用戶的打卡記錄
-        const checkins = await getUserTravelCheckins(userId);
-        const completedQuestIds = new Set(checkins.map(c => c.quest_id));
-
-        // 載入 JSON 資料並添加狀態
-        const rawQuests = questsData as QuestData[];
-        const questsWithStatus: QuestLocation[] = rawQuests.map(quest => ({
-          ...quest,
-          status: completedQuestIds.has(quest.id) ? "completed" as const : "available" as const
-        }));
-
-        setQuests(questsWithStatus);
-      } catch (error) {
-        console.error("Failed to load quests:", error);
-        toast.error("載入任務失敗");
-        // 如果失敗，至少顯示基本資料
-        const rawQuests = questsData as QuestData[];
-        setQuests(rawQuests.map(q => ({ ...q, status: "available" as const })));
-      } finally {
-        setIsLoading(false);
-      }
-    };
+  // 高溫、紫外線或空品不佳時，推薦室內運動場館
+  const weather = useWeather();
+  const advisory = useMemo(() => (weather.report ? assessWeather(weather.report.current) : null), [weather.report]);
+  const recommendIndoor = !!advisory?.preferIndoor;
 
-    loadQuestsWithStatus();
-  }, [userId]);
+  useEffect(() => {
+    const error = checkinsQuery.error;
+    // 離開頁面時取消的請求不需處理
+    if (!error || error instanceof RequestAbortedError) return;
+    console.error("Failed to load quests:", error);
+    toast.error("載入任務失敗");
+  }, [checkinsQuery.error]);
+
+  // 載入 JSON 資料並依打卡記錄 / 進行中任務添加狀態（載入失敗時至少顯示基本資料）
+  const quests = useMemo<QuestLocation[]>(() => {
+    const completedQuestIds = new Set((checkinsQuery.data ?? []).map(c => c.quest_id));
+    const rawQuests = questsData as QuestData[];
+    return rawQuests.map(quest => ({
+      ...quest,
+      status: completedQuestIds.has(quest.id)
+        ? "completed" as const
+        : quest.id === activeQuestId ? "in-progress" as const : "available" as const
+    }));
+  }, [checkinsQuery.data, activeQuestId]);
 
   const handleAcceptQuest = (quest: QuestLocation) => {
-    // 將之前進行中的任務取消
-    setQuests(prev => prev.map(q =>
-      q.status === "in-progress" ? { ...q, status: "available" as const } : q
-    ));
-
-    // 設置新的進行中任務
-    setQuests(prev => prev.map(q =>
-      q.id === quest.id ? { ...q, status: "in-progress" as const } : q
-    ));
-
+    // 設置新的進行中任務（之前進行中的任務自動取消）
     setActiveQuestId(quest.id);
 
     toast.success(`已接受任務：${quest.name}`, {
@@ -101,27 +89,37 @@ const Travel = () => {
     }
 
     try {
-      // 發送打卡記錄到後端
-      const result = await createTravelCheckin(userId, {
+      // 發送打卡記錄到後端（離線時暫存，恢復連線後自動補送）
+      // 打卡記錄會先樂觀寫入快取，任務立即顯示為已完成
+      const submission = await checkinMutation.mutateAsync({
         quest_id: quest.id,
         lat: quest.lat,
         lng: quest.lng
       });
 
-      // 更新本地狀態
-      setQuests(prev => prev.map(q =>
-        q.id === quest.id ? { ...q, status: "completed" as const } : q
-      ));
-
       setActiveQuestId(null);
 
       const bonusText = getBonusText(quest.bonus);
-      toast.success(`打卡成功！`, {
-        description: `獲得獎勵：${bonusText}`
-      });
+      if (submission.status === "queued") {
+        toast.info(`打卡已暫存`, {
+          description: `恢復連線後會自動同步並獲得：${bonusText}`
+        });
+      } else {
+        toast.success(`打卡成功！`, {
+          description: `獲得獎勵：${bonusText}`
+        });
+      }
     } catch (error) {
       console.error("Failed to complete quest:", error);
-      toast.error("打卡失敗，請稍後再試");
+      if (error instanceof ConflictError) {
+        // 已經打卡過：mutation 會重新載入打卡記錄，同步成已完成
+        setActiveQuestId(null);
+        toast.info("此地點已經打卡過了");
+      } else if (error instanceof ValidationError) {
+        toast.error(`打卡失敗：${error.message}`);
+      } else {
+        toast.error("打卡失敗，請稍後再試");
+      }
     }
   };
 
@@ -135,10 +133,12 @@ const Travel = () => {
     );
   }, [quests, searchTerm]);
 
-  const availableQuests = useMemo(() =>
-    filteredQuests.filter(q => q.status === "available"),
-    [filteredQuests]
-  );
+  const availableQuests = useMemo(() => {
+    const available = filteredQuests.filter(q => q.status === "available");
+    if (!recommendIndoor) return available;
+    // 室內場館排在最前面（sort 是穩定的，其餘維持原順序）
+    return [...available].sort((a, b) => Number(!!b.indoor) - Number(!!a.indoor));
+  }, [filteredQuests, recommendIndoor]);
 
   const inProgressQuests = useMemo(() =>
     filteredQuests.filter(q => q.status === "in-progress"),
@@ -247,6 +247,24 @@ const Travel = () => {
               )}
             </Card>
 
+            {/* 天氣不適合戶外運動時推薦室內場館 */}
+            {recommendIndoor && advisory && (
+              <Card className="p-3 space-y-1" style={{ backgroundColor: 'var(--tp-orange-50)', borderColor: 'var(--tp-orange-200)' }}>
+                <div className="flex items-center gap-2 tp-body-semibold" style={{ color: 'var(--tp-orange-700)' }}>
+                  <CloudSun className="w-5 h-5" />
+                  今天比較適合室內運動
+                </div>
+                {advisory.reasons.map((reason) => (
+                  <p key={reason.kind} className="tp-caption" style={{ color: 'var(--tp-orange-700)' }}>
+                    {reason.message}
+                  </p>
+                ))}
+                <p className="tp-caption" style={{ color: 'var(--tp-grayscale-600)' }}>
+                  標示「室內」的運動場館已排在列表最前面
+                </p>
+              </Card>
+            )}
+
             {/* 任務統計 */}
             <div className="grid grid-cols-3 gap-4">
               <Card className="p-4 text-center" style={{ backgroundColor: 'var(--tp-white)' }}>
@@ -409,6 +427,14 @@ const Travel = () => {
                               >
                                 {quest.category}
                               </span>
+                              {quest.indoor && (
+                                <span
+                                  className="tp-caption px-2 py-0.5 rounded"
+                                  style={{ backgroundColor: 'var(--tp-grayscale-100)', color: 'var(--tp-grayscale-700)' }}
+                                >
+                                  室內
+                                </span>
+                              )}
                             </div>
                             <div className="tp-caption" style={{ color: 'var(--tp-grayscale-500)' }}>
                               {quest.description}
@@ -5,12 +5,15 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { useUser } from "@/hooks/useUser";
 import { useTownPassAuth } from "@/hooks/useTownPassAuth";
-import { createUser } from "@/lib/api";
+import ProfileSwitcher from "@/components/ProfileSwitcher";
+import type { User } from "@/lib/api";
+import { NetworkError, RequestAbortedError } from "@/lib/apiErrors";
+import { findGuestAccount, findTownPassAccount, registerTownPassAccount, Session, startGuestSession } from "@/lib/session";
 import { useToast } from "@/hooks/use-toast";
 
 const Welcome = () => {
     const navigate = useNavigate();
-    const { setUserId } = useUser();
+    const { signIn, profiles } = useUser();
     const { toast } = useToast();
     const [petName, setPetName] = useState("");
     const [isLoading, setIsLoading] = useState(false);
@@ -51,6 +54,38 @@ const Welcome = () => {
         requestTownPassUser();
     }, [requestTownPassUser]);
 
+    // 已有帳號的 TownPass 使用者（或這台裝置上的訪客寵物）：直接登入，不需要再取名字
+    const [existingAccount, setExistingAccount] = useState<{ session: Session; user: User } | null>(null);
+    const [isLookingUp, setIsLookingUp] = useState(false);
+
+    useEffect(() => {
+        if (isTownPassLoading) return;
+        if (!townpassUser?.id) {
+            setExistingAccount(findGuestAccount());
+            return;
+        }
+        const controller = new AbortController();
+        setIsLookingUp(true);
+        findTownPassAccount(townpassUser, controller.signal)
+            .then(setExistingAccount)
+            .catch((error) => {
+                if (error instanceof RequestAbortedError) return;
+                console.error("Failed to look up TownPass account:", error);
+            })
+            .finally(() => setIsLookingUp(false));
+        return () => controller.abort();
+    }, [townpassUser, isTownPassLoading]);
+
+    const handleContinue = () => {
+        if (!existingAccount) return;
+        signIn(existingAccount.session);
+        toast({
+            title: "歡迎回來！",
+            description: `${existingAccount.user.pet?.name ?? "你的寵物"} 等你好久了`,
+        });
+        navigate("/");
+    };
+
     const handleCreateUser = async () => {
         if (!petName.trim()) {
             toast({
@@ -63,34 +98,31 @@ const Welcome = () => {
 
         setIsLoading(true);
         try {
-            const townpassId = townpassUser?.id;
-
-            if (!townpassId) {
-                // 如果沒有 TownPass ID，使用預設測試帳號
-                const defaultUserId = "1";
-                setUserId(defaultUserId);
+            if (townpassUser?.id) {
+                // 有 TownPass ID：建立帳號（已存在則直接登入）
+                signIn(await registerTownPassAccount(townpassUser, petName.trim()));
                 toast({
                     title: "歡迎！",
-                    description: `${petName} 歡迎回來！（使用測試帳號）`,
+                    description: `${petName} 誕生了！(已連結 TownPass 帳號)`,
                 });
-                navigate("/");
             } else {
-                // 有 TownPass ID，創建新用戶
-                const user = await createUser(petName.trim(), townpassId);
-                setUserId(user.id);
+                // 沒有 TownPass：訪客模式，資料只存在這個瀏覽器
+                signIn(startGuestSession(petName.trim()));
                 toast({
                     title: "歡迎！",
-                    description: `${petName} 誕生了！(已連結 TownPass 帳號)`,
+                    description: `${petName} 誕生了！(訪客模式，之後可連結 TownPass 帳號)`,
                 });
-                navigate("/");
             }
+            navigate("/");
         } catch (error) {
+            console.error(error);
             toast({
                 title: "錯誤",
-                description: "創建用戶失敗，請稍後重試",
+                description: error instanceof NetworkError
+                    ? "網路連線失敗，請稍後重試"
+                    : "創建用戶失敗，請稍後重試",
                 variant: "destructive",
             });
-            console.error(error);
         } finally {
             setIsLoading(false);
         }
@@ -155,45 +187,69 @@ const Welcome = () => {
                     {!isTownPassLoading && !townpassUser && (
                         <div className="text-center p-3 rounded-lg" style={{ backgroundColor: 'var(--tp-warning-50)', borderColor: 'var(--tp-warning-200)', borderWidth: '1px' }}>
                             <p className="tp-body-regular" style={{ color: 'var(--tp-warning-700)' }}>
-                                ⚠️ 未偵測到 TownPass，將使用預設帳號
+                                ⚠️ 未偵測到 TownPass，將以訪客模式遊玩（資料只存在此裝置）
                             </p>
                         </div>
                     )}
 
-                    <div>
-                        <label
-                            className="tp-body-semibold block mb-2"
-                            style={{ color: 'var(--tp-grayscale-700)' }}
-                        >
-                            寵物名稱
-                        </label>
-                        <Input
-                            placeholder="例如：咕咕雞"
-                            value={petName}
-                            onChange={(e) => setPetName(e.target.value)}
-                            onKeyDown={(e) => {
-                                if (e.key === 'Enter' && !isLoading) {
-                                    handleCreateUser();
-                                }
-                            }}
-                            disabled={isLoading}
+                    {existingAccount ? (
+                        <Button
+                            onClick={handleContinue}
                             className="w-full"
-                        />
-                    </div>
+                            style={{
+                                backgroundColor: 'var(--tp-primary-600)',
+                                color: 'var(--tp-white)',
+                            }}
+                        >
+                            繼續照顧 {existingAccount.user.pet?.name ?? "你的寵物"}
+                        </Button>
+                    ) : (
+                        <>
+                            <div>
+                                <label
+                                    className="tp-body-semibold block mb-2"
+                                    style={{ color: 'var(--tp-grayscale-700)' }}
+                                >
+                                    寵物名稱
+                                </label>
+                                <Input
+                                    placeholder="例如：咕咕雞"
+                                    value={petName}
+                                    onChange={(e) => setPetName(e.target.value)}
+                                    onKeyDown={(e) => {
+                                        if (e.key === 'Enter' && !isLoading) {
+                                            handleCreateUser();
+                                        }
+                                    }}
+                                    disabled={isLoading}
+                                    className="w-full"
+                                />
+                            </div>
 
-                    <Button
-                        onClick={handleCreateUser}
-                        disabled={isLoading}
-                        className="w-full"
-                        style={{
-                            backgroundColor: 'var(--tp-primary-600)',
-                            color: 'var(--tp-white)',
-                        }}
-                    >
-                        {isLoading ? "處理中..." : (townpassUser ? "開始冒險" : "使用預設帳號進入")}
-                    </Button>
+                            <Button
+                                onClick={handleCreateUser}
+                                disabled={isLoading || isLookingUp}
+                                className="w-full"
+                                style={{
+                                    backgroundColor: 'var(--tp-primary-600)',
+                                    color: 'var(--tp-white)',
+                                }}
+                            >
+                                {isLoading ? "處理中..." : "開始冒險"}
+                            </Button>
+                        </>
+                    )}
                 </div>
 
+                {profiles.length > 0 && (
+                    <div className="space-y-2">
+                        <p className="tp-caption text-center" style={{ color: 'var(--tp-grayscale-500)' }}>
+                            或切換到這台裝置上的其他寵物
+                        </p>
+                        <ProfileSwitcher allowAdd={false} />
+                    </div>
+                )}
+
                 <div className="text-center">
                     <p className="tp-caption" style={{ color: 'var(--tp-grayscale-500)' }}>
                         運動讓你的寵物變得更強壯！💪
@@ -3,6 +3,7 @@ export interface QuestLocation {
   name: string;
   description: string;
   category: "景點" | "公園" | "運動場館";
+  indoor?: boolean; // 運動場館才標示：室內場館，高溫或空品不佳時推薦
   lat: number;
   lng: number;
   bonus: {
@@ -19,12 +20,5 @@ export interface UserLocation {
   accuracy?: number;
 }
 
-// 後端 API 返回的旅遊打卡記錄
-export interface TravelCheckin {
-  id: number;
-  user_id: number;
-  quest_id: string;
-  completed_at: string;
-  lat: number;
-  lng: number;
-}
+// 後端 API 返回的旅遊打卡記錄：型別由 zod schema 推導，定義在 lib/api
+export type { TravelCheckin } from "@/lib/api";
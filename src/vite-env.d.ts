@@ -1,5 +1,25 @@
 /// <reference types="vite/client" />
 
+interface ImportMetaEnv {
+    /** Explicit backend URL; overrides VITE_API_PROFILE */
+    readonly VITE_API_BASE_URL?: string;
+    /** Default API profile: "mock" | "local" | "staging" | "production" */
+    readonly VITE_API_PROFILE?: string;
+    /** Weather provider: "open-meteo" | "stub" (see src/lib/weather.ts) */
+    readonly VITE_WEATHER_PROVIDER?: string;
+}
+
+interface ImportMeta {
+    readonly env: ImportMetaEnv;
+}
+
+// Runtime config injected by public/runtime-config.js (editable after build)
+interface AppRuntimeConfig {
+    apiBaseUrl?: string;
+    apiProfile?: string;
+    weatherProvider?: string;
+}
+
 // TownPass flutterObject type definitions
 interface FlutterObject {
     postMessage: (message: string) => void;
@@ -9,4 +29,5 @@ interface FlutterObject {
 
 interface Window {
     flutterObject?: FlutterObject;
+    __APP_CONFIG__?: AppRuntimeConfig;
 }
@@ -1,52 +1,57 @@
-import { defineConfig } from "vite";
+import { defineConfig, loadEnv } from "vite";
 import react from "@vitejs/plugin-react";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
+import { mockBackend } from "./mock/vitePlugin";
 
 // https://vitejs.dev/config/
-export default defineConfig(({ mode }) => ({
-  server: {
-    host: "::",
-    port: 8080,
-    proxy: {
-      '/api': {
-        target: 'https://back-end-tasw.onrender.com',
-        changeOrigin: true,
-        rewrite: (path) => path.replace(/^\/api/, ''),
-        secure: false,
+export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, process.cwd(), "");
+
+  return {
+    server: {
+      host: "::",
+      port: 8080,
+      proxy: {
+        '/api': {
+          target: env.API_PROXY_TARGET || 'https://back-end-tasw.onrender.com',
+          changeOrigin: true,
+          rewrite: (path) => path.replace(/^\/api/, ''),
+          secure: false,
+        },
+      },
+    },
+    plugins: [react(), mockBackend(), mode === "development" && componentTagger()].filter(Boolean),
+    resolve: {
+      alias: {
+        "@": path.resolve(__dirname, "./src"),
       },
     },
-  },
-  plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
-  resolve: {
-    alias: {
-      "@": path.resolve(__dirname, "./src"),
+    optimizeDeps: {
+      include: [
+        'react',
+        'react-dom',
+        'react-router-dom',
+        'leaflet',
+        'react-leaflet',
+        'lucide-react',
+        '@radix-ui/react-switch',
+        '@radix-ui/react-label',
+        'react-intersection-observer'
+      ],
+      exclude: ['leaflet-routing-machine']
     },
-  },
-  optimizeDeps: {
-    include: [
-      'react',
-      'react-dom',
-      'react-router-dom',
-      'leaflet',
-      'react-leaflet',
-      'lucide-react',
-      '@radix-ui/react-switch',
-      '@radix-ui/react-label',
-      'react-intersection-observer'
-    ],
-    exclude: ['leaflet-routing-machine']
-  },
-  build: {
-    sourcemap: false,
-    rollupOptions: {
-      output: {
-        manualChunks: {
-          'react-vendor': ['react', 'react-dom', 'react-router-dom'],
-          'map-vendor': ['leaflet', 'react-leaflet'],
-          'ui-vendor': ['lucide-react']
+    build: {
+      sourcemap: false,
+      rollupOptions: {
+        output: {
+          manualChunks: {
+            'react-vendor': ['react', 'react-dom', 'react-router-dom'],
+            'map-vendor': ['leaflet', 'react-leaflet'],
+            'ui-vendor': ['lucide-react']
+          }
         }
       }
     }
-  }
-}));
+  };
+});